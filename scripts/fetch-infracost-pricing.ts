@@ -7,13 +7,39 @@
  * Prerequisites:
  *   infracost configure set api_key YOUR_API_KEY
  * 
- * Usage: npx ts-node scripts/fetch-infracost-pricing.ts
+ * Usage: npx ts-node scripts/fetch-infracost-pricing.ts [options]
+ * 
+ * Options:
+ *   --regions us-east-1,eu-west-1   Regions to update (or PRICING_REGIONS; default: all)
+ *   --services ec2,rds              Services to update (or PRICING_SERVICES; default: all)
+ *   --cache <file>                  Raw response cache (default: data/infracost-pricing-raw.json)
+ *   --cache-max-age <hours>         Re-query cached responses older than this (default: 24)
+ *   --refresh                       Ignore the cache and re-query everything
+ *   --offline                       Answer queries from the cache only, without an API key
+ *   --retries <n>                   Retries per failed query, with exponential backoff (default: 3)
+ *   --keep-snapshots <n>            Dated snapshots to keep in data/pricing, deleting older ones (default: 12)
+ * 
+ * Regions and services that are not updated keep their prices from the latest
+ * snapshot. Raw responses are cached as they arrive, so an interrupted update
+ * resumes where it stopped when re-run, and a service whose queries fail keeps
+ * its previous prices.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as https from 'https';
 import { execSync } from 'child_process';
+import {
+  AttributeResult,
+  GraphQLResponse,
+  PricingApiClient,
+  RawResponseCache,
+  ServiceQueryStats,
+  createHttpsTransport,
+  createRecordedTransport,
+  withRetry,
+} from './pricing-api';
+import { PricingSnapshots } from '../src/pricing-snapshots';
 
 // Get API key from Infracost CLI config or environment
 function getApiKey(): string {
@@ -31,25 +57,40 @@ function getApiKey(): string {
   throw new Error('No API key found. Run: infracost configure set api_key YOUR_KEY');
 }
 
-const INFRACOST_API_KEY = getApiKey();
-const REGIONS = ['us-east-1', 'ca-central-1'];
-
-interface PriceResult {
-  USD: string;
-  unit?: string;
-  description?: string;
-  startUsageAmount?: string;
-  endUsageAmount?: string;
-}
+// Commercial AWS regions (excludes GovCloud and China, which have separate pricing)
+const ALL_REGIONS = [
+  'us-east-1', 'us-east-2', 'us-west-1', 'us-west-2',
+  'ca-central-1', 'ca-west-1', 'mx-central-1', 'sa-east-1',
+  'eu-central-1', 'eu-central-2', 'eu-west-1', 'eu-west-2', 'eu-west-3',
+  'eu-south-1', 'eu-south-2', 'eu-north-1',
+  'af-south-1', 'il-central-1', 'me-south-1', 'me-central-1',
+  'ap-east-1', 'ap-east-2', 'ap-south-1', 'ap-south-2',
+  'ap-northeast-1', 'ap-northeast-2', 'ap-northeast-3',
+  'ap-southeast-1', 'ap-southeast-2', 'ap-southeast-3', 'ap-southeast-4',
+  'ap-southeast-5', 'ap-southeast-7',
+];
 
-interface AttributeResult {
-  key: string;
-  value: string;
+// Get the value following a command-line flag
+function getArgument(flag: string): string | undefined {
+  const flagIndex = process.argv.indexOf(flag);
+  return flagIndex >= 0 ? process.argv[flagIndex + 1] : undefined;
 }
 
-interface ProductResult {
-  attributes?: AttributeResult[];
-  prices: PriceResult[];
+// Get a comma-separated list from a flag or environment variable, defaulting to all
+function getListArgument(flag: string, envVar: string, all: string[], description: string): string[] {
+  const value = getArgument(flag) ?? process.env[envVar];
+  
+  if (!value || value === 'all') {
+    return all;
+  }
+  
+  const items = value.split(',').map(r => r.trim()).filter(Boolean);
+  const unknown = items.filter(r => !all.includes(r));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ${description}: ${unknown.join(', ')}. Expected ${description} such as ${all.slice(0, 3).join(', ')}`);
+  }
+  
+  return items;
 }
 
 // Helper to convert attributes array to object
@@ -61,46 +102,11 @@ function attributesToObject(attrs: AttributeResult[] | undefined): Record<string
   return obj;
 }
 
-interface GraphQLResponse {
-  data?: {
-    products: ProductResult[];
-  };
-  errors?: Array<{ message: string }>;
-}
+// Queries go through the client so they are cached, retried and counted per service
+let client: PricingApiClient;
 
-async function queryPricingAPI(query: string): Promise<GraphQLResponse> {
-  return new Promise((resolve, reject) => {
-    const body = JSON.stringify({ query });
-    
-    const options = {
-      hostname: 'pricing.api.infracost.io',
-      path: '/graphql',
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Api-Key': INFRACOST_API_KEY,
-        'User-Agent': 'cfn-cost-estimate/1.0',
-        'Accept': '*/*',
-        'Content-Length': Buffer.byteLength(body),
-      },
-    };
-    
-    const req = https.request(options, (res) => {
-      let data = '';
-      res.on('data', (chunk) => { data += chunk; });
-      res.on('end', () => {
-        try {
-          resolve(JSON.parse(data));
-        } catch (e) {
-          reject(new Error(`Failed to parse: ${data.substring(0, 200)}`));
-        }
-      });
-    });
-    
-    req.on('error', reject);
-    req.write(body);
-    req.end();
-  });
+function queryPricingAPI(query: string): Promise<GraphQLResponse> {
+  return client.query(query);
 }
 
 // Helper to build attribute filters string
@@ -305,6 +311,8 @@ async function fetchEBSVolumes(region: string): Promise<{
   return { volumes, iops, throughput };
 }
 
+const RDS_ENGINES = ['MySQL', 'PostgreSQL', 'MariaDB', 'Aurora MySQL', 'Aurora PostgreSQL'];
+
 // Fetch RDS instance pricing
 async function fetchRDSInstances(region: string): Promise<{
   instances: Record<string, Record<string, number>>;
@@ -316,7 +324,7 @@ async function fetchRDSInstances(region: string): Promise<{
   const storage: Record<string, number> = {};
   let rdsIops = 0;
   
-  const engines = ['MySQL', 'PostgreSQL', 'MariaDB', 'Aurora MySQL', 'Aurora PostgreSQL'];
+  const engines = RDS_ENGINES;
   const instanceTypes = [
     'db.t3.micro', 'db.t3.small', 'db.t3.medium', 'db.t3.large', 'db.t3.xlarge', 'db.t3.2xlarge',
     'db.t4g.micro', 'db.t4g.small', 'db.t4g.medium', 'db.t4g.large', 'db.t4g.xlarge', 'db.t4g.2xlarge',
@@ -464,11 +472,29 @@ async function fetchElastiCache(region: string): Promise<Record<string, number>>
 }
 
 // Fetch Lambda pricing
-async function fetchLambda(region: string): Promise<{ requests: number; duration: number; durationArm?: number }> {
+async function fetchLambda(region: string): Promise<{
+  requests: number;
+  duration: number;
+  durationArm?: number;
+  provisionedConcurrency: number;
+  provisionedConcurrencyArm?: number;
+  provisionedDuration: number;
+  provisionedDurationArm?: number;
+  ephemeralStorage: number;
+  snapStartCache: number;
+  snapStartRestore: number;
+}> {
   console.log('  Fetching Lambda...');
   let requests = 0;
   let duration = 0;
   let durationArm: number | undefined;
+  let provisionedConcurrency = 0.0000041667;
+  let provisionedConcurrencyArm: number | undefined;
+  let provisionedDuration = 0.0000097222;
+  let provisionedDurationArm: number | undefined;
+  let ephemeralStorage = 0.0000000309;
+  let snapStartCache = 0.0000015046;
+  let snapStartRestore = 0.0001397998;
   
   const query = `{
     products(filter: {
@@ -492,7 +518,28 @@ async function fetchLambda(region: string): Promise<{ requests: number; duration
       
       const price = product.prices?.[0];
       if (price?.USD) {
-        if (group.includes('Request') || usagetype.includes('Request')) {
+        if (usagetype.includes('Provisioned-Concurrency')) {
+          if (usagetype.includes('ARM')) {
+            provisionedConcurrencyArm = parseFloat(price.USD);
+          } else {
+            provisionedConcurrency = parseFloat(price.USD);
+          }
+        } else if (usagetype.includes('Provisioned')) {
+          // Duration of invocations that run on provisioned concurrency
+          if (usagetype.includes('ARM')) {
+            provisionedDurationArm = parseFloat(price.USD);
+          } else {
+            provisionedDuration = parseFloat(price.USD);
+          }
+        } else if (usagetype.includes('SnapStart')) {
+          if (usagetype.includes('Restore')) {
+            snapStartRestore = parseFloat(price.USD);
+          } else {
+            snapStartCache = parseFloat(price.USD);
+          }
+        } else if (usagetype.includes('Storage')) {
+          ephemeralStorage = parseFloat(price.USD);
+        } else if (group.includes('Request') || usagetype.includes('Request')) {
           requests = parseFloat(price.USD) * 1000000;
         } else if (group.includes('Duration') || usagetype.includes('Lambda-GB-Second')) {
           // Check for ARM
@@ -513,7 +560,7 @@ async function fetchLambda(region: string): Promise<{ requests: number; duration
   }
   
   console.log(`    ✓ Lambda pricing`);
-  return { requests, duration, durationArm };
+  return { requests, duration, durationArm, provisionedConcurrency, provisionedConcurrencyArm, provisionedDuration, provisionedDurationArm, ephemeralStorage, snapStartCache, snapStartRestore };
 }
 
 // Fetch NAT Gateway pricing
@@ -676,11 +723,20 @@ async function fetchEKS(region: string): Promise<{ clusterHourly: number }> {
   return { clusterHourly };
 }
 
+interface FargatePricing {
+  vcpuHourly: number;
+  memoryGBHourly: number;
+  armVcpuHourly?: number;
+  armMemoryGBHourly?: number;
+  ephemeralStorageGBHourly?: number;
+  spotVcpuHourly?: number;
+  spotMemoryGBHourly?: number;
+}
+
 // Fetch Fargate pricing
-async function fetchFargate(region: string): Promise<{ vcpuHourly: number; memoryGBHourly: number }> {
+async function fetchFargate(region: string): Promise<FargatePricing> {
   console.log('  Fetching Fargate...');
-  let vcpuHourly = 0;
-  let memoryGBHourly = 0;
+  const fargate: FargatePricing = { vcpuHourly: 0, memoryGBHourly: 0 };
   
   const query = `{
     products(filter: {
@@ -700,12 +756,28 @@ async function fetchFargate(region: string): Promise<{ vcpuHourly: number; memor
       const attrs = attributesToObject(product.attributes);
       const usagetype = attrs.usagetype || '';
       const price = product.prices?.[0];
-      if (price?.USD) {
-        if (usagetype.includes('vCPU') || usagetype.includes('Fargate-vCPU')) {
-          vcpuHourly = parseFloat(price.USD);
-        } else if (usagetype.includes('GB') || usagetype.includes('Fargate-GB')) {
-          memoryGBHourly = parseFloat(price.USD);
-        }
+      if (!price?.USD || usagetype.includes('Windows')) {
+        continue;
+      }
+      
+      // Usage types look like USE1-Fargate-vCPU-Hours:perCPU, USE1-Fargate-ARM-GB-Hours,
+      // USE1-Fargate-EphemeralStorage-GB-Hours and USE1-SpotUsage-Fargate-vCPU-Hours:perCPU
+      const usage = usagetype.replace(/^[A-Z0-9]+-/, '');
+      const value = parseFloat(price.USD);
+      if (/^Fargate-vCPU-Hours/.test(usage)) {
+        fargate.vcpuHourly = value;
+      } else if (/^Fargate-GB-Hours/.test(usage)) {
+        fargate.memoryGBHourly = value;
+      } else if (/^Fargate-ARM-vCPU-Hours/.test(usage)) {
+        fargate.armVcpuHourly = value;
+      } else if (/^Fargate-ARM-GB-Hours/.test(usage)) {
+        fargate.armMemoryGBHourly = value;
+      } else if (/^Fargate-EphemeralStorage-GB-Hours/.test(usage)) {
+        fargate.ephemeralStorageGBHourly = value;
+      } else if (/^SpotUsage-Fargate-vCPU-Hours/.test(usage)) {
+        fargate.spotVcpuHourly = value;
+      } else if (/^SpotUsage-Fargate-GB-Hours/.test(usage)) {
+        fargate.spotMemoryGBHourly = value;
       }
     }
   } catch (e) {
@@ -713,7 +785,7 @@ async function fetchFargate(region: string): Promise<{ vcpuHourly: number; memor
   }
   
   console.log(`    ✓ Fargate pricing`);
-  return { vcpuHourly, memoryGBHourly };
+  return fargate;
 }
 
 // Fetch other service pricing
@@ -1340,6 +1412,36 @@ async function fetchGlue(region: string): Promise<{ dpuHour: number }> {
   return { dpuHour };
 }
 
+// Fetch Athena pricing
+async function fetchAthena(region: string): Promise<{ dataScanned: number }> {
+  console.log('  Fetching Athena...');
+  let dataScanned = 5.00; // Default, per TB scanned
+  
+  const query = `{
+    products(filter: {
+      vendorName: "aws",
+      service: "AmazonAthena",
+      region: "${region}",
+      attributeFilters: [{key: "usagetype", valueRegex: "/DataScannedInTB/"}]
+    }) {
+      prices(filter: {purchaseOption: "on_demand"}) { USD unit }
+    }
+  }`;
+  
+  try {
+    const response = await queryPricingAPI(query);
+    const price = response.data?.products?.[0]?.prices?.[0];
+    if (price?.USD && parseFloat(price.USD) > 0) {
+      dataScanned = parseFloat(price.USD);
+    }
+  } catch (e) {
+    // Use default
+  }
+  
+  console.log('    ✓ Athena pricing');
+  return { dataScanned };
+}
+
 // Fetch DMS pricing
 async function fetchDMS(region: string): Promise<{ instances: Record<string, number> }> {
   console.log('  Fetching DMS...');
@@ -1382,6 +1484,241 @@ async function fetchDMS(region: string): Promise<{ instances: Record<string, num
   return { instances };
 }
 
+// Reserved Instance terms fetched, keyed by the pricing model they are used for
+const RESERVED_TERMS = [
+  { model: 'reserved-1yr-no-upfront', termLength: '1yr', termPurchaseOption: 'No Upfront', years: 1 },
+  { model: 'reserved-3yr-all-upfront', termLength: '3yr', termPurchaseOption: 'All Upfront', years: 3 },
+];
+
+// Effective hourly term prices for one pricing model
+interface CommitmentPricing {
+  ec2?: Record<string, number>;
+  rds?: Record<string, Record<string, number>>;
+  aurora?: Record<string, number>;
+  elasticache?: Record<string, number>;
+  opensearch?: Record<string, number>;
+  redshift?: Record<string, number>;
+  fargate?: { vcpuHourly?: number; memoryGBHourly?: number; armVcpuHourly?: number; armMemoryGBHourly?: number };
+  lambda?: { duration?: number; durationArm?: number };
+}
+
+// Fetch the effective hourly Reserved Instance rate of a product for each
+// term, amortizing upfront fees over the term's hours
+async function fetchReservedRates(
+  service: string,
+  productFamily: string,
+  region: string,
+  attributeFilters: Record<string, string>
+): Promise<Record<string, number>> {
+  const rates: Record<string, number> = {};
+  
+  const query = `{
+    products(filter: {
+      vendorName: "aws",
+      service: "${service}",
+      productFamily: "${productFamily}",
+      region: "${region}",
+      attributeFilters: ${buildAttributeFilters(attributeFilters)}
+    }) {
+      prices(filter: {purchaseOption: "reserved", termOfferingClass: "standard"}) { USD unit termLength termPurchaseOption }
+    }
+  }`;
+  
+  try {
+    const response = await queryPricingAPI(query);
+    const prices = response.data?.products?.[0]?.prices || [];
+    
+    for (const term of RESERVED_TERMS) {
+      const termPrices = prices.filter(p => p.termLength === term.termLength && p.termPurchaseOption === term.termPurchaseOption);
+      if (termPrices.length === 0) {
+        continue;
+      }
+      
+      const hourly = termPrices.filter(p => p.unit === 'Hrs').reduce((sum, p) => sum + parseFloat(p.USD), 0);
+      const upfront = termPrices.filter(p => p.unit === 'Quantity').reduce((sum, p) => sum + parseFloat(p.USD), 0);
+      rates[term.model] = hourly + upfront / (term.years * 365 * 24);
+    }
+  } catch (e) {
+    // Skip
+  }
+  
+  await new Promise(r => setTimeout(r, 20));
+  return rates;
+}
+
+// Fetch Reserved Instance prices for the instance types priced On-Demand
+async function fetchReservedPricing(region: string, onDemand: {
+  ec2: Record<string, number>;
+  rds: Record<string, Record<string, number>>;
+  elasticache: Record<string, number>;
+  opensearch: Record<string, number>;
+  redshift: Record<string, number>;
+}): Promise<Record<string, CommitmentPricing>> {
+  console.log('  Fetching Reserved Instance prices...');
+  const commitments: Record<string, CommitmentPricing> = {};
+  for (const term of RESERVED_TERMS) {
+    commitments[term.model] = { ec2: {}, rds: {}, elasticache: {}, opensearch: {}, redshift: {} };
+  }
+  
+  const collect = (rates: Record<string, number>, assign: (pricing: CommitmentPricing, rate: number) => void) => {
+    for (const [model, rate] of Object.entries(rates)) {
+      assign(commitments[model], rate);
+    }
+  };
+  
+  for (const instanceType of Object.keys(onDemand.ec2)) {
+    const rates = await fetchReservedRates('AmazonEC2', 'Compute Instance', region, {
+      instanceType,
+      operatingSystem: 'Linux',
+      tenancy: 'Shared',
+      capacitystatus: 'Used',
+      preInstalledSw: 'NA',
+    });
+    collect(rates, (pricing, rate) => { pricing.ec2![instanceType] = rate; });
+  }
+  
+  for (const engine of RDS_ENGINES) {
+    const engineKey = engine.toLowerCase().replace(/\s+/g, '-');
+    for (const instanceType of Object.keys(onDemand.rds[engineKey] || {})) {
+      const rates = await fetchReservedRates('AmazonRDS', 'Database Instance', region, {
+        instanceType,
+        databaseEngine: engine,
+        deploymentOption: 'Single-AZ',
+      });
+      collect(rates, (pricing, rate) => {
+        pricing.rds![engineKey] = pricing.rds![engineKey] || {};
+        pricing.rds![engineKey][instanceType] = rate;
+      });
+    }
+  }
+  
+  for (const nodeType of Object.keys(onDemand.elasticache)) {
+    const rates = await fetchReservedRates('AmazonElastiCache', 'Cache Instance', region, { instanceType: nodeType });
+    collect(rates, (pricing, rate) => { pricing.elasticache![nodeType] = rate; });
+  }
+  
+  for (const instanceType of Object.keys(onDemand.opensearch)) {
+    const rates = await fetchReservedRates('AmazonES', 'Amazon OpenSearch Service Instance', region, { instanceType });
+    collect(rates, (pricing, rate) => { pricing.opensearch![instanceType] = rate; });
+  }
+  
+  for (const nodeType of Object.keys(onDemand.redshift)) {
+    const rates = await fetchReservedRates('AmazonRedshift', 'Compute Instance', region, { instanceType: nodeType });
+    collect(rates, (pricing, rate) => { pricing.redshift![nodeType] = rate; });
+  }
+  
+  for (const [model, pricing] of Object.entries(commitments)) {
+    console.log(`    ✓ ${model}: ${Object.keys(pricing.ec2!).length} EC2, ` +
+      `${Object.values(pricing.rds!).reduce((s, e) => s + Object.keys(e).length, 0)} RDS instance types`);
+  }
+  return commitments;
+}
+
+// The parts of the AWS Savings Plans price list files that are read
+interface SavingsPlanRegionIndex {
+  regions?: Array<{ regionCode: string; versionUrl: string }>;
+}
+
+interface SavingsPlanPriceList {
+  products?: Array<{
+    sku: string;
+    attributes?: { purchaseTerm?: string; purchaseOption?: string };
+  }>;
+  terms?: {
+    savingsPlan?: Array<{
+      sku: string;
+      rates?: Array<{
+        discountedUsageType?: string;
+        discountedOperation?: string;
+        discountedServiceCode?: string;
+        discountedRate?: { price?: string };
+      }>;
+    }>;
+  };
+}
+
+// Download and parse a JSON document, retrying failures
+async function fetchJson<T>(url: string): Promise<T> {
+  return withRetry(() => new Promise<T>((resolve, reject) => {
+    https.get(url, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        reject(new Error(`GET ${url} failed with status ${res.statusCode}`));
+        return;
+      }
+      
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk) => { chunks.push(chunk); });
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch (e) {
+          reject(new Error(`Failed to parse ${url}`));
+        }
+      });
+    }).on('error', reject);
+  }));
+}
+
+// Fetch 1 year No Upfront Compute Savings Plans rates for EC2, Fargate and
+// Lambda from the AWS public Savings Plans price list (the Infracost API does
+// not carry Savings Plans)
+async function fetchComputeSavingsPlan(region: string): Promise<CommitmentPricing> {
+  console.log('  Fetching Compute Savings Plans rates...');
+  const pricing: CommitmentPricing = { ec2: {}, fargate: {}, lambda: {} };
+  const host = 'https://pricing.us-east-1.amazonaws.com';
+  
+  try {
+    const index = await fetchJson<SavingsPlanRegionIndex>(`${host}/savingsPlan/v1.0/aws/AWSComputeSavingsPlan/current/region_index.json`);
+    const entry = (index.regions || []).find(r => r.regionCode === region);
+    if (!entry) {
+      console.log(`    ✗ No Compute Savings Plans price list for ${region}`);
+      return pricing;
+    }
+    
+    const priceList = await fetchJson<SavingsPlanPriceList>(`${host}${entry.versionUrl}`);
+    const planSkus = new Set(
+      (priceList.products || [])
+        .filter(p => p.attributes?.purchaseTerm === '1yr' && p.attributes?.purchaseOption === 'No Upfront')
+        .map(p => p.sku)
+    );
+    
+    for (const term of priceList.terms?.savingsPlan || []) {
+      if (!planSkus.has(term.sku)) {
+        continue;
+      }
+      
+      for (const rate of term.rates || []) {
+        const usage = String(rate.discountedUsageType || '').replace(/^[A-Z0-9]+-/, '');
+        const value = parseFloat(rate.discountedRate?.price ?? '');
+        if (Number.isNaN(value)) {
+          continue;
+        }
+        
+        const boxUsage = usage.match(/^BoxUsage:(.+)$/);
+        if (rate.discountedServiceCode === 'AmazonEC2' && boxUsage && rate.discountedOperation === 'RunInstances') {
+          pricing.ec2![boxUsage[1]] = value;
+        } else if (rate.discountedServiceCode === 'AmazonECS') {
+          if (/^Fargate-vCPU-Hours/.test(usage)) pricing.fargate!.vcpuHourly = value;
+          else if (/^Fargate-GB-Hours/.test(usage)) pricing.fargate!.memoryGBHourly = value;
+          else if (/^Fargate-ARM-vCPU-Hours/.test(usage)) pricing.fargate!.armVcpuHourly = value;
+          else if (/^Fargate-ARM-GB-Hours/.test(usage)) pricing.fargate!.armMemoryGBHourly = value;
+        } else if (rate.discountedServiceCode === 'AWSLambda') {
+          if (usage === 'Lambda-GB-Second') pricing.lambda!.duration = value;
+          else if (usage === 'Lambda-GB-Second-ARM') pricing.lambda!.durationArm = value;
+        }
+      }
+    }
+  } catch (e) {
+    // Fail the service so the previous Savings Plans rates are kept
+    console.log(`    ✗ Compute Savings Plans: ${e instanceof Error ? e.message : e}`);
+    throw e;
+  }
+  
+  console.log(`    ✓ Compute Savings Plans: ${Object.keys(pricing.ec2!).length} EC2 instance types`);
+  return pricing;
+}
+
 // Main pricing data structure
 interface AWSpricingData {
   region: string;
@@ -1389,190 +1726,345 @@ interface AWSpricingData {
   [key: string]: any; // Allow any structure for generation script flexibility
 }
 
-async function fetchAllPricingForRegion(region: string): Promise<AWSpricingData> {
-  console.log(`\n${'='.repeat(60)}`);
-  console.log(`Fetching pricing for: ${region}`);
-  console.log('='.repeat(60));
-  
-  const ec2 = await fetchEC2Instances(region);
-  const ebs = await fetchEBSVolumes(region);
-  const rds = await fetchRDSInstances(region);
-  const elasticache = await fetchElastiCache(region);
-  const lambda = await fetchLambda(region);
-  const natGateway = await fetchNATGateway(region);
-  const loadBalancer = await fetchLoadBalancers(region);
-  const eks = await fetchEKS(region);
-  const fargate = await fetchFargate(region);
-  const opensearch = await fetchOpenSearch(region);
-  const documentdb = await fetchDocumentDB(region);
-  const neptune = await fetchNeptune(region);
-  const redshift = await fetchRedshift(region);
-  const fetchedKinesis = await fetchKinesis(region);
-  const msk = await fetchMSK(region);
-  const mq = await fetchMQ(region);
-  const fetchedCloudwatch = await fetchCloudWatch(region);
-  const fetchedWaf = await fetchWAF(region);
-  const fetchedGlue = await fetchGlue(region);
-  const dms = await fetchDMS(region);
-  const other = await fetchOtherServices(region);
-  
-  // Flatten other services to top-level
-  const dynamodb = other.dynamodb as any;
-  const s3 = other.s3 as any;
-  const apiGateway = other.apiGateway as any;
-  const sqs = other.sqs as any;
-  const sns = other.sns as any;
-  const cloudwatch = other.cloudwatch as any;
-  const secretsManager = other.secretsManager as any;
-  const kms = other.kms as any;
-  const stepFunctions = other.stepFunctions as any;
-  const route53 = other.route53 as any;
-  const vpcEndpoint = other.vpcEndpoint as any;
-  const eventbridge = other.eventBridge as any;
-  const kinesis = other.kinesis as any;
-  const efs = other.efs as any;
-  const ecr = other.ecr as any;
-  const waf = other.waf as any;
-  const glue = other.glue as any;
-  const athena = other.athena as any;
-  
-  // Extract Aurora from RDS
+/**
+ * A unit of the update: fetches the pricing data sections it owns for a
+ * region. `current` holds the region's data so far, for services whose
+ * queries depend on another service's prices
+ */
+interface ServiceFetcher {
+  name: string;
+  fetch: (region: string, current: AWSpricingData) => Promise<Partial<AWSpricingData>>;
+}
+
+// Services in update order; reserved pricing queries the instance types
+// priced by ec2, rds, elasticache, opensearch and redshift
+const SERVICES: ServiceFetcher[] = [
+  { name: 'ec2', fetch: async region => ({ ec2: { instances: await fetchEC2Instances(region), hosts: {} } }) },
+  { name: 'ebs', fetch: async region => ({ ebs: { ...(await fetchEBSVolumes(region)), snapshots: 0.05 } }) },
+  { name: 'rds', fetch: async region => splitAurora(await fetchRDSInstances(region)) },
+  { name: 'elasticache', fetch: async region => ({ elasticache: { nodes: await fetchElastiCache(region) } }) },
+  { name: 'lambda', fetch: async region => ({ lambda: await fetchLambda(region) }) },
+  { name: 'natGateway', fetch: async region => ({ natGateway: await fetchNATGateway(region) }) },
+  { name: 'loadBalancer', fetch: async region => ({ loadBalancer: await fetchLoadBalancers(region) }) },
+  { name: 'eks', fetch: async region => ({ eks: await fetchEKS(region) }) },
+  {
+    name: 'fargate',
+    fetch: async region => {
+      const fargate = await fetchFargate(region);
+      return { fargate, ecs: { fargateVcpuHourly: fargate.vcpuHourly, fargateMemoryGBHourly: fargate.memoryGBHourly } };
+    },
+  },
+  {
+    name: 'opensearch',
+    fetch: async region => ({ opensearch: { instances: await fetchOpenSearch(region), storage: 0.135, ultrawarmStorage: 0.024 } }),
+  },
+  { name: 'documentdb', fetch: async region => ({ documentdb: await fetchDocumentDB(region) }) },
+  { name: 'neptune', fetch: async region => ({ neptune: await fetchNeptune(region) }) },
+  { name: 'redshift', fetch: async region => ({ redshift: await fetchRedshift(region) }) },
+  { name: 'msk', fetch: async region => ({ msk: await fetchMSK(region) }) },
+  { name: 'mq', fetch: async region => ({ mq: await fetchMQ(region) }) },
+  { name: 'dms', fetch: async region => ({ dms: await fetchDMS(region) }) },
+  { name: 'other', fetch: fetchOtherSections },
+  {
+    name: 'reserved',
+    fetch: async (region, current) => {
+      const aurora = current.aurora?.instances || {};
+      const reserved = await fetchReservedPricing(region, {
+        ec2: current.ec2?.instances || {},
+        rds: { ...current.rds?.instances, 'aurora-mysql': aurora, 'aurora-postgresql': aurora },
+        elasticache: current.elasticache?.nodes || {},
+        opensearch: current.opensearch?.instances || {},
+        redshift: current.redshift?.instances || {},
+      });
+      
+      // Reserved Aurora instances are priced in the aurora section too
+      for (const pricing of Object.values(reserved)) {
+        pricing.aurora = { ...pricing.rds!['aurora-mysql'], ...pricing.rds!['aurora-postgresql'] };
+        delete pricing.rds!['aurora-mysql'];
+        delete pricing.rds!['aurora-postgresql'];
+      }
+      return { commitments: reserved };
+    },
+  },
+  {
+    name: 'savings-plans',
+    fetch: async region => ({ commitments: { 'compute-savings-plan': await fetchComputeSavingsPlan(region) } }),
+  },
+];
+
+// Sections with list prices that are not fetched from the API
+const STATIC_SECTIONS: Partial<AWSpricingData> = {
+  vpnConnection: { hourly: 0.05, transitGatewayAttachment: 0.05, clientVpn: { endpointHourly: 0.05, connectionHourly: 0.05 } },
+  transitGateway: { hourly: 0.05, dataProcessed: 0.02, peering: 0.05 },
+  trafficMirror: { sessionHourly: 0.15 },
+  directConnect: { portHours: {}, dataTransfer: 0.02 },
+  globalAccelerator: { hourly: 0.025, dataTransfer: 0.015 },
+  fsx: { lustre: 0.14, windows: 0.23, ontap: 0.25, openzfs: 0.09 },
+  backup: { storage: 0.05, restoreStorage: 0.02 },
+  elasticsearch: { instances: {} },
+  kinesisFirehose: { dataIngested: 0.029, formatConversion: 0.018 },
+  directoryService: { simpleAD: { small: 0.05, large: 0.15 }, microsoftAD: { standard: 0.12, enterprise: 0.40 } },
+  mwaa: { environment: { 'mw1.small': 0.49, 'mw1.medium': 0.99, 'mw1.large': 1.99 } },
+  kinesisAnalytics: { kpuHourly: 0.11, storage: 0.10 },
+  ssm: { parameter: { standard: 0, advanced: 0.05, apiCalls: 0.05 }, activation: { standard: 0, advanced: 0.00695 } },
+  acm: { privateCertificate: 0.75 },
+  guardDuty: { events: 4.00, s3Events: 0.80, eksEvents: 1.60 },
+  macie: { bucketEvaluated: 0.10, dataScanned: 1.00 },
+  cloudtrail: { managementEvents: 2.00, dataEvents: 0.10, insightsEvents: 0.35 },
+  config: { configItems: 0.003, rules: 1.00, conformancePackRules: 0.001 },
+  codebuild: { linuxSmall: 0.005, linuxMedium: 0.01, linuxLarge: 0.02, linux2xlarge: 0.04, armLarge: 0.015, gpuLarge: 0.18, windowsMedium: 0.02, windowsLarge: 0.04 },
+  codepipeline: { activePipeline: 1.00, trialPipelines: 0 },
+  cloudfront: { dataTransfer: {}, requests: { http: 0.0075, https: 0.01 }, invalidations: 0.005, ssl: 600.00, originShield: 0.0090, realtimeLogs: 0.01, functions: 0.10 },
+  sagemaker: { notebookInstances: {}, trainingInstances: {}, endpointInstances: {} },
+  transferFamily: { protocols: 0.30, dataProcessed: 0.04 },
+  iot: { connectivityMinutes: 0.08, messages: 1.00, ruleEngineActions: 0.15 },
+  lightsail: { instances: {} },
+  beanstalk: {},
+};
+
+// Move the Aurora engines out of the RDS prices into their own section
+function splitAurora(rds: Awaited<ReturnType<typeof fetchRDSInstances>>): Partial<AWSpricingData> {
   const auroraInstances: Record<string, number> = {};
-  if (rds.instances['aurora-mysql']) {
-    Object.assign(auroraInstances, rds.instances['aurora-mysql']);
-    delete rds.instances['aurora-mysql'];
-  }
-  if (rds.instances['aurora-postgresql']) {
-    Object.assign(auroraInstances, rds.instances['aurora-postgresql']);
-    delete rds.instances['aurora-postgresql'];
+  for (const engine of ['aurora-mysql', 'aurora-postgresql']) {
+    if (rds.instances[engine]) {
+      Object.assign(auroraInstances, rds.instances[engine]);
+      delete rds.instances[engine];
+    }
   }
   
-  const aurora = {
-    instances: auroraInstances,
-    storage: 0.10, // Default
-    ioRequests: 0.20,
-    backtrackChanges: 0.012
+  return {
+    rds,
+    aurora: {
+      instances: auroraInstances,
+      storage: 0.10, // Default
+      ioOptimizedStorage: 0.225,
+      ioRequests: 0.20,
+      backtrackChanges: 0.012,
+      serverlessV2Acu: 0.12,
+      ioOptimizedServerlessV2Acu: 0.156,
+      serverlessAcu: 0.06,
+      replicatedWriteIOs: 0.20,
+    },
   };
+}
 
-  // Filter out promoted services from other
+// Fetch the smaller services and promote them to top-level sections
+async function fetchOtherSections(region: string): Promise<Partial<AWSpricingData>> {
+  const other = await fetchOtherServices(region);
+  const kinesis = await fetchKinesis(region);
+  const cloudwatch = await fetchCloudWatch(region);
+  const waf = await fetchWAF(region);
+  const glue = await fetchGlue(region);
+  const athena = await fetchAthena(region);
+  
+  const promoted = ['dynamodb', 's3', 'apiGateway', 'sqs', 'sns', 'cloudwatch', 'secretsManager', 'kms', 'stepFunctions', 'route53', 'vpcEndpoint', 'eventBridge', 'kinesis', 'efs', 'ecr', 'waf', 'glue', 'athena'];
+  const section = (name: string) => other[name] as Record<string, unknown>;
   const otherRemaining: Record<string, unknown> = { ...other };
-  ['dynamodb', 's3', 'apiGateway', 'sqs', 'sns', 'cloudwatch', 'secretsManager', 'kms', 'stepFunctions', 'route53', 'vpcEndpoint', 'eventBridge', 'kinesis', 'efs', 'ecr', 'waf', 'glue', 'athena'].forEach(k => delete otherRemaining[k]);
-
+  promoted.forEach(k => delete otherRemaining[k]);
+  
   return {
-    region,
-    lastUpdated: new Date().toISOString(),
-    ec2: { instances: ec2, hosts: {} },
-    ebs: { ...ebs, snapshots: 0.05 },
-    rds,
-    aurora,
-    elasticache: { nodes: elasticache },
-    dynamodb,
-    neptune,
-    documentdb,
-    redshift,
-    natGateway,
-    loadBalancer,
-    vpcEndpoint,
-    vpnConnection: { hourly: 0.05, transitGatewayAttachment: 0.05, clientVpn: { endpointHourly: 0.05, connectionHourly: 0.05 } },
-    transitGateway: { hourly: 0.05, dataProcessed: 0.02, peering: 0.05 },
-    trafficMirror: { sessionHourly: 0.15 },
-    directConnect: { portHours: {}, dataTransfer: 0.02 },
-    globalAccelerator: { hourly: 0.025, dataTransfer: 0.015 },
-    eks,
-    ecs: { fargateVcpuHourly: fargate.vcpuHourly, fargateMemoryGBHourly: fargate.memoryGBHourly },
-    ecr,
-    lambda,
-    apiGateway,
-    stepFunctions,
-    s3: { ...s3, requests: { put: 0.005, get: 0.0004, lifecycle: 0.01 } }, // Add requests default
-    efs: { ...efs, provisionedThroughput: 6.00 },
-    fsx: { lustre: 0.14, windows: 0.23, ontap: 0.25, openzfs: 0.09 },
-    backup: { storage: 0.05, restoreStorage: 0.02 },
-    opensearch: { instances: opensearch, storage: 0.135, ultrawarmStorage: 0.024 },
-    elasticsearch: { instances: {} },
-    kinesis: { ...kinesis, extendedRetention: 0.02, enhancedFanout: 0.015 },
-    kinesisFirehose: { dataIngested: 0.029, formatConversion: 0.018 },
-    glue: { ...glue, crawlerDpuHour: 0.44, catalogStorage: 1.00, catalogRequests: 1.00 },
-    athena,
-    sqs,
-    sns: { ...sns, deliveries: { http: 0.60, email: 2.00, sms: 0.75, lambda: 0.00, sqs: 0.00 } },
-    eventbridge: { ...eventbridge, partnerEvents: 1.00, archiveProcessed: 0.10, schemaDiscovery: 0.10 },
-    mq,
-    msk,
-    directoryService: { simpleAD: { small: 0.05, large: 0.15 }, microsoftAD: { standard: 0.12, enterprise: 0.40 } },
-    mwaa: { environment: { 'mw1.small': 0.49, 'mw1.medium': 0.99, 'mw1.large': 1.99 } },
-    kinesisAnalytics: { kpuHourly: 0.11, storage: 0.10 },
-    ssm: { parameter: { standard: 0, advanced: 0.05, apiCalls: 0.05 }, activation: { standard: 0, advanced: 0.00695 } },
-    secretsManager,
-    kms,
-    acm: { privateCertificate: 0.75 },
-    waf,
-    guardDuty: { events: 4.00, s3Events: 0.80, eksEvents: 1.60 },
-    macie: { bucketEvaluated: 0.10, dataScanned: 1.00 },
-    cloudwatch: { ...cloudwatch, alarmAnomaly: 0.30, alarmComposite: 0.50, logsInsightsQueries: 0.005, contributorInsightsRules: 0.50, contributorInsightsEvents: 0.02 },
-    cloudtrail: { managementEvents: 2.00, dataEvents: 0.10, insightsEvents: 0.35 },
-    config: { configItems: 0.003, rules: 1.00, conformancePackRules: 0.001 },
-    codebuild: { linuxSmall: 0.005, linuxMedium: 0.01, linuxLarge: 0.02, linux2xlarge: 0.04, armLarge: 0.015, gpuLarge: 0.18, windowsMedium: 0.02, windowsLarge: 0.04 },
-    codepipeline: { activePipeline: 1.00, trialPipelines: 0 },
-    cloudfront: { dataTransfer: {}, requests: { http: 0.0075, https: 0.01 }, invalidations: 0.005, ssl: 600.00, originShield: 0.0090, realtimeLogs: 0.01, functions: 0.10 },
-    route53: { ...route53, healthChecks: { basic: 0.50, https: 0.75, string: 1.00, fast: 1.00 }, resolverEndpoint: 0.125, resolverQueries: 0.40 },
-    sagemaker: { notebookInstances: {}, trainingInstances: {}, endpointInstances: {} },
-    transferFamily: { protocols: 0.30, dataProcessed: 0.04 },
-    dms,
-    iot: { connectivityMinutes: 0.08, messages: 1.00, ruleEngineActions: 0.15 },
-    lightsail: { instances: {} },
-    beanstalk: {},
-    fargate,
+    dynamodb: section('dynamodb'),
+    vpcEndpoint: section('vpcEndpoint'),
+    ecr: section('ecr'),
+    apiGateway: section('apiGateway'),
+    stepFunctions: section('stepFunctions'),
+    s3: { ...section('s3'), requests: { put: 0.005, get: 0.0004, lifecycle: 0.01 } }, // Add requests default
+    efs: { ...section('efs'), provisionedThroughput: 6.00 },
+    kinesis: { ...section('kinesis'), ...kinesis, extendedRetention: 0.02, enhancedFanout: 0.015 },
+    glue: { ...section('glue'), ...glue, crawlerDpuHour: 0.44, catalogStorage: 1.00, catalogRequests: 1.00 },
+    athena: { ...section('athena'), ...athena },
+    sqs: section('sqs'),
+    sns: { ...section('sns'), deliveries: { http: 0.60, email: 2.00, sms: 0.75, lambda: 0.00, sqs: 0.00 } },
+    eventbridge: { ...section('eventBridge'), partnerEvents: 1.00, archiveProcessed: 0.10, schemaDiscovery: 0.10 },
+    secretsManager: section('secretsManager'),
+    kms: section('kms'),
+    waf: { ...section('waf'), ...waf },
+    cloudwatch: { ...section('cloudwatch'), ...cloudwatch, alarmAnomaly: 0.30, alarmComposite: 0.50, logsInsightsQueries: 0.005, contributorInsightsRules: 0.50, contributorInsightsEvents: 0.02 },
+    route53: { ...section('route53'), healthChecks: { basic: 0.50, https: 0.75, string: 1.00, fast: 1.00 }, resolverEndpoint: 0.125, resolverQueries: 0.40 },
     other: otherRemaining,
   };
 }
 
-async function main() {
-  console.log('='.repeat(60));
-  console.log('Infracost Cloud Pricing API - AWS Pricing Fetcher');
+// Merge a service's sections into a region's data. Commitment prices are
+// merged per pricing model so reserved and Savings Plans updates keep each other
+function mergeSections(target: AWSpricingData, sections: Partial<AWSpricingData>): void {
+  for (const [key, value] of Object.entries(sections)) {
+    target[key] = key === 'commitments' ? { ...target.commitments, ...value } : value;
+  }
+}
+
+// Outcome of updating one service in one region
+interface ServiceResult {
+  region: string;
+  service: string;
+  stats: ServiceQueryStats;
+  error?: string;
+}
+
+// Update the selected services of a region on top of its existing data.
+// A service with any failed query keeps its previous prices
+async function updateRegion(
+  region: string,
+  existing: AWSpricingData | undefined,
+  services: ServiceFetcher[],
+  cache: RawResponseCache
+): Promise<{ pricing: AWSpricingData; results: ServiceResult[] }> {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(`Fetching pricing for: ${region}`);
   console.log('='.repeat(60));
-  console.log(`API Key: ${INFRACOST_API_KEY.substring(0, 15)}...`);
-  console.log(`Regions: ${REGIONS.join(', ')}`);
   
-  const allPricing: Record<string, AWSpricingData> = {};
+  const pricing: AWSpricingData = existing
+    ? structuredClone(existing)
+    : { region, lastUpdated: new Date().toISOString() };
+  mergeSections(pricing, STATIC_SECTIONS);
   
-  for (const region of REGIONS) {
-    allPricing[region] = await fetchAllPricingForRegion(region);
+  const results: ServiceResult[] = [];
+  for (const service of services) {
+    client.startService(region, service.name);
+    let sections: Partial<AWSpricingData> | undefined;
+    let error: string | undefined;
+    
+    try {
+      sections = await service.fetch(region, pricing);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    
+    const stats = client.getStats();
+    if (!error && stats.failed > 0) {
+      error = `${stats.failed} of ${stats.queries} queries failed`;
+    }
+    
+    if (error) {
+      console.log(`    ✗ ${service.name}: ${error}; ${existing ? 'kept the previous prices' : 'no prices for this service'}`);
+    } else {
+      mergeSections(pricing, sections!);
+    }
+    
+    results.push({ region, service: service.name, stats, error });
+    cache.save(); // Resume from here if the update is interrupted
   }
   
-  // Save to file
-  const dataDir = path.join(__dirname, '..', 'data');
-  fs.mkdirSync(dataDir, { recursive: true });
-  
-  const outputPath = path.join(dataDir, 'aws-pricing.json');
-  fs.writeFileSync(outputPath, JSON.stringify(allPricing, null, 2));
+  // The region is only as current as its oldest prices
+  if (results.length === SERVICES.length && results.every(result => !result.error)) {
+    pricing.lastUpdated = new Date().toISOString();
+  }
   
+  return { pricing, results };
+}
+
+// Print the prices that changed in the update, and per-service query counts
+function printChangeSummary(
+  before: Record<string, AWSpricingData>,
+  after: Record<string, AWSpricingData>,
+  regions: string[],
+  results: ServiceResult[]
+): void {
   console.log('\n' + '='.repeat(60));
   console.log('SUMMARY');
   console.log('='.repeat(60));
   
-  for (const [region, pricing] of Object.entries(allPricing)) {
-    console.log(`\n${region}:`);
-    console.log(`  EC2 Instance Types:     ${Object.keys(pricing.ec2.instances).length}`);
-    console.log(`  EBS Volume Types:       ${Object.keys(pricing.ebs.volumes).length}`);
+  for (const region of regions) {
+    // The script's loose pricing type carries the same structure PricingSnapshots compares
+    const changes = PricingSnapshots.diff(before as never, after as never, region);
+    const added = changes.filter(c => c.before === undefined).length;
+    const removed = changes.filter(c => c.after === undefined).length;
+    const changed = changes.length - added - removed;
+    console.log(`\n${region}: ${changed} changed, ${added} added, ${removed} removed`);
     
-    const rdsInstances = pricing.rds.instances as Record<string, Record<string, number>>;
-    console.log(`  RDS Engines:            ${Object.keys(rdsInstances).length}`);
-    const totalRds = Object.values(rdsInstances).reduce((s: number, e: Record<string, number>) => s + Object.keys(e).length, 0);
-    console.log(`  RDS Instance Types:     ${totalRds}`);
+    const largest = changes
+      .filter(c => c.percentChange !== undefined)
+      .sort((a, b) => Math.abs(b.percentChange!) - Math.abs(a.percentChange!))
+      .slice(0, 10);
+    for (const change of largest) {
+      const percent = `${change.percentChange! >= 0 ? '+' : ''}${change.percentChange!.toFixed(1)}%`;
+      console.log(`  ~ ${change.path}: $${change.before} → $${change.after} (${percent})`);
+    }
     
-    console.log(`  ElastiCache Nodes:      ${Object.keys(pricing.elasticache.nodes).length}`);
-    console.log(`  OpenSearch Instances:   ${Object.keys(pricing.opensearch.instances).length}`);
-    console.log(`  DocumentDB Instances:   ${Object.keys(pricing.documentdb.instances).length}`);
-    console.log(`  Neptune Instances:      ${Object.keys(pricing.neptune.instances).length}`);
-    console.log(`  Redshift Node Types:    ${Object.keys(pricing.redshift.instances).length}`);
-    console.log(`  MSK Instance Types:     ${Object.keys(pricing.msk.instanceHourly).length}`);
-    console.log(`  MQ Instance Types:      ${Object.keys(pricing.mq.instanceHourly).length}`);
-    console.log(`  DMS Instance Types:     ${Object.keys(pricing.dms.instances).length}`);
+    for (const result of results.filter(r => r.region === region)) {
+      const { queries, cached, retried } = result.stats;
+      const status = result.error ? `✗ ${result.service}: ${result.error};` : `✓ ${result.service}:`;
+      console.log(`  ${status} ${queries} queries, ${cached} cached, ${retried} retries`);
+    }
+  }
+}
+
+async function main() {
+  const regions = getListArgument('--regions', 'PRICING_REGIONS', ALL_REGIONS, 'regions');
+  const serviceNames = getListArgument('--services', 'PRICING_SERVICES', SERVICES.map(s => s.name), 'services');
+  const services = SERVICES.filter(s => serviceNames.includes(s.name));
+  const offline = process.argv.includes('--offline');
+  const refresh = process.argv.includes('--refresh');
+  const retries = Number(getArgument('--retries') ?? 3);
+  const cacheMaxAgeHours = Number(getArgument('--cache-max-age') ?? 24);
+  const keepSnapshots = Number(getArgument('--keep-snapshots') ?? 12);
+  if (!Number.isInteger(keepSnapshots) || keepSnapshots < 1) {
+    throw new Error('--keep-snapshots must be a whole number of at least 1');
   }
   
+  console.log('='.repeat(60));
+  console.log('Infracost Cloud Pricing API - AWS Pricing Fetcher');
+  console.log('='.repeat(60));
+  console.log(`Regions: ${regions.join(', ')}`);
+  console.log(`Services: ${services.map(s => s.name).join(', ')}`);
+  
+  const dataDir = path.join(__dirname, '..', 'data');
+  const snapshotDir = path.join(dataDir, 'pricing');
+  const outputPath = path.join(snapshotDir, `${new Date().toISOString().slice(0, 10)}.json`);
+  const cache = RawResponseCache.load(getArgument('--cache') || path.join(dataDir, 'infracost-pricing-raw.json'));
+  
+  if (offline) {
+    // Replay the cache only; queries it has no response for fail
+    console.log('Offline: answering queries from the response cache');
+    client = new PricingApiClient(createRecordedTransport(cache), { retries: 0 });
+  } else {
+    const apiKey = getApiKey();
+    console.log(`API Key: ${apiKey.substring(0, 15)}...`);
+    client = new PricingApiClient(createHttpsTransport(apiKey), {
+      cache,
+      cacheMaxAgeHours: refresh ? 0 : cacheMaxAgeHours,
+      retries,
+    });
+  }
+  
+  // Merge into the previous snapshot, keeping regions and services not being fetched
+  const basePath = PricingSnapshots.latest(snapshotDir)?.filePath || path.join(dataDir, 'aws-pricing.json');
+  const before: Record<string, AWSpricingData> = fs.existsSync(basePath)
+    ? JSON.parse(fs.readFileSync(basePath, 'utf-8'))
+    : {};
+  const allPricing: Record<string, AWSpricingData> = { ...before };
+  const results: ServiceResult[] = [];
+  fs.mkdirSync(snapshotDir, { recursive: true });
+  
+  for (const region of regions) {
+    const update = await updateRegion(region, before[region], services, cache);
+    allPricing[region] = update.pricing;
+    results.push(...update.results);
+    
+    // Save as a dated snapshot after each region; earlier snapshots are kept for --pricing-date, up to --keep-snapshots
+    fs.writeFileSync(outputPath, JSON.stringify(allPricing, null, 2));
+  }
+  
+  printChangeSummary(before, allPricing, regions, results);
+  
+  const failed = results.filter(r => r.error);
   console.log(`\n✓ Pricing data saved to: ${outputPath}`);
-  console.log('✅ Complete!');
+  
+  // Snapshots are bundled with the package, so only the most recent are kept
+  const pruned = PricingSnapshots.prune(snapshotDir, keepSnapshots);
+  if (pruned.length > 0) {
+    console.log(`Deleted ${pruned.length} older snapshots: ${pruned.map(s => s.date).join(', ')}`);
+  }
+  if (failed.length > 0) {
+    console.log(`⚠️  ${failed.length} service updates failed and kept their previous prices. ` +
+      'Re-run with the same options to retry them; cached responses are reused.');
+    process.exitCode = 1;
+  } else {
+    console.log('✅ Complete!');
+  }
 }
 
-main().catch(console.error);
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,328 @@
+/**
+ * Infracost Cloud Pricing API query layer
+ *
+ * Sends GraphQL queries through a pluggable transport, retries failed
+ * queries with exponential backoff and caches raw responses per region and
+ * service, so an interrupted update can resume and a recorded cache can be
+ * replayed without network access.
+ */
+
+import * as fs from 'fs';
+import * as https from 'https';
+import * as crypto from 'crypto';
+
+export interface PriceResult {
+  USD: string;
+  unit?: string;
+  description?: string;
+  startUsageAmount?: string;
+  endUsageAmount?: string;
+  termLength?: string;
+  termPurchaseOption?: string;
+}
+
+export interface AttributeResult {
+  key: string;
+  value: string;
+}
+
+export interface ProductResult {
+  attributes?: AttributeResult[];
+  prices: PriceResult[];
+}
+
+export interface GraphQLResponse {
+  data?: {
+    products: ProductResult[];
+  };
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * Sends one GraphQL query and returns the parsed response
+ */
+export type PricingTransport = (query: string) => Promise<GraphQLResponse>;
+
+/**
+ * A cached response and when it was fetched
+ */
+export interface CachedResponse {
+  fetchedAt: string;
+  response: GraphQLResponse;
+}
+
+/**
+ * Structure of the raw response cache (data/infracost-pricing-raw.json):
+ * responses by region, service and query key
+ */
+export type RawResponseFile = Record<string, {
+  region: string;
+  lastUpdated: string;
+  services: Record<string, Record<string, CachedResponse>>;
+}>;
+
+/**
+ * Query counts for one service in one region
+ */
+export interface ServiceQueryStats {
+  queries: number;
+  cached: number;
+  retried: number;
+  failed: number;
+}
+
+export interface PricingApiClientOptions {
+  /** Cache to read fresh responses from and record new responses in */
+  cache?: RawResponseCache;
+  /** Ignore cached responses older than this many hours (default: always use them) */
+  cacheMaxAgeHours?: number;
+  /** Retries after the first failed attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further retry (default: 1000) */
+  baseDelayMs?: number;
+  /** Waits between retries; replaceable so fixture runs don't sleep */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Key a query by a hash of its text, ignoring whitespace differences
+ */
+export function getQueryKey(query: string): string {
+  const normalized = query.replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+/**
+ * Send queries to the Infracost Cloud Pricing API over HTTPS
+ */
+export function createHttpsTransport(apiKey: string): PricingTransport {
+  return (query: string) => new Promise((resolve, reject) => {
+    const body = JSON.stringify({ query });
+
+    const options = {
+      hostname: 'pricing.api.infracost.io',
+      path: '/graphql',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Api-Key': apiKey,
+        'User-Agent': 'cfn-cost-estimate/1.0',
+        'Accept': '*/*',
+        'Content-Length': Buffer.byteLength(body),
+      },
+    };
+
+    const req = https.request(options, (res) => {
+      let data = '';
+      res.on('data', (chunk) => { data += chunk; });
+      res.on('end', () => {
+        if (res.statusCode && res.statusCode >= 400) {
+          reject(new Error(`Pricing API returned status ${res.statusCode}: ${data.substring(0, 200)}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(data));
+        } catch (e) {
+          reject(new Error(`Failed to parse: ${data.substring(0, 200)}`));
+        }
+      });
+    });
+
+    req.on('error', reject);
+    req.write(body);
+    req.end();
+  });
+}
+
+/**
+ * Replay responses recorded in a raw response cache, failing on queries it
+ * has no recording for. Used for offline updates and for fixtures
+ */
+export function createRecordedTransport(recordings: RawResponseCache): PricingTransport {
+  return async (query: string) => {
+    const recorded = recordings.find(getQueryKey(query));
+    if (!recorded) {
+      throw new Error(`No recorded response for query ${getQueryKey(query)}`);
+    }
+    return recorded.response;
+  };
+}
+
+/**
+ * Run an operation, retrying failures with exponential backoff
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: { retries?: number; baseDelayMs?: number; sleep?: (ms: number) => Promise<void>; onRetry?: (error: unknown, attempt: number) => void } = {}
+): Promise<T> {
+  const { retries = 3, baseDelayMs = 1000, sleep = defaultSleep, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries) {
+        throw error;
+      }
+      onRetry?.(error, attempt + 1);
+      await sleep(baseDelayMs * 2 ** attempt);
+    }
+  }
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Raw API responses by region, service and query key, persisted as JSON
+ */
+export class RawResponseCache {
+  private data: RawResponseFile;
+  private filePath?: string;
+
+  constructor(data: RawResponseFile = {}, filePath?: string) {
+    this.data = data;
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load a cache file, starting empty when it doesn't exist
+   */
+  static load(filePath: string): RawResponseCache {
+    if (!fs.existsSync(filePath)) {
+      return new RawResponseCache({}, filePath);
+    }
+
+    try {
+      return new RawResponseCache(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath);
+    } catch (error) {
+      throw new Error(`Failed to read pricing response cache ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Get a cached response for a query made for a region and service
+   */
+  get(region: string, service: string, key: string): CachedResponse | undefined {
+    return this.data[region]?.services?.[service]?.[key];
+  }
+
+  /**
+   * Find a cached response for a query in any region or service
+   */
+  find(key: string): CachedResponse | undefined {
+    for (const regionData of Object.values(this.data)) {
+      for (const responses of Object.values(regionData.services || {})) {
+        if (responses[key]) {
+          return responses[key];
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Record a response for a query made for a region and service
+   */
+  set(region: string, service: string, key: string, response: GraphQLResponse): void {
+    const fetchedAt = new Date().toISOString();
+    const regionData = this.data[region] || (this.data[region] = { region, lastUpdated: fetchedAt, services: {} });
+    regionData.services = regionData.services || {};
+    regionData.lastUpdated = fetchedAt;
+    (regionData.services[service] = regionData.services[service] || {})[key] = { fetchedAt, response };
+  }
+
+  /**
+   * Write the cache back to the file it was loaded from
+   */
+  save(): void {
+    if (this.filePath) {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+    }
+  }
+}
+
+/**
+ * Queries the pricing API on behalf of one service and region at a time,
+ * answering from the cache where it can and counting what it did
+ */
+export class PricingApiClient {
+  private transport: PricingTransport;
+  private options: PricingApiClientOptions;
+  private region = '';
+  private service = '';
+  private stats: ServiceQueryStats = { queries: 0, cached: 0, retried: 0, failed: 0 };
+
+  constructor(transport: PricingTransport, options: PricingApiClientOptions = {}) {
+    this.transport = transport;
+    this.options = options;
+  }
+
+  /**
+   * Attribute the following queries to a service in a region
+   */
+  startService(region: string, service: string): void {
+    this.region = region;
+    this.service = service;
+    this.stats = { queries: 0, cached: 0, retried: 0, failed: 0 };
+  }
+
+  /**
+   * Get the query counts since startService
+   */
+  getStats(): ServiceQueryStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Run a query, from the cache when it holds a fresh enough response.
+   * Failures are retried, then counted against the service and rethrown
+   */
+  async query(query: string): Promise<GraphQLResponse> {
+    const { cache, cacheMaxAgeHours } = this.options;
+    const key = getQueryKey(query);
+    this.stats.queries++;
+
+    const cached = cache?.get(this.region, this.service, key);
+    if (cached && this.isFresh(cached, cacheMaxAgeHours)) {
+      this.stats.cached++;
+      return cached.response;
+    }
+
+    try {
+      const response = await withRetry(async () => {
+        const result = await this.transport(query);
+        if (result.errors && result.errors.length > 0) {
+          throw new Error(`Pricing API error: ${result.errors.map(e => e.message).join('; ')}`);
+        }
+        return result;
+      }, {
+        retries: this.options.retries,
+        baseDelayMs: this.options.baseDelayMs,
+        sleep: this.options.sleep,
+        onRetry: () => { this.stats.retried++; },
+      });
+
+      cache?.set(this.region, this.service, key, response);
+      return response;
+    } catch (error) {
+      this.stats.failed++;
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a cached response is within the maximum age
+   */
+  private isFresh(cached: CachedResponse, maxAgeHours: number | undefined): boolean {
+    if (maxAgeHours === undefined) {
+      return true;
+    }
+    const ageHours = (Date.now() - new Date(cached.fetchedAt).getTime()) / (1000 * 60 * 60);
+    return ageHours <= maxAgeHours;
+  }
+}
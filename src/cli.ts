@@ -5,7 +5,7 @@
  * Compare deployed vs synthesized CDK stack costs
  */
 
-import { program } from 'commander';
+import { Option, program } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
@@ -13,10 +13,36 @@ import { TemplateFetcher } from './template-fetcher';
 import { CostCalculator } from './cost-calculator';
 import { DiffCalculator } from './diff-calculator';
 import { OutputFormatter, OutputFormat } from './output-formatter';
+import { UsageProfile } from './usage-profile';
+import { ParameterOverrides, ParameterValues } from './parameter-overrides';
+import { Commitments, PricingModel, PRICING_MODELS } from './pricing-model';
+import { FreeTierTracker, FreeTierMode, FREE_TIER_MODES } from './free-tier';
+import { AWSpricingData, getRegionalPricing, getPricingProvenance, setNegotiatedRates } from './pricing-data';
+import { NegotiatedRates } from './negotiated-rates';
+import { Currency, BASE_CURRENCY } from './currency';
+import { PricingValidator } from './pricing-validator';
+import { createPricingSource, usePricingSource, PricingSource, SnapshotPricingSource, PRICING_SOURCE_ENV } from './pricing-source';
+import { PricingSnapshots } from './pricing-snapshots';
 import { CostComparison, StackCostEstimate } from './types';
 
 const DEFAULT_CDK_OUT_DIR = 'cdk.out';
 const DEFAULT_REGION = 'us-east-1';
+const DEFAULT_USAGE_FILE = 'cfn-cost-usage.yml';
+
+/**
+ * Collect repeated option values into a list
+ */
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * The --free-tier option shared by the pricing commands
+ */
+function freeTierOption(): Option {
+  return new Option('--free-tier <mode>', `Apply account-wide Free Tier allowances: ${FREE_TIER_MODES.join(', ')} (12-month adds the allowances of new accounts)`)
+    .default('always-free');
+}
 
 program
   .name('cfn-cost')
@@ -34,6 +60,20 @@ program
   .option('-f, --format <format>', 'Output format: table, json, markdown, github', 'table')
   .option('-o, --output <file>', 'Write output to file')
   .option('--no-deployed', 'Skip comparing with deployed stacks (estimate new templates only)')
+  .option('-u, --usage-file <file>', 'Usage file (YAML/JSON) with usage assumptions per resource')
+  .option('--parameter <key=value>', 'Template parameter value (repeatable)', collectValues, [])
+  .option('--parameters-file <file>', 'Parameter values file (CloudFormation CLI JSON or CodePipeline template configuration)')
+  .option('--pricing-model <model>', `Pricing model: ${PRICING_MODELS.join(', ')}`)
+  .option('--commitments-file <file>', 'Commitments file (YAML/JSON) with a pricing model per service')
+  .option('--rates-file <file>', 'Negotiated rates file (YAML/JSON) with discounts and private unit prices')
+  .addOption(freeTierOption())
+  .option('--pricing-source <source>', `Pricing data source: bundled, file:<path>, offers:<dir> or an http(s):// mirror URL (env: ${PRICING_SOURCE_ENV})`)
+  .option('--pricing-date <date>', 'Price with the pricing snapshot in effect on this date (YYYY-MM-DD)')
+  .option('--max-pricing-age <days>', 'Fail when the pricing data is older than this many days')
+  .option('--strict-pricing', 'Fail when a price is missing from the pricing data instead of using a default')
+  .option('--currency <code>', 'Report costs in this currency (ISO 4217 code, e.g. CAD or EUR)', BASE_CURRENCY)
+  .option('--exchange-rate <rate>', 'Units of --currency per US dollar')
+  .option('--exchange-rates-file <file>', 'Exchange rates file (YAML/JSON) with units per US dollar for each currency')
   .option('-v, --verbose', 'Verbose output')
   .action(async (options) => {
     try {
@@ -53,6 +93,20 @@ program
   .option('-r, --region <region>', 'AWS region', DEFAULT_REGION)
   .option('-f, --format <format>', 'Output format: table, json, markdown', 'table')
   .option('-o, --output <file>', 'Write output to file')
+  .option('-u, --usage-file <file>', 'Usage file (YAML/JSON) with usage assumptions per resource')
+  .option('--parameter <key=value>', 'Template parameter value (repeatable)', collectValues, [])
+  .option('--parameters-file <file>', 'Parameter values file (CloudFormation CLI JSON or CodePipeline template configuration)')
+  .option('--pricing-model <model>', `Pricing model: ${PRICING_MODELS.join(', ')}`)
+  .option('--commitments-file <file>', 'Commitments file (YAML/JSON) with a pricing model per service')
+  .option('--rates-file <file>', 'Negotiated rates file (YAML/JSON) with discounts and private unit prices')
+  .addOption(freeTierOption())
+  .option('--pricing-source <source>', `Pricing data source: bundled, file:<path>, offers:<dir> or an http(s):// mirror URL (env: ${PRICING_SOURCE_ENV})`)
+  .option('--pricing-date <date>', 'Price with the pricing snapshot in effect on this date (YYYY-MM-DD)')
+  .option('--max-pricing-age <days>', 'Fail when the pricing data is older than this many days')
+  .option('--strict-pricing', 'Fail when a price is missing from the pricing data instead of using a default')
+  .option('--currency <code>', 'Report costs in this currency (ISO 4217 code, e.g. CAD or EUR)', BASE_CURRENCY)
+  .option('--exchange-rate <rate>', 'Units of --currency per US dollar')
+  .option('--exchange-rates-file <file>', 'Exchange rates file (YAML/JSON) with units per US dollar for each currency')
   .option('-v, --verbose', 'Verbose output')
   .action(async (templatePath, options) => {
     try {
@@ -73,6 +127,20 @@ program
   .option('-r, --region <region>', 'AWS region', DEFAULT_REGION)
   .option('-f, --format <format>', 'Output format: table, json, markdown, github', 'table')
   .option('-o, --output <file>', 'Write output to file')
+  .option('-u, --usage-file <file>', 'Usage file (YAML/JSON) with usage assumptions per resource')
+  .option('--parameter <key=value>', 'Template parameter value (repeatable)', collectValues, [])
+  .option('--parameters-file <file>', 'Parameter values file (CloudFormation CLI JSON or CodePipeline template configuration)')
+  .option('--pricing-model <model>', `Pricing model: ${PRICING_MODELS.join(', ')}`)
+  .option('--commitments-file <file>', 'Commitments file (YAML/JSON) with a pricing model per service')
+  .option('--rates-file <file>', 'Negotiated rates file (YAML/JSON) with discounts and private unit prices')
+  .addOption(freeTierOption())
+  .option('--pricing-source <source>', `Pricing data source: bundled, file:<path>, offers:<dir> or an http(s):// mirror URL (env: ${PRICING_SOURCE_ENV})`)
+  .option('--pricing-date <date>', 'Price with the pricing snapshot in effect on this date (YYYY-MM-DD)')
+  .option('--max-pricing-age <days>', 'Fail when the pricing data is older than this many days')
+  .option('--strict-pricing', 'Fail when a price is missing from the pricing data instead of using a default')
+  .option('--currency <code>', 'Report costs in this currency (ISO 4217 code, e.g. CAD or EUR)', BASE_CURRENCY)
+  .option('--exchange-rate <rate>', 'Units of --currency per US dollar')
+  .option('--exchange-rates-file <file>', 'Exchange rates file (YAML/JSON) with units per US dollar for each currency')
   .option('-v, --verbose', 'Verbose output')
   .action(async (beforePath, afterPath, options) => {
     try {
@@ -109,6 +177,20 @@ program
   .option('-r, --region <region>', 'AWS region', DEFAULT_REGION)
   .option('-p, --profile <profile>', 'AWS profile to use')
   .option('-o, --output <file>', 'Write comment to file (default: stdout)')
+  .option('-u, --usage-file <file>', 'Usage file (YAML/JSON) with usage assumptions per resource')
+  .option('--parameter <key=value>', 'Template parameter value (repeatable)', collectValues, [])
+  .option('--parameters-file <file>', 'Parameter values file (CloudFormation CLI JSON or CodePipeline template configuration)')
+  .option('--pricing-model <model>', `Pricing model: ${PRICING_MODELS.join(', ')}`)
+  .option('--commitments-file <file>', 'Commitments file (YAML/JSON) with a pricing model per service')
+  .option('--rates-file <file>', 'Negotiated rates file (YAML/JSON) with discounts and private unit prices')
+  .addOption(freeTierOption())
+  .option('--pricing-source <source>', `Pricing data source: bundled, file:<path>, offers:<dir> or an http(s):// mirror URL (env: ${PRICING_SOURCE_ENV})`)
+  .option('--pricing-date <date>', 'Price with the pricing snapshot in effect on this date (YYYY-MM-DD)')
+  .option('--max-pricing-age <days>', 'Fail when the pricing data is older than this many days')
+  .option('--strict-pricing', 'Fail when a price is missing from the pricing data instead of using a default')
+  .option('--currency <code>', 'Report costs in this currency (ISO 4217 code, e.g. CAD or EUR)', BASE_CURRENCY)
+  .option('--exchange-rate <rate>', 'Units of --currency per US dollar')
+  .option('--exchange-rates-file <file>', 'Exchange rates file (YAML/JSON) with units per US dollar for each currency')
   .action(async (options) => {
     try {
       await runGitHubComment(options);
@@ -118,6 +200,250 @@ program
     }
   });
 
+// Usage command - manage usage files
+const usageCommand = program
+  .command('usage')
+  .description('Manage usage files with usage assumptions per resource');
+
+usageCommand
+  .command('init')
+  .description('Generate a starter usage file from a template, merging into an existing file')
+  .argument('<template>', 'Path to CloudFormation template file (JSON or YAML)')
+  .option('-o, --output <file>', 'Usage file to create or update', DEFAULT_USAGE_FILE)
+  .action(async (templatePath, options) => {
+    try {
+      await runUsageInit(templatePath, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Pricing command - inspect pricing data
+const pricingCommand = program
+  .command('pricing')
+  .description('Inspect the pricing data used for estimates');
+
+pricingCommand
+  .command('validate')
+  .description('Check pricing data for missing, mistyped and zero-valued prices')
+  .option('-r, --region <region>', 'Region to check (default: all regions in the pricing data)')
+  .option('-f, --format <format>', 'Output format: table, json', 'table')
+  .option('--pricing-source <source>', `Pricing data source: bundled, file:<path>, offers:<dir> or an http(s):// mirror URL (env: ${PRICING_SOURCE_ENV})`)
+  .option('--pricing-date <date>', 'Price with the pricing snapshot in effect on this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await runPricingValidate(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+pricingCommand
+  .command('coverage')
+  .description('List the services, instance types and engines with prices in each region')
+  .option('-r, --region <region>', 'Region to report (default: all regions in the pricing data)')
+  .option('-f, --format <format>', 'Output format: table, json', 'table')
+  .option('--pricing-source <source>', `Pricing data source: bundled, file:<path>, offers:<dir> or an http(s):// mirror URL (env: ${PRICING_SOURCE_ENV})`)
+  .option('--pricing-date <date>', 'Price with the pricing snapshot in effect on this date (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      await runPricingCoverage(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+pricingCommand
+  .command('diff')
+  .description('Show the unit prices that changed between the pricing snapshots for two dates')
+  .argument('<dateA>', 'Earlier date (YYYY-MM-DD)')
+  .argument('<dateB>', 'Later date (YYYY-MM-DD)')
+  .option('-r, --region <region>', 'Region to compare (default: all regions)')
+  .option('-f, --format <format>', 'Output format: table, json', 'table')
+  .action(async (dateA, dateB, options) => {
+    try {
+      await runPricingDiff(dateA, dateB, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Load the usage profile for a command, or an empty profile when no usage file is given
+ */
+function loadUsageProfile(usageFile: string | undefined, verbose?: boolean): UsageProfile {
+  if (!usageFile) {
+    return new UsageProfile();
+  }
+  
+  if (verbose) {
+    console.log(chalk.gray(`Usage file: ${usageFile}`));
+  }
+  
+  return UsageProfile.fromFile(usageFile);
+}
+
+/**
+ * Load parameter overrides for a command: values from the parameters file,
+ * overridden by --parameter flags
+ */
+function loadParameters(
+  parametersFile: string | undefined,
+  assignments: string[] = [],
+  verbose?: boolean
+): ParameterValues {
+  const parameters: ParameterValues = {
+    ...(parametersFile ? ParameterOverrides.fromFile(parametersFile) : {}),
+    ...ParameterOverrides.fromAssignments(assignments),
+  };
+  
+  if (verbose && Object.keys(parameters).length > 0) {
+    console.log(chalk.gray(`Parameters: ${Object.entries(parameters).map(([k, v]) => `${k}=${v}`).join(', ')}`));
+  }
+  
+  return parameters;
+}
+
+/**
+ * Load the commitments for a command: the commitments file, with its default
+ * model replaced by --pricing-model when given. Models without term prices in
+ * the region's pricing data fall back to On-Demand with a warning, or fail
+ * under --strict-pricing
+ */
+function loadCommitments(
+  pricingModel: string | undefined,
+  commitmentsFile: string | undefined,
+  region: string,
+  strictPricing?: boolean,
+  verbose?: boolean
+): Commitments | undefined {
+  let commitments = commitmentsFile ? Commitments.fromFile(commitmentsFile) : undefined;
+  
+  if (pricingModel) {
+    commitments = commitments
+      ? commitments.withDefault(pricingModel as PricingModel)
+      : Commitments.forModel(pricingModel as PricingModel);
+  }
+  
+  if (verbose && commitments) {
+    console.log(chalk.gray(`Pricing model: ${commitments.describe()}`));
+  }
+  
+  const missing = commitments?.getMissingModels(getRegionalPricing(region)) || [];
+  if (missing.length > 0) {
+    const message = `No ${missing.join(', ')} prices in the pricing data for ${region}`;
+    if (strictPricing) {
+      throw new Error(`${message} (--strict-pricing). Run "npm run update-pricing" to fetch them.`);
+    }
+    console.warn(chalk.yellow(`Warning: ${message}; the services they cover are priced On-Demand. Run "npm run update-pricing" to fetch them.`));
+  }
+  
+  return commitments;
+}
+
+/**
+ * Create a Free Tier tracker for a command, or none when --free-tier is off
+ */
+function createFreeTier(mode: string): FreeTierTracker | undefined {
+  if (!FREE_TIER_MODES.includes(mode as FreeTierMode)) {
+    throw new Error(`Invalid --free-tier value "${mode}". Expected one of: ${FREE_TIER_MODES.join(', ')}`);
+  }
+  
+  return FreeTierTracker.forMode(mode as FreeTierMode);
+}
+
+/**
+ * Resolve the pricing source from --pricing-date, --pricing-source or the
+ * CFN_COST_PRICING_SOURCE environment variable, or undefined for the bundled data
+ */
+function resolvePricingSource(spec: string | undefined, pricingDate: string | undefined): PricingSource | undefined {
+  const sourceSpec = spec || process.env[PRICING_SOURCE_ENV];
+  
+  if (pricingDate) {
+    if (sourceSpec && sourceSpec !== 'bundled') {
+      throw new Error(`--pricing-date selects a bundled pricing snapshot and cannot be combined with the pricing source ${sourceSpec}`);
+    }
+    return new SnapshotPricingSource(pricingDate);
+  }
+  
+  return sourceSpec ? createPricingSource(sourceSpec) : undefined;
+}
+
+/**
+ * Load pricing data from --pricing-date, --pricing-source or the
+ * CFN_COST_PRICING_SOURCE environment variable, keeping the bundled data
+ * when none is set
+ */
+async function loadPricingSource(spec: string | undefined, pricingDate: string | undefined, verbose?: boolean): Promise<void> {
+  const source = resolvePricingSource(spec, pricingDate);
+  if (!source) {
+    return;
+  }
+  
+  if (verbose) {
+    console.log(chalk.gray(`Pricing source: ${source.description}`));
+  }
+  
+  await usePricingSource(source);
+}
+
+/**
+ * Apply the negotiated rates from --rates-file on top of the list prices
+ */
+function loadNegotiatedRates(ratesFile: string | undefined, verbose?: boolean): void {
+  if (!ratesFile) {
+    return;
+  }
+  
+  const rates = NegotiatedRates.fromFile(ratesFile);
+  if (verbose) {
+    console.log(chalk.gray(`Negotiated rates: ${rates.describe()}`));
+  }
+  
+  setNegotiatedRates(rates);
+}
+
+/**
+ * Resolve the reporting currency from --currency, --exchange-rate and --exchange-rates-file
+ */
+function loadCurrency(code: string, exchangeRate: string | undefined, ratesFile: string | undefined, verbose?: boolean): Currency {
+  const currency = Currency.resolve(code, exchangeRate, ratesFile);
+  if (verbose && !currency.isBase()) {
+    console.log(chalk.gray(`Currency: ${currency.describe()}`));
+  }
+  return currency;
+}
+
+/**
+ * Fail when the region's pricing data is older than --max-pricing-age
+ */
+function checkPricingAge(region: string, maxPricingAge: string | undefined): void {
+  if (maxPricingAge === undefined) {
+    return;
+  }
+  
+  const maxAgeDays = Number(maxPricingAge);
+  if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+    throw new Error(`Invalid --max-pricing-age "${maxPricingAge}": expected a number of days`);
+  }
+  
+  const { lastUpdated, ageDays } = getPricingProvenance(region);
+  if (ageDays === undefined) {
+    throw new Error(`Pricing data for region ${region} has no valid update time, so its age cannot be checked against --max-pricing-age`);
+  }
+  
+  if (ageDays > maxAgeDays) {
+    throw new Error(
+      `Pricing data for region ${region} was last updated ${lastUpdated} (${ageDays} days ago), older than --max-pricing-age ${maxAgeDays}. ` +
+      'Run "npm run update-pricing" or use a fresher --pricing-source.'
+    );
+  }
+}
+
 /**
  * Run the compare command
  */
@@ -129,9 +455,28 @@ async function runCompare(options: {
   format: string;
   output?: string;
   deployed: boolean;
+  usageFile?: string;
+  parameter?: string[];
+  parametersFile?: string;
+  pricingModel?: string;
+  commitmentsFile?: string;
+  freeTier: string;
+  pricingSource?: string;
+  pricingDate?: string;
+  maxPricingAge?: string;
+  strictPricing?: boolean;
+  ratesFile?: string;
+  currency: string;
+  exchangeRate?: string;
+  exchangeRatesFile?: string;
   verbose?: boolean;
 }) {
-  const { cdkOut, stacks, region, profile, format, output, deployed, verbose } = options;
+  const { cdkOut, stacks, region, profile, format, output, deployed, usageFile, parameter: parameterAssignments, parametersFile, pricingModel, commitmentsFile, freeTier: freeTierMode, pricingSource, pricingDate, maxPricingAge, strictPricing, ratesFile, currency: currencyCode, exchangeRate, exchangeRatesFile, verbose } = options;
+  
+  await loadPricingSource(pricingSource, pricingDate, verbose);
+  loadNegotiatedRates(ratesFile, verbose);
+  const currency = loadCurrency(currencyCode, exchangeRate, exchangeRatesFile, verbose);
+  checkPricingAge(region, maxPricingAge);
   
   if (verbose) {
     console.log(chalk.gray(`CDK output directory: ${cdkOut}`));
@@ -144,8 +489,17 @@ async function runCompare(options: {
     throw new Error(`CDK output directory not found: ${cdkOut}. Run 'cdk synth' first.`);
   }
   
+  // Fail before processing any stack when the region has no pricing data
+  getRegionalPricing(region);
+  
+  const usageProfile = loadUsageProfile(usageFile, verbose);
+  const parameters = loadParameters(parametersFile, parameterAssignments, verbose);
+  const commitments = loadCommitments(pricingModel, commitmentsFile, region, strictPricing, verbose);
+  const freeTier = createFreeTier(freeTierMode);
+  // Deployed and synthesized stacks each draw on their own allowances
+  const deployedFreeTier = createFreeTier(freeTierMode);
   const fetcher = new TemplateFetcher(region, profile);
-  const formatter = new OutputFormatter(region);
+  const formatter = new OutputFormatter(region, currency);
   
   // Discover stacks
   let stackNames = stacks;
@@ -173,23 +527,34 @@ async function runCompare(options: {
         // Compare with deployed stack
         const { deployed: deployedTemplate, synthesized } = await fetcher.fetchForComparison(cdkOut, stackName);
         
-        const diffCalculator = new DiffCalculator(region);
+        const diffCalculator = new DiffCalculator(region, {
+          usageProfile,
+          parameters,
+          commitments,
+          freeTier,
+          beforeFreeTier: deployedFreeTier,
+          strictPricing,
+        });
         const comparison = diffCalculator.compareTemplates(
           stackName,
           deployedTemplate?.template || null,
           synthesized.template,
           'deployed',
-          'synthesized'
+          'synthesized',
+          { before: deployedTemplate?.nestedStacks, after: synthesized.nestedStacks }
         );
         comparisons.push(comparison);
       } else {
         // Just estimate the synthesized template
         const synthesized = TemplateFetcher.fetchSynthesizedTemplate(cdkOut, stackName);
-        const calculator = new CostCalculator(region);
-        const estimate = calculator.calculateStackCost(stackName, synthesized.template, 'synthesized');
+        const calculator = new CostCalculator(region, { usageProfile, parameters, commitments, freeTier, strictPricing });
+        const estimate = calculator.calculateStackCost(stackName, synthesized.template, 'synthesized', synthesized.nestedStacks);
         estimates.push(estimate);
       }
     } catch (error) {
+      if (strictPricing) {
+        throw error;
+      }
       console.warn(chalk.yellow(`Warning: Failed to process stack ${stackName}: ${error}`));
     }
   }
@@ -221,19 +586,42 @@ async function runEstimate(templatePath: string, options: {
   region: string;
   format: string;
   output?: string;
+  usageFile?: string;
+  parameter?: string[];
+  parametersFile?: string;
+  pricingModel?: string;
+  commitmentsFile?: string;
+  freeTier: string;
+  pricingSource?: string;
+  pricingDate?: string;
+  maxPricingAge?: string;
+  strictPricing?: boolean;
+  ratesFile?: string;
+  currency: string;
+  exchangeRate?: string;
+  exchangeRatesFile?: string;
   verbose?: boolean;
 }) {
-  const { stackName, region, format, output, verbose } = options;
+  const { stackName, region, format, output, usageFile, parameter: parameterAssignments, parametersFile, pricingModel, commitmentsFile, freeTier: freeTierMode, pricingSource, pricingDate, maxPricingAge, strictPricing, ratesFile, currency: currencyCode, exchangeRate, exchangeRatesFile, verbose } = options;
+  
+  await loadPricingSource(pricingSource, pricingDate, verbose);
+  loadNegotiatedRates(ratesFile, verbose);
+  const currency = loadCurrency(currencyCode, exchangeRate, exchangeRatesFile, verbose);
+  checkPricingAge(region, maxPricingAge);
   
   if (!fs.existsSync(templatePath)) {
     throw new Error(`Template file not found: ${templatePath}`);
   }
   
+  const usageProfile = loadUsageProfile(usageFile, verbose);
+  const parameters = loadParameters(parametersFile, parameterAssignments, verbose);
+  const commitments = loadCommitments(pricingModel, commitmentsFile, region, strictPricing, verbose);
+  const freeTier = createFreeTier(freeTierMode);
   const template = TemplateFetcher.fetchLocalTemplate(templatePath, stackName);
-  const calculator = new CostCalculator(region);
-  const estimate = calculator.calculateStackCost(template.stackName, template.template, 'local');
+  const calculator = new CostCalculator(region, { usageProfile, parameters, commitments, freeTier, strictPricing });
+  const estimate = calculator.calculateStackCost(template.stackName, template.template, 'local', template.nestedStacks);
   
-  const formatter = new OutputFormatter(region);
+  const formatter = new OutputFormatter(region, currency);
   const result = formatter.formatEstimate(estimate, format as OutputFormat);
   
   if (output) {
@@ -252,9 +640,28 @@ async function runDiff(beforePath: string, afterPath: string, options: {
   region: string;
   format: string;
   output?: string;
+  usageFile?: string;
+  parameter?: string[];
+  parametersFile?: string;
+  pricingModel?: string;
+  commitmentsFile?: string;
+  freeTier: string;
+  pricingSource?: string;
+  pricingDate?: string;
+  maxPricingAge?: string;
+  strictPricing?: boolean;
+  ratesFile?: string;
+  currency: string;
+  exchangeRate?: string;
+  exchangeRatesFile?: string;
   verbose?: boolean;
 }) {
-  const { stackName, region, format, output, verbose } = options;
+  const { stackName, region, format, output, usageFile, parameter: parameterAssignments, parametersFile, pricingModel, commitmentsFile, freeTier: freeTierMode, pricingSource, pricingDate, maxPricingAge, strictPricing, ratesFile, currency: currencyCode, exchangeRate, exchangeRatesFile, verbose } = options;
+  
+  await loadPricingSource(pricingSource, pricingDate, verbose);
+  loadNegotiatedRates(ratesFile, verbose);
+  const currency = loadCurrency(currencyCode, exchangeRate, exchangeRatesFile, verbose);
+  checkPricingAge(region, maxPricingAge);
   
   if (!fs.existsSync(beforePath)) {
     throw new Error(`Before template file not found: ${beforePath}`);
@@ -266,16 +673,21 @@ async function runDiff(beforePath: string, afterPath: string, options: {
   const beforeTemplate = TemplateFetcher.fetchLocalTemplate(beforePath, stackName);
   const afterTemplate = TemplateFetcher.fetchLocalTemplate(afterPath, stackName);
   
-  const diffCalculator = new DiffCalculator(region);
+  const usageProfile = loadUsageProfile(usageFile, verbose);
+  const parameters = loadParameters(parametersFile, parameterAssignments, verbose);
+  const commitments = loadCommitments(pricingModel, commitmentsFile, region, strictPricing, verbose);
+  const freeTier = createFreeTier(freeTierMode);
+  const diffCalculator = new DiffCalculator(region, { usageProfile, parameters, commitments, freeTier, strictPricing });
   const comparison = diffCalculator.compareTemplates(
     afterTemplate.stackName,
     beforeTemplate.template,
     afterTemplate.template,
     'local',
-    'local'
+    'local',
+    { before: beforeTemplate.nestedStacks, after: afterTemplate.nestedStacks }
   );
   
-  const formatter = new OutputFormatter(region);
+  const formatter = new OutputFormatter(region, currency);
   const result = formatter.formatComparison(comparison, format as OutputFormat);
   
   if (output) {
@@ -348,15 +760,40 @@ async function runGitHubComment(options: {
   region: string;
   profile?: string;
   output?: string;
+  usageFile?: string;
+  parameter?: string[];
+  parametersFile?: string;
+  pricingModel?: string;
+  commitmentsFile?: string;
+  freeTier: string;
+  pricingSource?: string;
+  pricingDate?: string;
+  maxPricingAge?: string;
+  strictPricing?: boolean;
+  ratesFile?: string;
+  currency: string;
+  exchangeRate?: string;
+  exchangeRatesFile?: string;
 }) {
-  const { cdkOut, stacks, region, profile, output } = options;
+  const { cdkOut, stacks, region, profile, output, usageFile, parameter: parameterAssignments, parametersFile, pricingModel, commitmentsFile, freeTier: freeTierMode, pricingSource, pricingDate, maxPricingAge, strictPricing, ratesFile, currency: currencyCode, exchangeRate, exchangeRatesFile } = options;
+  
+  await loadPricingSource(pricingSource, pricingDate);
+  loadNegotiatedRates(ratesFile);
+  const currency = loadCurrency(currencyCode, exchangeRate, exchangeRatesFile);
+  checkPricingAge(region, maxPricingAge);
   
   if (!fs.existsSync(cdkOut)) {
     throw new Error(`CDK output directory not found: ${cdkOut}`);
   }
   
+  const usageProfile = loadUsageProfile(usageFile);
+  const parameters = loadParameters(parametersFile, parameterAssignments);
+  const commitments = loadCommitments(pricingModel, commitmentsFile, region, strictPricing);
+  const freeTier = createFreeTier(freeTierMode);
+  // Deployed and synthesized stacks each draw on their own allowances
+  const deployedFreeTier = createFreeTier(freeTierMode);
   const fetcher = new TemplateFetcher(region, profile);
-  const formatter = new OutputFormatter(region);
+  const formatter = new OutputFormatter(region, currency);
   
   // Discover stacks
   let stackNames = stacks;
@@ -374,16 +811,27 @@ async function runGitHubComment(options: {
     try {
       const { deployed: deployedTemplate, synthesized } = await fetcher.fetchForComparison(cdkOut, stackName);
       
-      const diffCalculator = new DiffCalculator(region);
+      const diffCalculator = new DiffCalculator(region, {
+        usageProfile,
+        parameters,
+        commitments,
+        freeTier,
+        beforeFreeTier: deployedFreeTier,
+        strictPricing,
+      });
       const comparison = diffCalculator.compareTemplates(
         stackName,
         deployedTemplate?.template || null,
         synthesized.template,
         'deployed',
-        'synthesized'
+        'synthesized',
+        { before: deployedTemplate?.nestedStacks, after: synthesized.nestedStacks }
       );
       comparisons.push(comparison);
     } catch (error) {
+      if (strictPricing) {
+        throw error;
+      }
       console.warn(`Warning: Failed to process stack ${stackName}: ${error}`);
     }
   }
@@ -402,6 +850,178 @@ async function runGitHubComment(options: {
   }
 }
 
+/**
+ * Run the usage init command
+ */
+async function runUsageInit(templatePath: string, options: {
+  output: string;
+}) {
+  const { output } = options;
+  
+  if (!fs.existsSync(templatePath)) {
+    throw new Error(`Template file not found: ${templatePath}`);
+  }
+  
+  const template = TemplateFetcher.fetchLocalTemplate(templatePath);
+  const existingContent = fs.existsSync(output) ? fs.readFileSync(output, 'utf-8') : undefined;
+  
+  const { content, addedResources, skippedResources } = UsageProfile.generateSkeleton(template.template, existingContent);
+  fs.writeFileSync(output, content);
+  
+  const action = existingContent ? 'Updated' : 'Created';
+  console.log(chalk.green(`${action} ${output} (${addedResources.length} resources added)`));
+  
+  for (const logicalId of addedResources) {
+    console.log(chalk.gray(`  + ${logicalId}`));
+  }
+  
+  if (skippedResources.length > 0) {
+    console.log(chalk.yellow(`  ${skippedResources.length} usage-based resources have no usage keys yet: ${skippedResources.join(', ')}`));
+  }
+}
+
+/**
+ * Read the pricing data for the pricing commands straight from the source,
+ * without the load-time check, limited to one region when given
+ */
+async function readPricingData(spec: string | undefined, pricingDate: string | undefined, region?: string): Promise<Record<string, AWSpricingData>> {
+  const data = await (resolvePricingSource(spec, pricingDate) || createPricingSource('bundled')).load();
+  
+  if (!region) {
+    return data;
+  }
+  
+  if (!data[region]) {
+    throw new Error(`No pricing data for region ${region}. Available regions: ${Object.keys(data).join(', ')}`);
+  }
+  
+  return { [region]: data[region] };
+}
+
+/**
+ * Run the pricing validate command
+ */
+async function runPricingValidate(options: {
+  region?: string;
+  format: string;
+  pricingSource?: string;
+  pricingDate?: string;
+}) {
+  const { region, format, pricingSource, pricingDate } = options;
+  
+  const data = await readPricingData(pricingSource, pricingDate, region);
+  const issues = PricingValidator.validate(data);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  
+  if (format === 'json') {
+    console.log(JSON.stringify(issues, null, 2));
+  } else {
+    for (const regionName of Object.keys(data)) {
+      const regionIssues = issues.filter(issue => issue.region === regionName);
+      const regionErrors = regionIssues.filter(issue => issue.severity === 'error');
+      const summary = `${regionErrors.length} errors, ${regionIssues.length - regionErrors.length} warnings`;
+      
+      console.log(chalk.bold(`\n${regionName}: `) + (regionIssues.length === 0 ? chalk.green('OK') : summary));
+      
+      for (const issue of regionIssues) {
+        const line = `   ${issue.severity === 'error' ? '✗' : '!'} ${issue.message}`;
+        console.log(issue.severity === 'error' ? chalk.red(line) : chalk.yellow(line));
+      }
+    }
+  }
+  
+  // Missing and mistyped prices break estimates; zero prices only might
+  if (errorCount > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the pricing coverage command
+ */
+async function runPricingCoverage(options: {
+  region?: string;
+  format: string;
+  pricingSource?: string;
+  pricingDate?: string;
+}) {
+  const { region, format, pricingSource, pricingDate } = options;
+  
+  const data = await readPricingData(pricingSource, pricingDate, region);
+  const coverage = Object.entries(data).map(([regionName, pricing]) => PricingValidator.coverage(regionName, pricing));
+  
+  if (format === 'json') {
+    console.log(JSON.stringify(coverage, null, 2));
+    return;
+  }
+  
+  for (const regionCoverage of coverage) {
+    const total = regionCoverage.services.length + regionCoverage.missingServices.length;
+    console.log(chalk.bold(`\n${regionCoverage.region}`) + chalk.gray(` (updated ${regionCoverage.lastUpdated || 'unknown'})`));
+    console.log(`   Services priced: ${regionCoverage.services.length}/${total}`);
+    
+    if (regionCoverage.missingServices.length > 0) {
+      console.log(chalk.yellow(`   Without prices: ${regionCoverage.missingServices.join(', ')}`));
+    }
+    
+    for (const [ratePath, keys] of Object.entries(regionCoverage.rates)) {
+      console.log(`   ${ratePath} (${keys.length})` + (keys.length > 0 ? chalk.gray(`: ${keys.join(', ')}`) : ''));
+    }
+  }
+}
+
+/**
+ * Run the pricing diff command
+ */
+async function runPricingDiff(dateA: string, dateB: string, options: {
+  region?: string;
+  format: string;
+}) {
+  const { region, format } = options;
+  
+  const before = PricingSnapshots.findNearest(dateA);
+  const after = PricingSnapshots.findNearest(dateB);
+  const changes = PricingSnapshots.diff(PricingSnapshots.load(before), PricingSnapshots.load(after), region);
+  
+  if (format === 'json') {
+    console.log(JSON.stringify({ before: before.date, after: after.date, changes }, null, 2));
+    return;
+  }
+  
+  console.log(chalk.bold(`Pricing snapshot ${before.date} → ${after.date}`));
+  
+  if (before.date === after.date) {
+    console.log(chalk.gray(`   Both dates use the ${before.date} snapshot`));
+  }
+  
+  if (changes.length === 0) {
+    console.log(chalk.green('   No price changes'));
+    return;
+  }
+  
+  for (const regionName of [...new Set(changes.map(change => change.region))]) {
+    console.log(chalk.bold(`\n${regionName}`));
+    
+    for (const change of changes.filter(c => c.region === regionName)) {
+      if (change.before === undefined) {
+        console.log(chalk.green(`   + ${change.path}: $${change.after}`));
+      } else if (change.after === undefined) {
+        console.log(chalk.red(`   - ${change.path}: $${change.before}`));
+      } else {
+        const percent = change.percentChange !== undefined
+          ? ` (${change.percentChange >= 0 ? '+' : ''}${change.percentChange.toFixed(1)}%)`
+          : '';
+        const line = `   ~ ${change.path}: $${change.before} → $${change.after}${percent}`;
+        console.log(change.after > change.before ? chalk.red(line) : chalk.green(line));
+      }
+    }
+  }
+  
+  const changed = changes.filter(c => c.before !== undefined && c.after !== undefined).length;
+  const added = changes.filter(c => c.before === undefined).length;
+  console.log(`\n   ${changed} changed, ${added} added, ${changes.length - changed - added} removed`);
+}
+
 // Parse arguments and run
 program.parse();
 
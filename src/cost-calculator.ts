@@ -3,44 +3,327 @@
  * Calculates monthly costs for CloudFormation resources
  */
 
-import { CloudFormationTemplate, CloudFormationResource, ResourceCost, CostDetail, StackCostEstimate, UnsupportedResource } from './types';
-import { getRegionalPricing, HOURS_PER_MONTH, FREE_RESOURCES, USAGE_BASED_RESOURCES, AWSpricingData } from './pricing-data';
+import { CloudFormationTemplate, CloudFormationResource, ResourceCost, CostDetail, StackCostEstimate, UnsupportedResource, ResolutionContext, PricingProvenance, NestedStackTemplate } from './types';
+import { getRegionalPricing, getPricingProvenance, getNegotiatedRates, HOURS_PER_MONTH, FREE_RESOURCES, USAGE_BASED_RESOURCES, AWSpricingData } from './pricing-data';
 import { TemplateParser } from './template-parser';
+import { UsageProfile, ResourceUsage } from './usage-profile';
+import { ParameterValues } from './parameter-overrides';
+import { Commitments } from './pricing-model';
+import { FreeTierTracker } from './free-tier';
+import { InstanceSizes } from './instance-sizes';
 
 type ResourceCostCalculator = (
   logicalId: string,
   resource: CloudFormationResource,
   template: CloudFormationTemplate,
-  pricing: AWSpricingData
+  pricing: AWSpricingData,
+  usage: ResourceUsage,
+  context: ResolutionContext
 ) => ResourceCost | null;
 
+export interface CostCalculatorOptions {
+  usageProfile?: UsageProfile;
+  /** Parameter values overriding the template's parameter defaults */
+  parameters?: ParameterValues;
+  /** Reserved Instance and Savings Plans commitments to price with */
+  commitments?: Commitments;
+  /** Free Tier allowances shared by every stack priced in the run */
+  freeTier?: FreeTierTracker;
+  /** Fail instead of falling back to a default when a price is missing from the pricing data */
+  strictPricing?: boolean;
+  /** Price with public list prices, ignoring any negotiated rates */
+  listPrices?: boolean;
+  /** Price without the On-Demand and list price comparisons, as the calculators pricing those comparisons do */
+  withoutComparisons?: boolean;
+}
+
+/**
+ * EBS volume attached to each instance an Auto Scaling group launches
+ */
+interface LaunchVolume {
+  deviceName: string;
+  volumeType: string;
+  size: number;
+  iops: number;
+  throughput: number;
+}
+
+/**
+ * Instance type and volumes resolved from a launch template or launch configuration
+ */
+interface LaunchSpec {
+  instanceType?: string;
+  volumes: LaunchVolume[];
+}
+
+/**
+ * Device names used for the root volume by common AMIs
+ */
+const ROOT_DEVICE_NAMES = new Set(['/dev/xvda', '/dev/sda1']);
+
+/**
+ * Price of an instance in an I/O-Optimized Aurora cluster relative to
+ * Standard, for classes without an I/O-Optimized price
+ */
+const AURORA_IO_OPTIMIZED_INSTANCE_FACTOR = 1.3;
+
+/**
+ * Pricing data keys of RDS engines whose CloudFormation Engine value differs
+ */
+const RDS_ENGINE_PRICING_KEYS: Record<string, string> = {
+  postgres: 'postgresql',
+};
+
+/**
+ * Parse an ECS task definition Cpu value ("1024" CPU units or "1 vCPU") to vCPUs
+ */
+function parseTaskCpu(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const amount = parseFloat(String(value));
+  if (Number.isNaN(amount)) {
+    return undefined;
+  }
+  return /vcpu/i.test(String(value)) ? amount : amount / 1024;
+}
+
+/**
+ * Parse an ECS task definition Memory value ("2048" MiB or "2 GB") to GB
+ */
+function parseTaskMemory(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const amount = parseFloat(String(value));
+  if (Number.isNaN(amount)) {
+    return undefined;
+  }
+  return /gb/i.test(String(value)) ? amount : amount / 1024;
+}
+
+/**
+ * Parse a numeric template value, which may be given as a string, or
+ * undefined when it is not a number (e.g. an unresolved reference)
+ */
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const amount = typeof value === 'number' || value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Format a usage quantity for component labels: 1000000 -> 1M, 10000 -> 10k
+ */
+function formatUsageCount(value: number): string {
+  if (value >= 1000000) {
+    return `${Number((value / 1000000).toFixed(1))}M`;
+  }
+  if (value >= 1000) {
+    return `${Number((value / 1000).toFixed(1))}k`;
+  }
+  return String(value);
+}
+
+/**
+ * Look up a unit price, falling back to a default when the pricing data has
+ * no (or a zero) price for it. Each fallback is recorded on the context so
+ * the estimate reports it instead of silently pricing with the default
+ */
+function lookupPrice<T>(
+  context: ResolutionContext,
+  pricePath: string,
+  price: T | undefined,
+  fallback: T,
+  fallbackName?: string
+): T {
+  if (price) {
+    return price;
+  }
+  const used = fallbackName || (typeof fallback === 'number' ? `the built-in default of $${fallback}` : 'built-in defaults');
+  context.missingPrices?.push(`No price for ${pricePath} in the pricing data; used ${used}`);
+  return fallback;
+}
+
+/**
+ * Look up the price of an instance type in a table of instance prices. A
+ * size missing from the table is estimated from the other sizes of its
+ * family, which is recorded on the context; failing that the price falls
+ * back to a default like any other missing price
+ */
+function lookupInstancePrice(
+  context: ResolutionContext,
+  tablePath: string,
+  prices: Record<string, number> | undefined,
+  instanceType: string,
+  fallback: number,
+  fallbackName?: string
+): number {
+  if (prices?.[instanceType]) {
+    return prices[instanceType];
+  }
+  const estimate = InstanceSizes.estimate(prices, instanceType);
+  if (estimate) {
+    context.estimatedPrices?.push(
+      `No price for ${tablePath}.${instanceType} in the pricing data; estimated $${Number(estimate.price.toFixed(4))}/hour ` +
+      `from ${estimate.basedOn} ($${estimate.basedOnPrice}/hour) by instance size`
+    );
+    return estimate.price;
+  }
+  return lookupPrice(context, `${tablePath}.${instanceType}`, undefined, fallback, fallbackName);
+}
+
 export class CostCalculator {
   private pricing: AWSpricingData;
+  private pricingProvenance: PricingProvenance;
   private region: string;
+  private usageProfile: UsageProfile;
+  private parameters: ParameterValues;
+  private commitments?: Commitments;
+  private onDemandCalculator?: CostCalculator;
+  private listCalculator?: CostCalculator;
+  private freeTier?: FreeTierTracker;
+  private strictPricing: boolean;
   private calculators: Map<string, ResourceCostCalculator>;
   
-  constructor(region: string = 'us-east-1') {
+  constructor(region: string = 'us-east-1', options: CostCalculatorOptions = {}) {
     this.region = region;
-    this.pricing = getRegionalPricing(region);
+    this.pricing = getRegionalPricing(region, options.listPrices);
+    this.pricingProvenance = getPricingProvenance(region);
+    this.usageProfile = options.usageProfile || new UsageProfile();
+    this.parameters = options.parameters || {};
+    this.freeTier = options.freeTier;
+    this.strictPricing = options.strictPricing || false;
     this.calculators = this.initializeCalculators();
+    
+    // Under a commitment, price with the effective rates and keep an
+    // On-Demand calculator to report what the commitment saves
+    if (options.commitments && !options.commitments.isOnDemand()) {
+      this.commitments = options.commitments;
+      this.pricing = options.commitments.applyTo(this.pricing);
+      if (!options.withoutComparisons) {
+        this.onDemandCalculator = new CostCalculator(region, {
+          ...options,
+          commitments: undefined,
+          freeTier: options.freeTier?.shadow(),
+          withoutComparisons: true,
+        });
+      }
+    }
+    
+    // With negotiated rates, keep a list price calculator to report them side
+    // by side (its Free Tier shadow is separate from the On-Demand calculator's).
+    // Neither comparison calculator runs comparisons of its own, so a stack is
+    // priced at most three times
+    if (!options.listPrices && !options.withoutComparisons && getNegotiatedRates()) {
+      this.listCalculator = new CostCalculator(region, {
+        ...options,
+        listPrices: true,
+        freeTier: options.freeTier?.shadow().shadow(),
+        withoutComparisons: true,
+      });
+    }
   }
   
   /**
-   * Calculate costs for an entire stack
+   * Calculate costs for an entire stack, including the resources of the
+   * nested stacks whose templates are given
    */
   calculateStackCost(
     stackName: string,
     template: CloudFormationTemplate,
-    source: 'deployed' | 'synthesized' | 'local'
+    source: 'deployed' | 'synthesized' | 'local',
+    nestedStacks: Record<string, NestedStackTemplate> = {}
   ): StackCostEstimate {
+    const freeTierSavingsBefore = this.freeTier?.getTotalSavings() ?? 0;
+    const { resources, unsupportedResources } = this.calculateResourceCosts(stackName, template, this.parameters, nestedStacks);
+    
+    if (this.strictPricing) {
+      const missing = resources.flatMap(r => (r.warnings || []).map(warning => `${r.resourceId}: ${warning}`));
+      if (missing.length > 0) {
+        throw new Error(`Missing prices for ${stackName} (--strict-pricing):\n  ${missing.join('\n  ')}`);
+      }
+    }
+    
+    // Calculate totals
+    const totalMonthlyCost = resources.reduce((sum, r) => sum + r.monthlyCost, 0);
+    const totalHourlyCost = resources.reduce((sum, r) => sum + r.hourlyCost, 0);
+    
+    const estimate: StackCostEstimate = {
+      stackName,
+      templateSource: source,
+      totalMonthlyCost,
+      totalHourlyCost,
+      resources,
+      unsupportedResources,
+      timestamp: new Date().toISOString(),
+      pricing: this.pricingProvenance,
+    };
+    
+    if (this.freeTier) {
+      estimate.freeTierSavings = this.freeTier.getTotalSavings() - freeTierSavingsBefore;
+    }
+    
+    if (this.commitments && this.onDemandCalculator) {
+      this.applyOnDemandComparison(estimate, this.onDemandCalculator.calculateStackCost(stackName, template, source, nestedStacks));
+    }
+    
+    if (this.listCalculator) {
+      this.applyListComparison(estimate, this.listCalculator.calculateStackCost(stackName, template, source, nestedStacks));
+    }
+    
+    return estimate;
+  }
+  
+  /**
+   * Price each resource of a template, recursing into nested stacks
+   */
+  private calculateResourceCosts(
+    stackName: string,
+    template: CloudFormationTemplate,
+    parameters: ParameterValues,
+    nestedStacks: Record<string, NestedStackTemplate>
+  ): { resources: ResourceCost[]; unsupportedResources: UnsupportedResource[] } {
     const resources: ResourceCost[] = [];
     const unsupportedResources: UnsupportedResource[] = [];
     
     const templateResources = TemplateParser.extractResources(template);
+    const graph = TemplateParser.buildDependencyGraph(template);
+    const context = TemplateParser.createContext(template, {
+      parameters,
+      region: this.region,
+      stackName,
+      graph,
+    });
     
     for (const [logicalId, resource] of templateResources) {
       const resourceType = resource.Type;
       
+      // Skip resources whose Condition evaluates to false - they are not created
+      if (!TemplateParser.isResourceIncluded(resource, context)) {
+        continue;
+      }
+      
+      // Price nested stacks by their own resources
+      if (resourceType === 'AWS::CloudFormation::Stack') {
+        const nested = nestedStacks[logicalId];
+        if (!nested) {
+          unsupportedResources.push({
+            resourceId: logicalId,
+            resourceType,
+            reason: 'Nested stack template not found, so its resources are not priced',
+          });
+          continue;
+        }
+        
+        const nestedCosts = this.calculateNestedStackCosts(logicalId, resource, template, context, nested);
+        resources.push(...nestedCosts.resources);
+        unsupportedResources.push(...nestedCosts.unsupportedResources);
+        continue;
+      }
+      
       // Handle free resources
       if (this.isFreeResource(resourceType)) {
         resources.push({
@@ -63,50 +346,153 @@ export class CostCalculator {
       
       // Try to calculate cost
       const calculator = this.calculators.get(resourceType);
+      const usage = this.usageProfile.getUsage(logicalId, resourceType);
+      const resourceContext: ResolutionContext = { ...context, unresolvedProperties: [], missingPrices: [], estimatedPrices: [] };
+      
+      // Resources whose condition can't be evaluated are priced as created
+      if (resource.Condition && context.unresolvedConditions?.includes(resource.Condition)) {
+        resourceContext.unresolvedProperties!.push(`Condition ${resource.Condition}`);
+      }
       
+      let cost: ResourceCost | null;
       if (calculator) {
         try {
-          const cost = calculator(logicalId, resource, template, this.pricing);
-          if (cost) {
-            resources.push(cost);
-          }
+          cost = calculator(logicalId, resource, template, this.pricing, usage, resourceContext);
         } catch (error) {
           unsupportedResources.push({
             resourceId: logicalId,
             resourceType,
-            reason: `Calculation error: ${error instanceof Error ? error.message : String(error)}`,
+            reason: `Calculation error: ${error instanceof Error ? error.message : String(error)}` +
+              (error instanceof TypeError ? ' (the pricing data may be incomplete; run "cfn-cost pricing validate")' : ''),
           });
+          continue;
         }
       } else if (USAGE_BASED_RESOURCES.has(resourceType)) {
         // Usage-based resources - provide estimate with assumptions
-        const cost = this.calculateUsageBasedResource(logicalId, resource, template);
-        if (cost) {
-          resources.push(cost);
-        }
+        cost = this.calculateUsageBasedResource(logicalId, resource, template, usage, resourceContext);
       } else {
         unsupportedResources.push({
           resourceId: logicalId,
           resourceType,
           reason: 'No pricing calculator available for this resource type',
         });
+        continue;
+      }
+      
+      if (cost) {
+        resources.push(this.applyFreeTier(this.applyPriceWarnings(this.applyUnresolvedProperties(this.applyEstimatedPrices(this.applyUsageConfidence(cost), resourceContext), resourceContext), resourceContext)));
+      } else {
+        // Report resources that produced no cost rather than dropping them from the estimate
+        unsupportedResources.push({
+          resourceId: logicalId,
+          resourceType,
+          reason: calculator
+            ? 'The pricing calculator produced no cost for this resource'
+            : 'Listed as usage-based but no usage calculator handles this resource type',
+        });
       }
     }
     
-    // Calculate totals
-    const totalMonthlyCost = resources.reduce((sum, r) => sum + r.monthlyCost, 0);
-    const totalHourlyCost = resources.reduce((sum, r) => sum + r.hourlyCost, 0);
+    // Group costs under their parent resource (cluster, attached instance)
+    const pricedIds = new Set(resources.map(r => r.resourceId));
+    for (const cost of resources) {
+      const parentId = graph.getParentResourceId(cost.resourceId);
+      if (parentId && pricedIds.has(parentId)) {
+        cost.parentResourceId = parentId;
+      }
+    }
+    
+    return { resources, unsupportedResources };
+  }
+  
+  /**
+   * Price the resources of a nested stack under the stack resource, with
+   * IDs prefixed by its logical ID (e.g. "NetworkStack/NatGateway"). The stack
+   * resource itself is free and carries the nested stack's total
+   */
+  private calculateNestedStackCosts(
+    logicalId: string,
+    resource: CloudFormationResource,
+    template: CloudFormationTemplate,
+    context: ResolutionContext,
+    nested: NestedStackTemplate
+  ): { resources: ResourceCost[]; unsupportedResources: UnsupportedResource[] } {
+    // Pass on the parameter values the parent can resolve; the rest keep the nested template's defaults
+    const passed = TemplateParser.getPropertyValue(template, resource, 'Parameters', {}, context) as Record<string, unknown>;
+    const parameters: ParameterValues = {};
+    for (const [name, value] of Object.entries(passed || {})) {
+      if (value !== undefined && !TemplateParser.isUnresolved(value)) {
+        parameters[name] = Array.isArray(value) ? value.join(',') : String(value);
+      }
+    }
+    
+    const nestedCosts = this.calculateResourceCosts(
+      `${context.stackName}-${logicalId}`, nested.template, parameters, nested.nestedStacks || {}
+    );
+    const prefix = (id: string) => `${logicalId}/${id}`;
+    const resources = nestedCosts.resources.map(cost => ({
+      ...cost,
+      resourceId: prefix(cost.resourceId),
+      parentResourceId: cost.parentResourceId ? prefix(cost.parentResourceId) : logicalId,
+    }));
+    
+    const stackCost: ResourceCost = {
+      resourceId: logicalId,
+      resourceType: 'AWS::CloudFormation::Stack',
+      monthlyCost: 0,
+      hourlyCost: 0,
+      unit: 'stack',
+      details: [{
+        component: `Nested stack (${resources.length} resources)`,
+        quantity: resources.length,
+        unitPrice: 0,
+        monthlyCost: 0,
+        unit: 'resources',
+      }],
+      confidence: 'high',
+      nestedStackMonthlyCost: resources.reduce((sum, r) => sum + r.monthlyCost, 0),
+    };
     
     return {
-      stackName,
-      templateSource: source,
-      totalMonthlyCost,
-      totalHourlyCost,
-      resources,
-      unsupportedResources,
-      timestamp: new Date().toISOString(),
+      resources: [stackCost, ...resources],
+      unsupportedResources: nestedCosts.unsupportedResources.map(u => ({ ...u, resourceId: prefix(u.resourceId) })),
     };
   }
   
+  /**
+   * Reduce a resource's cost by the Free Tier allowances it draws on
+   */
+  private applyFreeTier(cost: ResourceCost): ResourceCost {
+    return this.freeTier ? this.freeTier.apply(cost) : cost;
+  }
+  
+  /**
+   * Record the On-Demand cost of each resource next to its effective cost
+   */
+  private applyOnDemandComparison(estimate: StackCostEstimate, onDemand: StackCostEstimate): void {
+    const onDemandCosts = new Map(onDemand.resources.map(r => [r.resourceId, r.monthlyCost]));
+    
+    for (const cost of estimate.resources) {
+      cost.onDemandMonthlyCost = onDemandCosts.get(cost.resourceId) ?? cost.monthlyCost;
+    }
+    
+    estimate.pricingModel = this.commitments!.describe();
+    estimate.onDemandMonthlyCost = estimate.resources.reduce((sum, r) => sum + r.onDemandMonthlyCost!, 0);
+  }
+  
+  /**
+   * Record the list price cost of each resource next to its net cost
+   */
+  private applyListComparison(estimate: StackCostEstimate, list: StackCostEstimate): void {
+    const listCosts = new Map(list.resources.map(r => [r.resourceId, r.monthlyCost]));
+    
+    for (const cost of estimate.resources) {
+      cost.listMonthlyCost = listCosts.get(cost.resourceId) ?? cost.monthlyCost;
+    }
+    
+    estimate.listMonthlyCost = estimate.resources.reduce((sum, r) => sum + r.listMonthlyCost!, 0);
+  }
+  
   /**
    * Check if a resource type is free
    */
@@ -123,40 +509,435 @@ export class CostCalculator {
     return false;
   }
   
+  /**
+   * Raise confidence for estimates whose usage comes from the usage file
+   * rather than built-in assumptions
+   */
+  private applyUsageConfidence(cost: ResourceCost): ResourceCost {
+    if (cost.confidence === 'low' && this.usageProfile.hasUsage(cost.resourceId, cost.resourceType)) {
+      return { ...cost, confidence: 'medium' };
+    }
+    return cost;
+  }
+  
+  /**
+   * Follow an Auto Scaling group's launch template or launch configuration
+   * reference to the resource in the same template
+   */
+  private resolveLaunchSpec(
+    template: CloudFormationTemplate,
+    resource: CloudFormationResource,
+    context: ResolutionContext
+  ): LaunchSpec | null {
+    const references: Array<[string, string]> = [
+      ['LaunchTemplate.LaunchTemplateId', 'LaunchTemplateData.'],
+      ['LaunchTemplate.LaunchTemplateName', 'LaunchTemplateData.'],
+      ['MixedInstancesPolicy.LaunchTemplate.LaunchTemplateSpecification.LaunchTemplateId', 'LaunchTemplateData.'],
+      ['MixedInstancesPolicy.LaunchTemplate.LaunchTemplateSpecification.LaunchTemplateName', 'LaunchTemplateData.'],
+      ['LaunchConfigurationName', ''],
+    ];
+    
+    for (const [propertyPath, dataPrefix] of references) {
+      const reference = TemplateParser.getPropertyValue(template, resource, propertyPath, undefined, context);
+      if (reference === undefined) {
+        continue;
+      }
+      
+      // Launch templates from other stacks can't be followed
+      const launchResourceId = TemplateParser.getReferencedResourceId(template, reference);
+      if (!launchResourceId) {
+        context.unresolvedProperties?.push(propertyPath);
+        return null;
+      }
+      
+      const launchResource = template.Resources[launchResourceId];
+      const instanceType = TemplateParser.getPropertyValue(
+        template, launchResource, `${dataPrefix}InstanceType`, undefined, context
+      );
+      const mappings = TemplateParser.getPropertyValue(
+        template, launchResource, `${dataPrefix}BlockDeviceMappings`, [], context
+      ) as Array<Record<string, unknown>>;
+      
+      return {
+        instanceType: typeof instanceType === 'string' && !TemplateParser.isUnresolved(instanceType)
+          ? instanceType
+          : undefined,
+        volumes: this.resolveLaunchVolumes(mappings),
+      };
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Convert block device mappings to EBS volumes, assuming an 8GB gp3 root
+   * volume from the AMI when the mappings don't override it
+   */
+  private resolveLaunchVolumes(mappings: Array<Record<string, unknown>>): LaunchVolume[] {
+    const volumes: LaunchVolume[] = [];
+    
+    for (const mapping of mappings) {
+      const ebs = mapping?.Ebs as Record<string, unknown> | undefined;
+      if (!ebs || typeof ebs !== 'object') {
+        continue; // Instance store and NoDevice mappings have no EBS cost
+      }
+      
+      volumes.push({
+        deviceName: String(mapping.DeviceName || 'volume'),
+        volumeType: String(ebs.VolumeType || 'gp2').toLowerCase(),
+        size: Number(ebs.VolumeSize) || 8,
+        iops: Number(ebs.Iops) || 3000,
+        throughput: Number(ebs.Throughput) || 125,
+      });
+    }
+    
+    if (!volumes.some(volume => ROOT_DEVICE_NAMES.has(volume.deviceName))) {
+      volumes.unshift({ deviceName: 'root, assumed', volumeType: 'gp3', size: 8, iops: 3000, throughput: 125 });
+    }
+    
+    return volumes;
+  }
+  
+  /**
+   * Calculate storage, IOPS and throughput costs for a single EBS volume
+   */
+  private calculateEbsVolumeDetails(
+    pricing: AWSpricingData,
+    context: ResolutionContext,
+    volumeType: string,
+    size: number,
+    iops: number,
+    throughput: number
+  ): CostDetail[] {
+    const pricePerGB = lookupPrice(context, `ebs.volumes.${volumeType}`, pricing.ebs.volumes[volumeType], pricing.ebs.volumes['gp3'] || 0.08, 'the gp3 price');
+    
+    const details: CostDetail[] = [{
+      component: `EBS ${volumeType.toUpperCase()} Storage`,
+      quantity: size,
+      unitPrice: pricePerGB,
+      monthlyCost: pricePerGB * size,
+      unit: 'GB/month',
+    }];
+    
+    // Add IOPS cost for io1/io2/gp3
+    if (volumeType === 'io1' || volumeType === 'io2') {
+      const iopsPrice = lookupPrice(context, `ebs.iops.${volumeType}`, pricing.ebs.iops[volumeType], 0.065);
+      details.push({
+        component: 'Provisioned IOPS',
+        quantity: iops,
+        unitPrice: iopsPrice,
+        monthlyCost: iopsPrice * iops,
+        unit: 'IOPS/month',
+      });
+    } else if (volumeType === 'gp3' && iops > 3000) {
+      const additionalIops = iops - 3000;
+      const iopsPrice = lookupPrice(context, 'ebs.iops.gp3', pricing.ebs.iops['gp3'], 0.005);
+      details.push({
+        component: 'Additional IOPS (above 3000)',
+        quantity: additionalIops,
+        unitPrice: iopsPrice,
+        monthlyCost: iopsPrice * additionalIops,
+        unit: 'IOPS/month',
+      });
+    }
+    
+    // Add throughput cost for gp3
+    if (volumeType === 'gp3' && throughput > 125) {
+      const additionalThroughput = throughput - 125;
+      const throughputPrice = lookupPrice(context, 'ebs.throughput.gp3', pricing.ebs.throughput['gp3'], 0.04);
+      details.push({
+        component: 'Additional Throughput (above 125 MBps)',
+        quantity: additionalThroughput,
+        unitPrice: throughputPrice,
+        monthlyCost: throughputPrice * additionalThroughput,
+        unit: 'MBps/month',
+      });
+    }
+    
+    return details;
+  }
+  
+  /**
+   * Price an Aurora DB instance from the aurora tables: provisioned classes
+   * by the hour, at I/O-Optimized rates in I/O-Optimized clusters, and
+   * db.serverless instances by the ACUs they run between the cluster's
+   * Serverless v2 minimum and maximum capacity
+   */
+  private calculateAuroraInstanceCost(
+    logicalId: string,
+    resource: CloudFormationResource,
+    template: CloudFormationTemplate,
+    pricing: AWSpricingData,
+    usage: ResourceUsage,
+    context: ResolutionContext,
+    clusterId?: string
+  ): ResourceCost {
+    const cluster = clusterId ? template.Resources[clusterId] : undefined;
+    const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.r6g.large', context) as string;
+    const ioOptimized = cluster ? this.isAuroraIoOptimized(template, cluster, context) : false;
+    const storageConfig = ioOptimized ? 'I/O-Optimized' : 'Standard';
+    
+    if (instanceClass === 'db.serverless') {
+      const minCapacity = cluster
+        ? parseNumber(TemplateParser.getPropertyValue(template, cluster, 'ServerlessV2ScalingConfiguration.MinCapacity', 0.5, context)) ?? 0.5
+        : 0.5;
+      const maxCapacity = cluster
+        ? parseNumber(TemplateParser.getPropertyValue(template, cluster, 'ServerlessV2ScalingConfiguration.MaxCapacity', 8, context)) ?? 8
+        : 8;
+      
+      // Capacity comes from the instance's or its cluster's usage, or else
+      // is assumed to run midway between the limits
+      const clusterUsage = clusterId ? this.usageProfile.getUsage(clusterId, 'AWS::RDS::DBCluster') : {};
+      const averageCapacity = usage.averageACU ?? clusterUsage.averageACU ?? (minCapacity + maxCapacity) / 2;
+      const acuPrice = ioOptimized
+        ? lookupPrice(context, 'aurora.ioOptimizedServerlessV2Acu', pricing.aurora?.ioOptimizedServerlessV2Acu, 0.156)
+        : lookupPrice(context, 'aurora.serverlessV2Acu', pricing.aurora?.serverlessV2Acu, 0.12);
+      const acuHours = averageCapacity * HOURS_PER_MONTH;
+      const monthlyCost = acuPrice * acuHours;
+      
+      return {
+        resourceId: logicalId,
+        resourceType: 'AWS::RDS::DBInstance',
+        monthlyCost,
+        hourlyCost: monthlyCost / HOURS_PER_MONTH,
+        unit: 'instance',
+        details: [{
+          component: `Aurora Serverless v2 (${storageConfig}, avg ${averageCapacity} ACU of ${minCapacity}-${maxCapacity})`,
+          quantity: acuHours,
+          unitPrice: acuPrice,
+          monthlyCost,
+          unit: 'ACU-hours',
+        }],
+        confidence: usage.averageACU !== undefined || clusterUsage.averageACU !== undefined ? 'medium' : 'low',
+      };
+    }
+    
+    let hourlyPrice = lookupInstancePrice(
+      context,
+      'aurora.instances',
+      pricing.aurora?.instances,
+      instanceClass,
+      pricing.aurora?.instances?.['db.r6g.large'] || 0.26,
+      'the db.r6g.large price'
+    );
+    if (ioOptimized) {
+      const ioOptimizedPrice = pricing.aurora?.ioOptimizedInstances?.[instanceClass];
+      if (!ioOptimizedPrice) {
+        context.estimatedPrices?.push(
+          `No price for aurora.ioOptimizedInstances.${instanceClass} in the pricing data; estimated ` +
+          `$${Number((hourlyPrice * AURORA_IO_OPTIMIZED_INSTANCE_FACTOR).toFixed(4))}/hour from the Standard price ($${Number(hourlyPrice.toFixed(4))}/hour)`
+        );
+      }
+      hourlyPrice = ioOptimizedPrice || hourlyPrice * AURORA_IO_OPTIMIZED_INSTANCE_FACTOR;
+    }
+    const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
+    
+    return {
+      resourceId: logicalId,
+      resourceType: 'AWS::RDS::DBInstance',
+      monthlyCost,
+      hourlyCost: hourlyPrice,
+      unit: 'instance',
+      details: [{
+        component: `Aurora ${instanceClass} (${storageConfig})`,
+        quantity: HOURS_PER_MONTH,
+        unitPrice: hourlyPrice,
+        monthlyCost,
+        unit: 'hours',
+      }],
+      confidence: 'high',
+    };
+  }
+  
+  /**
+   * Calculate an Aurora cluster's own costs: storage, I/O requests on
+   * Standard clusters, Serverless v1 capacity, backtrack change records and
+   * global database replication. Provisioned and Serverless v2 capacity is
+   * priced on the cluster's DB instances
+   */
+  private calculateAuroraClusterCost(
+    logicalId: string,
+    resource: CloudFormationResource,
+    template: CloudFormationTemplate,
+    pricing: AWSpricingData,
+    usage: ResourceUsage,
+    context: ResolutionContext
+  ): ResourceCost {
+    const engineMode = TemplateParser.getPropertyValue(template, resource, 'EngineMode', 'provisioned', context) as string;
+    const ioOptimized = this.isAuroraIoOptimized(template, resource, context);
+    const storageConfig = ioOptimized ? 'I/O-Optimized' : 'Standard';
+    const details: CostDetail[] = [];
+    
+    if (engineMode === 'serverless') {
+      // Aurora Serverless v1 - estimate based on min/max capacity
+      const minCapacity = parseNumber(TemplateParser.getPropertyValue(template, resource, 'ScalingConfiguration.MinCapacity', 2, context)) ?? 2;
+      const maxCapacity = parseNumber(TemplateParser.getPropertyValue(template, resource, 'ScalingConfiguration.MaxCapacity', 8, context)) ?? 8;
+      const averageCapacity = usage.averageACU ?? (minCapacity + maxCapacity) / 2;
+      const acuPrice = lookupPrice(context, 'aurora.serverlessAcu', pricing.aurora?.serverlessAcu, 0.06);
+      
+      details.push({
+        component: `Aurora Serverless v1 (avg ${averageCapacity} ACU of ${minCapacity}-${maxCapacity})`,
+        quantity: averageCapacity * HOURS_PER_MONTH,
+        unitPrice: acuPrice,
+        monthlyCost: acuPrice * averageCapacity * HOURS_PER_MONTH,
+        unit: 'ACU-hours',
+      });
+    } else {
+      const members = context.graph?.getDependents(logicalId, 'AWS::RDS::DBInstance', 'DBClusterIdentifier') || [];
+      details.push({
+        component: members.length > 0
+          ? `Aurora Cluster (capacity priced on ${members.length} DB instances)`
+          : 'Aurora Cluster (capacity priced on DB instances)',
+        quantity: 1,
+        unitPrice: 0,
+        monthlyCost: 0,
+        unit: 'cluster',
+      });
+    }
+    
+    const storageGB = usage.storageGB;
+    const storagePrice = ioOptimized
+      ? lookupPrice(context, 'aurora.ioOptimizedStorage', pricing.aurora?.ioOptimizedStorage, 0.225)
+      : lookupPrice(context, 'aurora.storage', pricing.aurora?.storage, 0.10);
+    details.push({
+      component: `Aurora Storage (${storageConfig}, est. ${storageGB}GB)`,
+      quantity: storageGB,
+      unitPrice: storagePrice,
+      monthlyCost: storagePrice * storageGB,
+      unit: 'GB/month',
+    });
+    
+    // I/O-Optimized clusters include I/O in their instance and storage prices
+    if (!ioOptimized) {
+      const ioRequests = usage.monthlyIORequests;
+      const ioPrice = lookupPrice(context, 'aurora.ioRequests', pricing.aurora?.ioRequests, 0.20);
+      details.push({
+        component: `Aurora I/O (est. ${formatUsageCount(ioRequests)} requests/mo)`,
+        quantity: ioRequests,
+        unitPrice: ioPrice / 1000000,
+        monthlyCost: (ioRequests / 1000000) * ioPrice,
+        unit: 'requests',
+      });
+    }
+    
+    const backtrackWindow = TemplateParser.getPropertyValue(template, resource, 'BacktrackWindow', 0, context) as number;
+    if (backtrackWindow > 0) {
+      // Change records are billed for every hour they are kept for the backtrack window
+      const changeRecords = usage.backtrackChangeRecords;
+      const backtrackPrice = lookupPrice(context, 'aurora.backtrackChanges', pricing.aurora?.backtrackChanges, 0.012);
+      details.push({
+        component: `Aurora Backtrack (${backtrackWindow}s window, est. ${formatUsageCount(changeRecords)} change records)`,
+        quantity: (changeRecords / 1000000) * HOURS_PER_MONTH,
+        unitPrice: backtrackPrice,
+        monthlyCost: (changeRecords / 1000000) * HOURS_PER_MONTH * backtrackPrice,
+        unit: 'million records-hours',
+      });
+    }
+    
+    if (TemplateParser.getPropertyValue(template, resource, 'GlobalClusterIdentifier', undefined, context) !== undefined) {
+      const replicatedWrites = usage.monthlyReplicatedWriteIOs;
+      const replicationPrice = lookupPrice(context, 'aurora.replicatedWriteIOs', pricing.aurora?.replicatedWriteIOs, 0.20);
+      details.push({
+        component: `Global Database Replicated Writes (est. ${formatUsageCount(replicatedWrites)}/mo)`,
+        quantity: replicatedWrites,
+        unitPrice: replicationPrice / 1000000,
+        monthlyCost: (replicatedWrites / 1000000) * replicationPrice,
+        unit: 'write I/Os',
+      });
+    }
+    
+    const monthlyCost = details.reduce((sum, detail) => sum + detail.monthlyCost, 0);
+    return {
+      resourceId: logicalId,
+      resourceType: 'AWS::RDS::DBCluster',
+      monthlyCost,
+      hourlyCost: monthlyCost / HOURS_PER_MONTH,
+      unit: 'cluster',
+      details,
+      confidence: 'low',
+    };
+  }
+  
+  /**
+   * Check whether an Aurora cluster uses the I/O-Optimized storage configuration
+   */
+  private isAuroraIoOptimized(template: CloudFormationTemplate, cluster: CloudFormationResource, context: ResolutionContext): boolean {
+    const storageType = TemplateParser.getPropertyValue(template, cluster, 'StorageType', 'aurora', context) as string;
+    return storageType.toLowerCase() === 'aurora-iopt1';
+  }
+  
+  /**
+   * Lower confidence to low for estimates that fell back to defaults because
+   * a property (e.g. an instance type from another stack) couldn't be resolved
+   */
+  private applyUnresolvedProperties(cost: ResourceCost, context: ResolutionContext): ResourceCost {
+    const unresolved = [...new Set(context.unresolvedProperties || [])];
+    if (unresolved.length === 0) {
+      return cost;
+    }
+    return { ...cost, confidence: 'low', unresolvedProperties: unresolved };
+  }
+  
+  /**
+   * Lower confidence to medium for estimates with instance prices inferred
+   * from other sizes of the same family
+   */
+  private applyEstimatedPrices(cost: ResourceCost, context: ResolutionContext): ResourceCost {
+    const estimated = [...new Set(context.estimatedPrices || [])];
+    if (estimated.length === 0) {
+      return cost;
+    }
+    return { ...cost, confidence: cost.confidence === 'high' ? 'medium' : cost.confidence, estimatedPrices: estimated };
+  }
+  
+  /**
+   * Lower confidence to low for estimates priced with a default because the
+   * pricing data has no price for the resource (e.g. an unlisted instance type)
+   */
+  private applyPriceWarnings(cost: ResourceCost, context: ResolutionContext): ResourceCost {
+    const missing = [...new Set(context.missingPrices || [])];
+    if (missing.length === 0) {
+      return cost;
+    }
+    return { ...cost, confidence: 'low', warnings: [...(cost.warnings || []), ...missing] };
+  }
+  
   /**
    * Calculate cost for usage-based resources with default assumptions
    */
   private calculateUsageBasedResource(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost | null {
     const resourceType = resource.Type;
     
     switch (resourceType) {
       case 'AWS::Lambda::Function':
-        return this.calculateLambdaCost(logicalId, resource, template);
+        return this.calculateLambdaCost(logicalId, resource, template, usage, context);
       case 'AWS::DynamoDB::Table':
-        return this.calculateDynamoDBCost(logicalId, resource, template);
+        return this.calculateDynamoDBCost(logicalId, resource, template, usage, context);
       case 'AWS::S3::Bucket':
-        return this.calculateS3Cost(logicalId, resource, template);
+        return this.calculateS3Cost(logicalId, resource, template, usage, context);
       case 'AWS::SQS::Queue':
-        return this.calculateSQSCost(logicalId, resource, template);
+        return this.calculateSQSCost(logicalId, resource, template, usage, context);
       case 'AWS::ApiGateway::RestApi':
       case 'AWS::ApiGatewayV2::Api':
-        return this.calculateApiGatewayCost(logicalId, resource, template);
+        return this.calculateApiGatewayCost(logicalId, resource, template, usage, context);
       case 'AWS::StepFunctions::StateMachine':
-        return this.calculateStepFunctionsCost(logicalId, resource, template);
+        return this.calculateStepFunctionsCost(logicalId, resource, template, usage, context);
       case 'AWS::SNS::Topic':
-        return this.calculateSNSCost(logicalId, resource, template);
+        return this.calculateSNSCost(logicalId, resource, template, usage, context);
       case 'AWS::Logs::LogGroup':
-        return this.calculateCloudWatchLogsCost(logicalId, resource, template);
+        return this.calculateCloudWatchLogsCost(logicalId, resource, template, usage, context);
       case 'AWS::SSM::Parameter':
-        return this.calculateSSMParameterCost(logicalId, resource, template);
+        return this.calculateSSMParameterCost(logicalId, resource, template, usage, context);
       case 'AWS::ECR::Repository':
-        return this.calculateECRCost(logicalId, resource, template);
+        return this.calculateECRCost(logicalId, resource, template, usage, context);
       case 'AWS::Route53::RecordSet':
-        return this.calculateRoute53RecordSetCost(logicalId, resource, template);
+        return this.calculateRoute53RecordSetCost(logicalId, resource, template, usage, context);
       default:
         return null;
     }
@@ -169,9 +950,9 @@ export class CostCalculator {
     const calculators = new Map<string, ResourceCostCalculator>();
     
     // EC2 Instance
-    calculators.set('AWS::EC2::Instance', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'InstanceType', 't3.micro') as string;
-      const hourlyPrice = pricing.ec2.instances[instanceType] || pricing.ec2.instances['t3.micro'] || 0.0104;
+    calculators.set('AWS::EC2::Instance', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'InstanceType', 't3.micro', context) as string;
+      const hourlyPrice = lookupInstancePrice(context, 'ec2.instances', pricing.ec2.instances, instanceType, pricing.ec2.instances['t3.micro'] || 0.0104, 'the t3.micro price');
       
       return {
         resourceId: logicalId,
@@ -191,95 +972,88 @@ export class CostCalculator {
     });
     
     // Auto Scaling Group
-    calculators.set('AWS::AutoScaling::AutoScalingGroup', (logicalId, resource, template, pricing) => {
-      const minSize = TemplateParser.getPropertyValue(template, resource, 'MinSize', 1) as number;
-      const maxSize = TemplateParser.getPropertyValue(template, resource, 'MaxSize', 1) as number;
-      const desiredCapacity = TemplateParser.getPropertyValue(template, resource, 'DesiredCapacity', minSize) as number;
-      
-      // Try to get instance type from launch template or launch config
-      let instanceType = 't3.micro';
-      const launchTemplate = resource.Properties?.LaunchTemplate as Record<string, unknown> | undefined;
-      const launchConfig = resource.Properties?.LaunchConfigurationName;
+    calculators.set('AWS::AutoScaling::AutoScalingGroup', (logicalId, resource, template, pricing, usage, context) => {
+      const minSize = TemplateParser.getPropertyValue(template, resource, 'MinSize', 1, context) as number;
+      const maxSize = TemplateParser.getPropertyValue(template, resource, 'MaxSize', 1, context) as number;
+      const desiredCapacity = TemplateParser.getPropertyValue(template, resource, 'DesiredCapacity', minSize, context) as number;
       
       // Use desired capacity as the baseline for estimation
-      const instanceCount = typeof desiredCapacity === 'number' ? desiredCapacity : minSize;
-      const hourlyPrice = pricing.ec2.instances[instanceType] || pricing.ec2.instances['t3.micro'] || 0.0104;
+      const capacity = Number.isNaN(Number(desiredCapacity)) ? Number(minSize) : Number(desiredCapacity);
+      
+      // Get instance type and volumes from the launch template or launch config
+      const launchSpec = this.resolveLaunchSpec(template, resource, context);
+      
+      // MixedInstancesPolicy overrides launch a mix of types, each counting
+      // for WeightedCapacity units of the desired capacity
+      const overrides = (TemplateParser.getPropertyValue(
+        template, resource, 'MixedInstancesPolicy.LaunchTemplate.Overrides', [], context
+      ) as Array<Record<string, unknown>>).filter(override => typeof override?.InstanceType === 'string');
+      
+      const instanceTypes = overrides.length > 0
+        ? overrides.map(override => ({
+            instanceType: override.InstanceType as string,
+            weight: Number(override.WeightedCapacity) || 1,
+          }))
+        : [{ instanceType: launchSpec?.instanceType || 't3.micro', weight: 1 }];
+      
+      // Assume capacity is spread evenly across the override instance types
+      const capacityPerType = capacity / instanceTypes.length;
+      const details: CostDetail[] = [];
+      let instanceCount = 0;
+      
+      for (const { instanceType, weight } of instanceTypes) {
+        const hourlyPrice = lookupInstancePrice(context, 'ec2.instances', pricing.ec2.instances, instanceType, pricing.ec2.instances['t3.micro'] || 0.0104, 'the t3.micro price');
+        const count = capacityPerType / weight;
+        instanceCount += count;
+        
+        details.push({
+          component: overrides.length > 0
+            ? `ASG ${instanceType} (weight ${weight})`
+            : `ASG (${count} x ${instanceType})`,
+          quantity: count,
+          unitPrice: hourlyPrice * HOURS_PER_MONTH,
+          monthlyCost: hourlyPrice * HOURS_PER_MONTH * count,
+          unit: 'instance/month',
+        });
+      }
+      
+      // EBS volumes are attached to every instance
+      for (const volume of launchSpec?.volumes || []) {
+        const volumeDetails = this.calculateEbsVolumeDetails(
+          pricing, context, volume.volumeType, volume.size, volume.iops, volume.throughput
+        );
+        for (const detail of volumeDetails) {
+          details.push({
+            ...detail,
+            component: `${detail.component} (${volume.deviceName})`,
+            quantity: detail.quantity * instanceCount,
+            monthlyCost: detail.monthlyCost * instanceCount,
+          });
+        }
+      }
+      
+      const monthlyCost = details.reduce((sum, d) => sum + d.monthlyCost, 0);
       
       return {
         resourceId: logicalId,
         resourceType: 'AWS::AutoScaling::AutoScalingGroup',
-        monthlyCost: hourlyPrice * HOURS_PER_MONTH * instanceCount,
-        hourlyCost: hourlyPrice * instanceCount,
+        monthlyCost,
+        hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'instances',
-        details: [{
-          component: `ASG (${instanceCount} x ${instanceType})`,
-          quantity: instanceCount,
-          unitPrice: hourlyPrice * HOURS_PER_MONTH,
-          monthlyCost: hourlyPrice * HOURS_PER_MONTH * instanceCount,
-          unit: 'instance/month',
-        }],
-        confidence: launchTemplate || launchConfig ? 'medium' : 'low',
+        details,
+        confidence: launchSpec?.instanceType || overrides.length > 0 ? 'medium' : 'low',
       };
     });
     
     // EBS Volume
-    calculators.set('AWS::EC2::Volume', (logicalId, resource, template, pricing) => {
-      const volumeType = (TemplateParser.getPropertyValue(template, resource, 'VolumeType', 'gp3') as string).toLowerCase();
-      const size = TemplateParser.getPropertyValue(template, resource, 'Size', 100) as number;
-      const iops = TemplateParser.getPropertyValue(template, resource, 'Iops', 3000) as number;
-      const throughput = TemplateParser.getPropertyValue(template, resource, 'Throughput', 125) as number;
+    calculators.set('AWS::EC2::Volume', (logicalId, resource, template, pricing, usage, context) => {
+      const volumeType = (TemplateParser.getPropertyValue(template, resource, 'VolumeType', 'gp3', context) as string).toLowerCase();
+      const size = TemplateParser.getPropertyValue(template, resource, 'Size', 100, context) as number;
+      const iops = TemplateParser.getPropertyValue(template, resource, 'Iops', 3000, context) as number;
+      const throughput = TemplateParser.getPropertyValue(template, resource, 'Throughput', 125, context) as number;
       
-      const pricePerGB = pricing.ebs.volumes[volumeType] || pricing.ebs.volumes['gp3'] || 0.08;
-      let monthlyCost = pricePerGB * size;
-      
-      const details: CostDetail[] = [{
-        component: `EBS ${volumeType.toUpperCase()} Storage`,
-        quantity: size,
-        unitPrice: pricePerGB,
-        monthlyCost: pricePerGB * size,
-        unit: 'GB/month',
-      }];
-      
-      // Add IOPS cost for io1/io2/gp3
-      if (volumeType === 'io1' || volumeType === 'io2') {
-        const iopsPrice = pricing.ebs.iops[volumeType] || 0.065;
-        const iopsCost = iopsPrice * iops;
-        monthlyCost += iopsCost;
-        details.push({
-          component: 'Provisioned IOPS',
-          quantity: iops,
-          unitPrice: iopsPrice,
-          monthlyCost: iopsCost,
-          unit: 'IOPS/month',
-        });
-      } else if (volumeType === 'gp3' && iops > 3000) {
-        const additionalIops = iops - 3000;
-        const iopsPrice = pricing.ebs.iops['gp3'] || 0.005;
-        const iopsCost = iopsPrice * additionalIops;
-        monthlyCost += iopsCost;
-        details.push({
-          component: 'Additional IOPS (above 3000)',
-          quantity: additionalIops,
-          unitPrice: iopsPrice,
-          monthlyCost: iopsCost,
-          unit: 'IOPS/month',
-        });
-      }
-      
-      // Add throughput cost for gp3
-      if (volumeType === 'gp3' && throughput > 125) {
-        const additionalThroughput = throughput - 125;
-        const throughputPrice = pricing.ebs.throughput['gp3'] || 0.04;
-        const throughputCost = throughputPrice * additionalThroughput;
-        monthlyCost += throughputCost;
-        details.push({
-          component: 'Additional Throughput (above 125 MBps)',
-          quantity: additionalThroughput,
-          unitPrice: throughputPrice,
-          monthlyCost: throughputCost,
-          unit: 'MBps/month',
-        });
-      }
+      const details = this.calculateEbsVolumeDetails(pricing, context, volumeType, size, iops, throughput);
+      const monthlyCost = details.reduce((sum, d) => sum + d.monthlyCost, 0);
       
       return {
         resourceId: logicalId,
@@ -293,23 +1067,37 @@ export class CostCalculator {
     });
     
     // RDS Instance
-    calculators.set('AWS::RDS::DBInstance', (logicalId, resource, template, pricing) => {
-      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.t3.micro') as string;
-      const allocatedStorage = TemplateParser.getPropertyValue(template, resource, 'AllocatedStorage', 20) as number;
-      const multiAZ = TemplateParser.getPropertyValue(template, resource, 'MultiAZ', false) as boolean;
-      const storageType = (TemplateParser.getPropertyValue(template, resource, 'StorageType', 'gp2') as string).toLowerCase();
-      const engine = (TemplateParser.getPropertyValue(template, resource, 'Engine', 'mysql') as string).toLowerCase();
-      
-      // Find hourly price from pricing data
-      let hourlyPrice = 0.017; // default
-      const enginePricing = pricing.rds.instances[engine] || pricing.rds.instances['mysql'];
-      if (enginePricing) {
-        hourlyPrice = enginePricing[instanceClass] || enginePricing['db.t3.micro'] || 0.017;
+    calculators.set('AWS::RDS::DBInstance', (logicalId, resource, template, pricing, usage, context) => {
+      // Aurora instances take their engine and storage configuration from their cluster
+      const clusterId = context.graph?.getReferencedResource(logicalId, 'DBClusterIdentifier');
+      const cluster = clusterId ? template.Resources[clusterId] : undefined;
+      const clusterEngine = cluster ? TemplateParser.getPropertyValue(template, cluster, 'Engine', undefined, context) : undefined;
+      const engine = (TemplateParser.getPropertyValue(template, resource, 'Engine', clusterEngine ?? 'mysql', context) as string).toLowerCase();
+      
+      if (engine.startsWith('aurora')) {
+        return this.calculateAuroraInstanceCost(logicalId, resource, template, pricing, usage, context, clusterId);
       }
       
+      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.t3.micro', context) as string;
+      const allocatedStorage = TemplateParser.getPropertyValue(template, resource, 'AllocatedStorage', 20, context) as number;
+      const multiAZ = TemplateParser.getPropertyValue(template, resource, 'MultiAZ', false, context) as boolean;
+      const storageType = (TemplateParser.getPropertyValue(template, resource, 'StorageType', 'gp2', context) as string).toLowerCase();
+      
+      // Find hourly price from pricing data, using MySQL prices for unlisted engines
+      const engineKey = RDS_ENGINE_PRICING_KEYS[engine] || engine;
+      const enginePricing = pricing.rds.instances[engineKey] || pricing.rds.instances['mysql'] || {};
+      const hourlyPrice = lookupInstancePrice(
+        context,
+        `rds.instances.${engineKey}`,
+        pricing.rds.instances[engineKey],
+        instanceClass,
+        enginePricing[instanceClass] || enginePricing['db.t3.micro'] || 0.017,
+        'the closest MySQL or db.t3.micro price'
+      );
+      
       const instanceCost = hourlyPrice * HOURS_PER_MONTH * (multiAZ ? 2 : 1);
       
-      const storagePrice = pricing.rds.storage[storageType] || pricing.rds.storage['gp2'] || 0.115;
+      const storagePrice = lookupPrice(context, `rds.storage.${storageType}`, pricing.rds.storage[storageType], pricing.rds.storage['gp2'] || 0.115, 'the gp2 price');
       const storageCost = storagePrice * allocatedStorage * (multiAZ ? 2 : 1);
       
       const details: CostDetail[] = [
@@ -341,36 +1129,14 @@ export class CostCalculator {
     });
     
     // RDS Cluster (Aurora)
-    calculators.set('AWS::RDS::DBCluster', (logicalId, resource, template, pricing) => {
-      const engineMode = TemplateParser.getPropertyValue(template, resource, 'EngineMode', 'provisioned') as string;
-      
-      if (engineMode === 'serverless') {
-        // Aurora Serverless v1 - estimate based on min/max capacity
-        const minCapacity = TemplateParser.getPropertyValue(template, resource, 'ScalingConfiguration.MinCapacity', 2) as number;
-        const maxCapacity = TemplateParser.getPropertyValue(template, resource, 'ScalingConfiguration.MaxCapacity', 8) as number;
-        
-        const avgCapacity = (minCapacity + maxCapacity) / 2;
-        const acuPrice = 0.06; // per ACU-hour
-        const monthlyCost = acuPrice * avgCapacity * HOURS_PER_MONTH;
-        
-        return {
-          resourceId: logicalId,
-          resourceType: 'AWS::RDS::DBCluster',
-          monthlyCost,
-          hourlyCost: monthlyCost / HOURS_PER_MONTH,
-          unit: 'cluster',
-          details: [{
-            component: `Aurora Serverless (avg ${avgCapacity} ACU)`,
-            quantity: avgCapacity,
-            unitPrice: acuPrice * HOURS_PER_MONTH,
-            monthlyCost,
-            unit: 'ACU/month',
-          }],
-          confidence: 'medium',
-        };
+    calculators.set('AWS::RDS::DBCluster', (logicalId, resource, template, pricing, usage, context) => {
+      const engine = (TemplateParser.getPropertyValue(template, resource, 'Engine', 'aurora-mysql', context) as string).toLowerCase();
+      if (engine.startsWith('aurora')) {
+        return this.calculateAuroraClusterCost(logicalId, resource, template, pricing, usage, context);
       }
       
-      // Provisioned Aurora - cost is from DB instances, cluster itself is free
+      // Multi-AZ DB clusters of other engines - cost is from DB instances
+      const members = context.graph?.getDependents(logicalId, 'AWS::RDS::DBInstance', 'DBClusterIdentifier') || [];
       return {
         resourceId: logicalId,
         resourceType: 'AWS::RDS::DBCluster',
@@ -378,7 +1144,9 @@ export class CostCalculator {
         hourlyCost: 0,
         unit: 'cluster',
         details: [{
-          component: 'Aurora Cluster (cost in DB instances)',
+          component: members.length > 0
+            ? `DB Cluster (cost in ${members.length} DB instances)`
+            : 'DB Cluster (cost in DB instances)',
           quantity: 1,
           unitPrice: 0,
           monthlyCost: 0,
@@ -389,11 +1157,11 @@ export class CostCalculator {
     });
     
     // ElastiCache Cluster
-    calculators.set('AWS::ElastiCache::CacheCluster', (logicalId, resource, template, pricing) => {
-      const nodeType = TemplateParser.getPropertyValue(template, resource, 'CacheNodeType', 'cache.t3.micro') as string;
-      const numNodes = TemplateParser.getPropertyValue(template, resource, 'NumCacheNodes', 1) as number;
+    calculators.set('AWS::ElastiCache::CacheCluster', (logicalId, resource, template, pricing, usage, context) => {
+      const nodeType = TemplateParser.getPropertyValue(template, resource, 'CacheNodeType', 'cache.t3.micro', context) as string;
+      const numNodes = TemplateParser.getPropertyValue(template, resource, 'NumCacheNodes', 1, context) as number;
       
-      const hourlyPrice = pricing.elasticache.nodes[nodeType] || pricing.elasticache.nodes['cache.t3.micro'] || 0.017;
+      const hourlyPrice = lookupInstancePrice(context, 'elasticache.nodes', pricing.elasticache.nodes, nodeType, pricing.elasticache.nodes['cache.t3.micro'] || 0.017, 'the cache.t3.micro price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * numNodes;
       
       return {
@@ -414,13 +1182,13 @@ export class CostCalculator {
     });
     
     // ElastiCache Replication Group
-    calculators.set('AWS::ElastiCache::ReplicationGroup', (logicalId, resource, template, pricing) => {
-      const nodeType = TemplateParser.getPropertyValue(template, resource, 'CacheNodeType', 'cache.t3.micro') as string;
-      const numNodeGroups = TemplateParser.getPropertyValue(template, resource, 'NumNodeGroups', 1) as number;
-      const replicasPerNodeGroup = TemplateParser.getPropertyValue(template, resource, 'ReplicasPerNodeGroup', 1) as number;
+    calculators.set('AWS::ElastiCache::ReplicationGroup', (logicalId, resource, template, pricing, usage, context) => {
+      const nodeType = TemplateParser.getPropertyValue(template, resource, 'CacheNodeType', 'cache.t3.micro', context) as string;
+      const numNodeGroups = TemplateParser.getPropertyValue(template, resource, 'NumNodeGroups', 1, context) as number;
+      const replicasPerNodeGroup = TemplateParser.getPropertyValue(template, resource, 'ReplicasPerNodeGroup', 1, context) as number;
       
       const totalNodes = numNodeGroups * (1 + replicasPerNodeGroup);
-      const hourlyPrice = pricing.elasticache.nodes[nodeType] || pricing.elasticache.nodes['cache.t3.micro'] || 0.017;
+      const hourlyPrice = lookupInstancePrice(context, 'elasticache.nodes', pricing.elasticache.nodes, nodeType, pricing.elasticache.nodes['cache.t3.micro'] || 0.017, 'the cache.t3.micro price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * totalNodes;
       
       return {
@@ -441,13 +1209,13 @@ export class CostCalculator {
     });
     
     // NAT Gateway
-    calculators.set('AWS::EC2::NatGateway', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.natGateway.hourly || 0.045;
+    calculators.set('AWS::EC2::NatGateway', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'natGateway.hourly', pricing.natGateway.hourly, 0.045);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
-      // Add estimated data processing cost (assume 100GB/month)
-      const estimatedDataGB = 100;
-      const dataPrice = pricing.natGateway.perGB || 0.045;
+      // Add estimated data processing cost
+      const estimatedDataGB = usage.monthlyDataProcessedGB;
+      const dataPrice = lookupPrice(context, 'natGateway.perGB', pricing.natGateway.perGB, 0.045);
       const dataProcessingCost = dataPrice * estimatedDataGB;
       
       return {
@@ -465,7 +1233,7 @@ export class CostCalculator {
             unit: 'hours',
           },
           {
-            component: 'Data Processing (est. 100GB)',
+            component: `Data Processing (est. ${estimatedDataGB}GB)`,
             quantity: estimatedDataGB,
             unitPrice: dataPrice,
             monthlyCost: dataProcessingCost,
@@ -477,18 +1245,19 @@ export class CostCalculator {
     });
     
     // Application Load Balancer
-    calculators.set('AWS::ElasticLoadBalancingV2::LoadBalancer', (logicalId, resource, template, pricing) => {
-      const type = TemplateParser.getPropertyValue(template, resource, 'Type', 'application') as string;
+    calculators.set('AWS::ElasticLoadBalancingV2::LoadBalancer', (logicalId, resource, template, pricing, usage, context) => {
+      const type = TemplateParser.getPropertyValue(template, resource, 'Type', 'application', context) as string;
       
       const isNLB = type.toLowerCase() === 'network';
-      const lbPricing = isNLB ? pricing.loadBalancer.nlb : pricing.loadBalancer.alb;
+      const lbKey = isNLB ? 'nlb' : 'alb';
+      const lbPricing = pricing.loadBalancer[lbKey];
       
-      const hourlyPrice = lbPricing.hourly || 0.0225;
-      const lcuHourlyPrice = lbPricing.lcuHourly || 0.008;
+      const hourlyPrice = lookupPrice(context, `loadBalancer.${lbKey}.hourly`, lbPricing.hourly, 0.0225);
+      const lcuHourlyPrice = lookupPrice(context, `loadBalancer.${lbKey}.lcuHourly`, lbPricing.lcuHourly, 0.008);
       const baseMonthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
-      // Estimate LCU cost (assume 10 LCU average)
-      const estimatedLCU = 10;
+      // Estimate LCU cost from average LCU consumption
+      const estimatedLCU = usage.averageLCU;
       const lcuCost = lcuHourlyPrice * HOURS_PER_MONTH * estimatedLCU;
       
       return {
@@ -506,7 +1275,7 @@ export class CostCalculator {
             unit: 'hours',
           },
           {
-            component: 'LCU (est. 10 avg)',
+            component: `LCU (est. ${estimatedLCU} avg)`,
             quantity: estimatedLCU * HOURS_PER_MONTH,
             unitPrice: lcuHourlyPrice,
             monthlyCost: lcuCost,
@@ -518,8 +1287,8 @@ export class CostCalculator {
     });
     
     // Classic Load Balancer
-    calculators.set('AWS::ElasticLoadBalancing::LoadBalancer', (logicalId, resource, template, pricing) => {
-      const elbHourlyPrice = pricing.loadBalancer.clb.hourly || 0.025;
+    calculators.set('AWS::ElasticLoadBalancing::LoadBalancer', (logicalId, resource, template, pricing, usage, context) => {
+      const elbHourlyPrice = lookupPrice(context, 'loadBalancer.clb.hourly', pricing.loadBalancer.clb.hourly, 0.025);
       const monthlyCost = elbHourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -540,11 +1309,39 @@ export class CostCalculator {
     });
     
     // ECS Cluster (Fargate)
-    calculators.set('AWS::ECS::Service', (logicalId, resource, template, pricing) => {
-      const desiredCount = TemplateParser.getPropertyValue(template, resource, 'DesiredCount', 1) as number;
-      const launchType = TemplateParser.getPropertyValue(template, resource, 'LaunchType', 'FARGATE') as string;
+    calculators.set('AWS::ECS::Service', (logicalId, resource, template, pricing, usage, context) => {
+      const desiredCount = Number(TemplateParser.getPropertyValue(template, resource, 'DesiredCount', 1, context));
+      const launchType = TemplateParser.getPropertyValue(template, resource, 'LaunchType', undefined, context) as string | undefined;
+      const strategy = TemplateParser.getPropertyValue(
+        template, resource, 'CapacityProviderStrategy', [], context
+      ) as Array<Record<string, unknown>>;
+      
+      // Split tasks across capacity providers: Base tasks first, the rest by Weight
+      let fargateTasks = 0;
+      let spotTasks = 0;
+      if (strategy.length > 0) {
+        let remaining = desiredCount;
+        const assign = (provider: unknown, tasks: number) => {
+          if (provider === 'FARGATE') fargateTasks += tasks;
+          if (provider === 'FARGATE_SPOT') spotTasks += tasks;
+        };
+        
+        for (const item of strategy) {
+          const base = Math.min(Number(item.Base) || 0, remaining);
+          assign(item.CapacityProvider, base);
+          remaining -= base;
+        }
+        
+        const totalWeight = strategy.reduce((sum, item) => sum + (Number(item.Weight) || 0), 0);
+        for (const item of strategy) {
+          const share = totalWeight > 0 ? (Number(item.Weight) || 0) / totalWeight : 1 / strategy.length;
+          assign(item.CapacityProvider, remaining * share);
+        }
+      } else if (!launchType || launchType === 'FARGATE') {
+        fargateTasks = desiredCount;
+      }
       
-      if (launchType !== 'FARGATE') {
+      if (fargateTasks === 0 && spotTasks === 0) {
         // EC2 launch type - cost is in EC2 instances
         return {
           resourceId: logicalId,
@@ -563,42 +1360,76 @@ export class CostCalculator {
         };
       }
       
-      // Estimate Fargate cost (assume 0.5 vCPU, 1GB memory)
-      const vcpuHourly = pricing.fargate.vcpuHourly || 0.04048;
-      const memoryHourly = pricing.fargate.memoryGBHourly || 0.004445;
-      const vcpuCost = vcpuHourly * 0.5 * HOURS_PER_MONTH;
-      const memoryCost = memoryHourly * 1 * HOURS_PER_MONTH;
-      const perTaskCost = vcpuCost + memoryCost;
+      // Size tasks from the referenced task definition (assume 0.5 vCPU, 1GB memory otherwise)
+      const taskDefinitionId = context.graph?.getReferencedResource(logicalId, 'TaskDefinition');
+      const taskDefinition = taskDefinitionId ? template.Resources[taskDefinitionId] : undefined;
+      const taskProperty = (propertyPath: string, defaultValue?: unknown) => taskDefinition
+        ? TemplateParser.getPropertyValue(template, taskDefinition, propertyPath, defaultValue, context)
+        : undefined;
+      
+      const taskVcpu = parseTaskCpu(taskProperty('Cpu'));
+      const taskMemoryGB = parseTaskMemory(taskProperty('Memory'));
+      const architecture = taskProperty('RuntimePlatform.CpuArchitecture', 'X86_64');
+      const ephemeralStorage = taskProperty('EphemeralStorage.SizeInGiB', 20);
+      
+      const vcpu = taskVcpu ?? 0.5;
+      const memoryGB = taskMemoryGB ?? 1;
+      const isArm = String(architecture).toUpperCase() === 'ARM64';
+      const extraStorageGB = Math.max(0, (Number(ephemeralStorage) || 20) - 20);
+      
+      // ARM (Graviton) Fargate is ~20% cheaper; Spot is up to 70% off on-demand
+      const fargate = pricing.fargate;
+      const vcpuHourly = lookupPrice(context, 'fargate.vcpuHourly', fargate.vcpuHourly, 0.04048);
+      const memoryHourly = lookupPrice(context, 'fargate.memoryGBHourly', fargate.memoryGBHourly, 0.004445);
+      const rates = {
+        vcpu: isArm ? lookupPrice(context, 'fargate.armVcpuHourly', fargate.armVcpuHourly, vcpuHourly * 0.8, 'the x86 price less 20%') : vcpuHourly,
+        memory: isArm ? lookupPrice(context, 'fargate.armMemoryGBHourly', fargate.armMemoryGBHourly, memoryHourly * 0.8, 'the x86 price less 20%') : memoryHourly,
+        spotVcpu: spotTasks > 0 ? lookupPrice(context, 'fargate.spotVcpuHourly', fargate.spotVcpuHourly, vcpuHourly * 0.3, 'the On-Demand price less 70%') : 0,
+        spotMemory: spotTasks > 0 ? lookupPrice(context, 'fargate.spotMemoryGBHourly', fargate.spotMemoryGBHourly, memoryHourly * 0.3, 'the On-Demand price less 70%') : 0,
+        storage: extraStorageGB > 0 ? lookupPrice(context, 'fargate.ephemeralStorageGBHourly', fargate.ephemeralStorageGBHourly, 0.000111) : 0,
+      };
+      
+      const archLabel = isArm ? ', ARM' : '';
+      const estLabel = taskVcpu === undefined || taskMemoryGB === undefined ? ' est.' : '';
+      const details: CostDetail[] = [];
+      const addTaskCost = (component: string, tasks: number, hourlyPerTask: number) => {
+        if (tasks <= 0 || hourlyPerTask <= 0) return;
+        const perTaskCost = hourlyPerTask * HOURS_PER_MONTH;
+        details.push({
+          component,
+          quantity: tasks,
+          unitPrice: perTaskCost,
+          monthlyCost: perTaskCost * tasks,
+          unit: 'task/month',
+        });
+      };
+      
+      addTaskCost(`Fargate vCPU (${vcpu} vCPU${archLabel}${estLabel})`, fargateTasks, rates.vcpu * vcpu);
+      addTaskCost(`Fargate Memory (${memoryGB}GB${archLabel}${estLabel})`, fargateTasks, rates.memory * memoryGB);
+      addTaskCost(`Fargate Spot vCPU (${vcpu} vCPU${estLabel})`, spotTasks, rates.spotVcpu * vcpu);
+      addTaskCost(`Fargate Spot Memory (${memoryGB}GB${estLabel})`, spotTasks, rates.spotMemory * memoryGB);
+      addTaskCost(`Fargate Ephemeral Storage (${extraStorageGB}GB above 20GB)`, fargateTasks + spotTasks, rates.storage * extraStorageGB);
+      
+      const monthlyCost = details.reduce((sum, d) => sum + d.monthlyCost, 0);
+      
+      // High confidence only when the task size resolved from the task definition
+      // (unresolved architecture or storage lowers it to low via unresolvedProperties)
+      const resolved = taskVcpu !== undefined && taskMemoryGB !== undefined;
       
       return {
         resourceId: logicalId,
         resourceType: 'AWS::ECS::Service',
-        monthlyCost: perTaskCost * desiredCount,
-        hourlyCost: (perTaskCost / HOURS_PER_MONTH) * desiredCount,
+        monthlyCost,
+        hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'service',
-        details: [
-          {
-            component: 'Fargate vCPU (0.5 vCPU est.)',
-            quantity: desiredCount,
-            unitPrice: vcpuCost,
-            monthlyCost: vcpuCost * desiredCount,
-            unit: 'task/month',
-          },
-          {
-            component: 'Fargate Memory (1GB est.)',
-            quantity: desiredCount,
-            unitPrice: memoryCost,
-            monthlyCost: memoryCost * desiredCount,
-            unit: 'task/month',
-          },
-        ],
-        confidence: 'low',
+        details,
+        confidence: resolved ? 'high' : taskDefinition ? 'medium' : 'low',
       };
     });
     
     // EKS Cluster
-    calculators.set('AWS::EKS::Cluster', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.eks.clusterHourly || 0.10;
+    calculators.set('AWS::EKS::Cluster', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'eks.clusterHourly', pricing.eks.clusterHourly, 0.10);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -619,8 +1450,8 @@ export class CostCalculator {
     });
     
     // Secrets Manager
-    calculators.set('AWS::SecretsManager::Secret', (logicalId, resource, template, pricing) => {
-      const secretPrice = pricing.other?.secretsManager?.secret || 0.40;
+    calculators.set('AWS::SecretsManager::Secret', (logicalId, resource, template, pricing, usage, context) => {
+      const secretPrice = lookupPrice(context, 'secretsManager.secret', pricing.secretsManager?.secret, 0.40);
       const monthlyCost = secretPrice;
       
       return {
@@ -641,8 +1472,8 @@ export class CostCalculator {
     });
     
     // KMS Key
-    calculators.set('AWS::KMS::Key', (logicalId, resource, template, pricing) => {
-      const keyPrice = pricing.other?.kms?.key || 1.00;
+    calculators.set('AWS::KMS::Key', (logicalId, resource, template, pricing, usage, context) => {
+      const keyPrice = lookupPrice(context, 'kms.key', pricing.kms?.key, 1.00);
       const monthlyCost = keyPrice;
       
       return {
@@ -663,8 +1494,8 @@ export class CostCalculator {
     });
     
     // Route53 Hosted Zone
-    calculators.set('AWS::Route53::HostedZone', (logicalId, resource, template, pricing) => {
-      const zonePrice = pricing.other?.route53?.hostedZone || 0.50;
+    calculators.set('AWS::Route53::HostedZone', (logicalId, resource, template, pricing, usage, context) => {
+      const zonePrice = lookupPrice(context, 'route53.hostedZone', pricing.route53?.hostedZone, 0.50);
       const monthlyCost = zonePrice;
       
       return {
@@ -685,8 +1516,8 @@ export class CostCalculator {
     });
     
     // CloudWatch Alarm
-    calculators.set('AWS::CloudWatch::Alarm', (logicalId, resource, template, pricing) => {
-      const alarmPrice = pricing.other?.cloudwatch?.alarmStandard || 0.10;
+    calculators.set('AWS::CloudWatch::Alarm', (logicalId, resource, template, pricing, usage, context) => {
+      const alarmPrice = lookupPrice(context, 'cloudwatch.alarmStandard', pricing.cloudwatch?.alarmStandard, 0.10);
       const monthlyCost = alarmPrice;
       
       return {
@@ -707,8 +1538,8 @@ export class CostCalculator {
     });
     
     // CloudWatch Dashboard
-    calculators.set('AWS::CloudWatch::Dashboard', (logicalId, resource, template, pricing) => {
-      const dashboardPrice = pricing.other?.cloudwatch?.dashboards || 3.00;
+    calculators.set('AWS::CloudWatch::Dashboard', (logicalId, resource, template, pricing, usage, context) => {
+      const dashboardPrice = lookupPrice(context, 'cloudwatch.dashboards', pricing.cloudwatch?.dashboards, 3.00);
       const monthlyCost = dashboardPrice;
       
       return {
@@ -750,8 +1581,8 @@ export class CostCalculator {
     });
     
     // VPC Endpoint
-    calculators.set('AWS::EC2::VPCEndpoint', (logicalId, resource, template, pricing) => {
-      const endpointType = TemplateParser.getPropertyValue(template, resource, 'VpcEndpointType', 'Interface') as string;
+    calculators.set('AWS::EC2::VPCEndpoint', (logicalId, resource, template, pricing, usage, context) => {
+      const endpointType = TemplateParser.getPropertyValue(template, resource, 'VpcEndpointType', 'Interface', context) as string;
       
       if (endpointType === 'Gateway') {
         // Gateway endpoints (S3, DynamoDB) are free
@@ -773,8 +1604,8 @@ export class CostCalculator {
       }
       
       // Interface endpoint - $0.01/hour per AZ + data processing
-      const hourlyPrice = pricing.vpcEndpoint?.interfaceHourly || 0.01;
-      const subnetIds = TemplateParser.getPropertyValue(template, resource, 'SubnetIds', []) as string[];
+      const hourlyPrice = lookupPrice(context, 'vpcEndpoint.interfaceHourly', pricing.vpcEndpoint?.interfaceHourly, 0.01);
+      const subnetIds = TemplateParser.getPropertyValue(template, resource, 'SubnetIds', [], context) as string[];
       const azCount = Math.max(subnetIds.length, 1);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * azCount;
       
@@ -796,10 +1627,9 @@ export class CostCalculator {
     });
     
     // EBS Snapshot
-    calculators.set('AWS::EC2::Snapshot', (logicalId, resource, template, pricing) => {
-      // Estimate 100GB snapshot
-      const estimatedSizeGB = 100;
-      const snapshotPrice = pricing.ebs?.snapshots || 0.05;
+    calculators.set('AWS::EC2::Snapshot', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedSizeGB = usage.storageGB;
+      const snapshotPrice = lookupPrice(context, 'ebs.snapshots', pricing.ebs?.snapshots, 0.05);
       const monthlyCost = snapshotPrice * estimatedSizeGB;
       
       return {
@@ -809,7 +1639,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'snapshot',
         details: [{
-          component: 'EBS Snapshot Storage (est. 100GB)',
+          component: `EBS Snapshot Storage (est. ${estimatedSizeGB}GB)`,
           quantity: estimatedSizeGB,
           unitPrice: snapshotPrice,
           monthlyCost,
@@ -820,10 +1650,10 @@ export class CostCalculator {
     });
     
     // Neptune Cluster
-    calculators.set('AWS::Neptune::DBCluster', (logicalId, resource, template, pricing) => {
+    calculators.set('AWS::Neptune::DBCluster', (logicalId, resource, template, pricing, usage, context) => {
       // Cluster storage cost
-      const estimatedStorageGB = 100;
-      const storagePrice = pricing.neptune?.storage || 0.10;
+      const estimatedStorageGB = usage.storageGB;
+      const storagePrice = lookupPrice(context, 'neptune.storage', pricing.neptune?.storage, 0.10);
       const storageCost = storagePrice * estimatedStorageGB;
       
       return {
@@ -833,7 +1663,7 @@ export class CostCalculator {
         hourlyCost: storageCost / HOURS_PER_MONTH,
         unit: 'cluster',
         details: [{
-          component: 'Neptune Storage (est. 100GB)',
+          component: `Neptune Storage (est. ${estimatedStorageGB}GB)`,
           quantity: estimatedStorageGB,
           unitPrice: storagePrice,
           monthlyCost: storageCost,
@@ -844,9 +1674,9 @@ export class CostCalculator {
     });
     
     // Neptune Cluster Instance
-    calculators.set('AWS::Neptune::DBInstance', (logicalId, resource, template, pricing) => {
-      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.r5.large') as string;
-      const hourlyPrice = pricing.neptune?.instances?.[instanceClass] || pricing.neptune?.instances?.['db.r5.large'] || 0.348;
+    calculators.set('AWS::Neptune::DBInstance', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.r5.large', context) as string;
+      const hourlyPrice = lookupInstancePrice(context, 'neptune.instances', pricing.neptune?.instances, instanceClass, pricing.neptune?.instances?.['db.r5.large'] || 0.348, 'the db.r5.large price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -867,9 +1697,9 @@ export class CostCalculator {
     });
     
     // DocumentDB Cluster
-    calculators.set('AWS::DocDB::DBCluster', (logicalId, resource, template, pricing) => {
-      const estimatedStorageGB = 100;
-      const storagePrice = pricing.documentdb?.storage || 0.10;
+    calculators.set('AWS::DocDB::DBCluster', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedStorageGB = usage.storageGB;
+      const storagePrice = lookupPrice(context, 'documentdb.storage', pricing.documentdb?.storage, 0.10);
       const storageCost = storagePrice * estimatedStorageGB;
       
       return {
@@ -879,7 +1709,7 @@ export class CostCalculator {
         hourlyCost: storageCost / HOURS_PER_MONTH,
         unit: 'cluster',
         details: [{
-          component: 'DocumentDB Storage (est. 100GB)',
+          component: `DocumentDB Storage (est. ${estimatedStorageGB}GB)`,
           quantity: estimatedStorageGB,
           unitPrice: storagePrice,
           monthlyCost: storageCost,
@@ -890,9 +1720,9 @@ export class CostCalculator {
     });
     
     // DocumentDB Instance
-    calculators.set('AWS::DocDB::DBInstance', (logicalId, resource, template, pricing) => {
-      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.r5.large') as string;
-      const hourlyPrice = pricing.documentdb?.instances?.[instanceClass] || pricing.documentdb?.instances?.['db.r5.large'] || 0.277;
+    calculators.set('AWS::DocDB::DBInstance', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'DBInstanceClass', 'db.r5.large', context) as string;
+      const hourlyPrice = lookupInstancePrice(context, 'documentdb.instances', pricing.documentdb?.instances, instanceClass, pricing.documentdb?.instances?.['db.r5.large'] || 0.277, 'the db.r5.large price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -913,10 +1743,10 @@ export class CostCalculator {
     });
     
     // Redshift Cluster
-    calculators.set('AWS::Redshift::Cluster', (logicalId, resource, template, pricing) => {
-      const nodeType = TemplateParser.getPropertyValue(template, resource, 'NodeType', 'dc2.large') as string;
-      const numberOfNodes = TemplateParser.getPropertyValue(template, resource, 'NumberOfNodes', 1) as number;
-      const hourlyPrice = pricing.redshift?.instances?.[nodeType] || pricing.redshift?.instances?.['dc2.large'] || 0.25;
+    calculators.set('AWS::Redshift::Cluster', (logicalId, resource, template, pricing, usage, context) => {
+      const nodeType = TemplateParser.getPropertyValue(template, resource, 'NodeType', 'dc2.large', context) as string;
+      const numberOfNodes = TemplateParser.getPropertyValue(template, resource, 'NumberOfNodes', 1, context) as number;
+      const hourlyPrice = lookupInstancePrice(context, 'redshift.instances', pricing.redshift?.instances, nodeType, pricing.redshift?.instances?.['dc2.large'] || 0.25, 'the dc2.large price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * numberOfNodes;
       
       return {
@@ -937,8 +1767,8 @@ export class CostCalculator {
     });
     
     // VPN Connection
-    calculators.set('AWS::EC2::VPNConnection', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.vpnConnection?.hourly || 0.05;
+    calculators.set('AWS::EC2::VPNConnection', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'vpnConnection.hourly', pricing.vpnConnection?.hourly, 0.05);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -959,8 +1789,8 @@ export class CostCalculator {
     });
     
     // Transit Gateway
-    calculators.set('AWS::EC2::TransitGateway', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.transitGateway?.hourly || 0.05;
+    calculators.set('AWS::EC2::TransitGateway', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'transitGateway.hourly', pricing.transitGateway?.hourly, 0.05);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -981,13 +1811,13 @@ export class CostCalculator {
     });
     
     // Transit Gateway VPC Attachment
-    calculators.set('AWS::EC2::TransitGatewayAttachment', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.transitGateway?.hourly || 0.05;
+    calculators.set('AWS::EC2::TransitGatewayAttachment', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'transitGateway.hourly', pricing.transitGateway?.hourly, 0.05);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       // Add estimated data processing
-      const estimatedDataGB = 100;
-      const dataPrice = pricing.transitGateway?.dataProcessed || 0.02;
+      const estimatedDataGB = usage.monthlyDataProcessedGB;
+      const dataPrice = lookupPrice(context, 'transitGateway.dataProcessed', pricing.transitGateway?.dataProcessed, 0.02);
       const dataCost = estimatedDataGB * dataPrice;
       
       return {
@@ -1005,7 +1835,7 @@ export class CostCalculator {
             unit: 'hours',
           },
           {
-            component: 'Data Processing (est. 100GB)',
+            component: `Data Processing (est. ${estimatedDataGB}GB)`,
             quantity: estimatedDataGB,
             unitPrice: dataPrice,
             monthlyCost: dataCost,
@@ -1017,9 +1847,9 @@ export class CostCalculator {
     });
     
     // Direct Connect Connection
-    calculators.set('AWS::DirectConnect::Connection', (logicalId, resource, template, pricing) => {
-      const bandwidth = TemplateParser.getPropertyValue(template, resource, 'Bandwidth', '1Gbps') as string;
-      const portPrice = pricing.directConnect?.portHours?.[bandwidth] || pricing.directConnect?.portHours?.['1Gbps'] || 0.30;
+    calculators.set('AWS::DirectConnect::Connection', (logicalId, resource, template, pricing, usage, context) => {
+      const bandwidth = TemplateParser.getPropertyValue(template, resource, 'Bandwidth', '1Gbps', context) as string;
+      const portPrice = lookupPrice(context, `directConnect.portHours.${bandwidth}`, pricing.directConnect?.portHours?.[bandwidth], pricing.directConnect?.portHours?.['1Gbps'] || 0.30, 'the 1Gbps price');
       const monthlyCost = portPrice * HOURS_PER_MONTH;
       
       return {
@@ -1040,8 +1870,8 @@ export class CostCalculator {
     });
     
     // Global Accelerator
-    calculators.set('AWS::GlobalAccelerator::Accelerator', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.globalAccelerator?.hourly || 0.025;
+    calculators.set('AWS::GlobalAccelerator::Accelerator', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'globalAccelerator.hourly', pricing.globalAccelerator?.hourly, 0.025);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1062,9 +1892,9 @@ export class CostCalculator {
     });
     
     // MQ Broker
-    calculators.set('AWS::AmazonMQ::Broker', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'HostInstanceType', 'mq.t3.micro') as string;
-      const hourlyPrice = pricing.mq?.instanceHourly?.[instanceType] || pricing.mq?.instanceHourly?.['mq.t3.micro'] || 0.027;
+    calculators.set('AWS::AmazonMQ::Broker', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'HostInstanceType', 'mq.t3.micro', context) as string;
+      const hourlyPrice = lookupInstancePrice(context, 'mq.instanceHourly', pricing.mq?.instanceHourly, instanceType, pricing.mq?.instanceHourly?.['mq.t3.micro'] || 0.027, 'the mq.t3.micro price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1085,10 +1915,10 @@ export class CostCalculator {
     });
     
     // MSK Cluster
-    calculators.set('AWS::MSK::Cluster', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'BrokerNodeGroupInfo.InstanceType', 'kafka.t3.small') as string;
-      const numberOfBrokerNodes = TemplateParser.getPropertyValue(template, resource, 'NumberOfBrokerNodes', 3) as number;
-      const hourlyPrice = pricing.msk?.instanceHourly?.[instanceType] || pricing.msk?.instanceHourly?.['kafka.t3.small'] || 0.072;
+    calculators.set('AWS::MSK::Cluster', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'BrokerNodeGroupInfo.InstanceType', 'kafka.t3.small', context) as string;
+      const numberOfBrokerNodes = TemplateParser.getPropertyValue(template, resource, 'NumberOfBrokerNodes', 3, context) as number;
+      const hourlyPrice = lookupInstancePrice(context, 'msk.instanceHourly', pricing.msk?.instanceHourly, instanceType, pricing.msk?.instanceHourly?.['kafka.t3.small'] || 0.072, 'the kafka.t3.small price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * numberOfBrokerNodes;
       
       return {
@@ -1109,9 +1939,9 @@ export class CostCalculator {
     });
     
     // Kinesis Stream
-    calculators.set('AWS::Kinesis::Stream', (logicalId, resource, template, pricing) => {
-      const shardCount = TemplateParser.getPropertyValue(template, resource, 'ShardCount', 1) as number;
-      const shardHourly = pricing.kinesis?.shardHourly || 0.015;
+    calculators.set('AWS::Kinesis::Stream', (logicalId, resource, template, pricing, usage, context) => {
+      const shardCount = TemplateParser.getPropertyValue(template, resource, 'ShardCount', 1, context) as number;
+      const shardHourly = lookupPrice(context, 'kinesis.shardHourly', pricing.kinesis?.shardHourly, 0.015);
       const monthlyCost = shardHourly * HOURS_PER_MONTH * shardCount;
       
       return {
@@ -1132,37 +1962,53 @@ export class CostCalculator {
     });
     
     // Kinesis Firehose
-    calculators.set('AWS::KinesisFirehose::DeliveryStream', (logicalId, resource, template, pricing) => {
-      // Estimate 100GB/month ingested
-      const estimatedDataGB = 100;
-      const dataPrice = pricing.kinesisFirehose?.dataIngested || 0.029;
-      const monthlyCost = estimatedDataGB * dataPrice;
+    calculators.set('AWS::KinesisFirehose::DeliveryStream', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedDataGB = usage.monthlyDataIngestedGB;
+      const dataPrice = lookupPrice(context, 'kinesisFirehose.dataIngested', pricing.kinesisFirehose?.dataIngested, 0.029);
+      
+      const details: CostDetail[] = [{
+        component: `Kinesis Firehose Data Ingested (est. ${estimatedDataGB}GB)`,
+        quantity: estimatedDataGB,
+        unitPrice: dataPrice,
+        monthlyCost: estimatedDataGB * dataPrice,
+        unit: 'GB',
+      }];
+      
+      // Converting records to Parquet or ORC is charged on the data ingested
+      const formatConversion = TemplateParser.getPropertyValue(
+        template, resource, 'ExtendedS3DestinationConfiguration.DataFormatConversionConfiguration.Enabled', false, context
+      );
+      if (formatConversion === true || formatConversion === 'true') {
+        const conversionPrice = lookupPrice(context, 'kinesisFirehose.formatConversion', pricing.kinesisFirehose?.formatConversion, 0.018);
+        details.push({
+          component: `Format Conversion (est. ${estimatedDataGB}GB)`,
+          quantity: estimatedDataGB,
+          unitPrice: conversionPrice,
+          monthlyCost: estimatedDataGB * conversionPrice,
+          unit: 'GB',
+        });
+      }
       
+      const monthlyCost = details.reduce((sum, detail) => sum + detail.monthlyCost, 0);
       return {
         resourceId: logicalId,
         resourceType: 'AWS::KinesisFirehose::DeliveryStream',
         monthlyCost,
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'delivery stream',
-        details: [{
-          component: 'Kinesis Firehose Data Ingested (est. 100GB)',
-          quantity: estimatedDataGB,
-          unitPrice: dataPrice,
-          monthlyCost,
-          unit: 'GB',
-        }],
+        details,
         confidence: 'low',
       };
     });
     
     // EFS File System
-    calculators.set('AWS::EFS::FileSystem', (logicalId, resource, template, pricing) => {
-      const throughputMode = TemplateParser.getPropertyValue(template, resource, 'ThroughputMode', 'bursting') as string;
-      const estimatedStorageGB = 100;
-      const standardPrice = pricing.efs?.standard || 0.30;
+    calculators.set('AWS::EFS::FileSystem', (logicalId, resource, template, pricing, usage, context) => {
+      const throughputMode = TemplateParser.getPropertyValue(template, resource, 'ThroughputMode', 'bursting', context) as string;
+      const estimatedStorageGB = usage.storageGB;
+      const standardPrice = lookupPrice(context, 'efs.standard', pricing.efs?.standard, 0.30);
       let storageCost = estimatedStorageGB * standardPrice;
       const details: CostDetail[] = [{
-        component: 'EFS Standard Storage (est. 100GB)',
+        component: `EFS Standard Storage (est. ${estimatedStorageGB}GB)`,
         quantity: estimatedStorageGB,
         unitPrice: standardPrice,
         monthlyCost: storageCost,
@@ -1170,9 +2016,9 @@ export class CostCalculator {
       }];
       
       if (throughputMode === 'provisioned') {
-        const provisionedThroughput = TemplateParser.getPropertyValue(template, resource, 'ProvisionedThroughputInMibps', 0) as number;
+        const provisionedThroughput = TemplateParser.getPropertyValue(template, resource, 'ProvisionedThroughputInMibps', 0, context) as number;
         if (provisionedThroughput > 0) {
-          const throughputPrice = pricing.efs?.provisionedThroughput || 6.00;
+          const throughputPrice = lookupPrice(context, 'efs.provisionedThroughput', pricing.efs?.provisionedThroughput, 6.00);
           const throughputCost = provisionedThroughput * throughputPrice;
           storageCost += throughputCost;
           details.push({
@@ -1197,23 +2043,23 @@ export class CostCalculator {
     });
     
     // FSx for Windows
-    calculators.set('AWS::FSx::FileSystem', (logicalId, resource, template, pricing) => {
-      const fileSystemType = TemplateParser.getPropertyValue(template, resource, 'FileSystemType', 'WINDOWS') as string;
-      const storageCapacity = TemplateParser.getPropertyValue(template, resource, 'StorageCapacity', 32) as number;
+    calculators.set('AWS::FSx::FileSystem', (logicalId, resource, template, pricing, usage, context) => {
+      const fileSystemType = TemplateParser.getPropertyValue(template, resource, 'FileSystemType', 'WINDOWS', context) as string;
+      const storageCapacity = TemplateParser.getPropertyValue(template, resource, 'StorageCapacity', 32, context) as number;
       
       let pricePerGB: number;
       switch (fileSystemType) {
         case 'LUSTRE':
-          pricePerGB = pricing.fsx?.lustre || 0.14;
+          pricePerGB = lookupPrice(context, 'fsx.lustre', pricing.fsx?.lustre, 0.14);
           break;
         case 'ONTAP':
-          pricePerGB = pricing.fsx?.ontap || 0.25;
+          pricePerGB = lookupPrice(context, 'fsx.ontap', pricing.fsx?.ontap, 0.25);
           break;
         case 'OPENZFS':
-          pricePerGB = pricing.fsx?.openzfs || 0.09;
+          pricePerGB = lookupPrice(context, 'fsx.openzfs', pricing.fsx?.openzfs, 0.09);
           break;
         default:
-          pricePerGB = pricing.fsx?.windows || 0.23;
+          pricePerGB = lookupPrice(context, 'fsx.windows', pricing.fsx?.windows, 0.23);
       }
       
       const monthlyCost = storageCapacity * pricePerGB;
@@ -1236,10 +2082,9 @@ export class CostCalculator {
     });
     
     // Backup Vault
-    calculators.set('AWS::Backup::BackupVault', (logicalId, resource, template, pricing) => {
-      // Estimate 100GB storage
-      const estimatedStorageGB = 100;
-      const storagePrice = pricing.backup?.storage || 0.05;
+    calculators.set('AWS::Backup::BackupVault', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedStorageGB = usage.storageGB;
+      const storagePrice = lookupPrice(context, 'backup.storage', pricing.backup?.storage, 0.05);
       const monthlyCost = estimatedStorageGB * storagePrice;
       
       return {
@@ -1249,7 +2094,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'vault',
         details: [{
-          component: 'AWS Backup Storage (est. 100GB)',
+          component: `AWS Backup Storage (est. ${estimatedStorageGB}GB)`,
           quantity: estimatedStorageGB,
           unitPrice: storagePrice,
           monthlyCost,
@@ -1260,12 +2105,11 @@ export class CostCalculator {
     });
     
     // CloudFront Distribution
-    calculators.set('AWS::CloudFront::Distribution', (logicalId, resource, template, pricing) => {
-      // Estimate 100GB data transfer, 1M requests
-      const estimatedDataGB = 100;
-      const estimatedRequests = 1000000;
-      const dataPrice = pricing.cloudfront?.dataTransfer?.['us'] || 0.085;
-      const requestPrice = pricing.cloudfront?.requests?.https || 0.01;
+    calculators.set('AWS::CloudFront::Distribution', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedDataGB = usage.monthlyDataTransferGB;
+      const estimatedRequests = usage.monthlyRequests;
+      const dataPrice = lookupPrice(context, 'cloudfront.dataTransfer.us', pricing.cloudfront?.dataTransfer?.['us'], 0.085);
+      const requestPrice = lookupPrice(context, 'cloudfront.requests.https', pricing.cloudfront?.requests?.https, 0.01);
       
       const dataCost = estimatedDataGB * dataPrice;
       const requestCost = (estimatedRequests / 10000) * requestPrice;
@@ -1279,14 +2123,14 @@ export class CostCalculator {
         unit: 'distribution',
         details: [
           {
-            component: 'CloudFront Data Transfer (est. 100GB)',
+            component: `CloudFront Data Transfer (est. ${estimatedDataGB}GB)`,
             quantity: estimatedDataGB,
             unitPrice: dataPrice,
             monthlyCost: dataCost,
             unit: 'GB',
           },
           {
-            component: 'HTTPS Requests (est. 1M)',
+            component: `HTTPS Requests (est. ${formatUsageCount(estimatedRequests)})`,
             quantity: estimatedRequests / 10000,
             unitPrice: requestPrice,
             monthlyCost: requestCost,
@@ -1319,8 +2163,8 @@ export class CostCalculator {
     });
     
     // Config Rule
-    calculators.set('AWS::Config::ConfigRule', (logicalId, resource, template, pricing) => {
-      const rulePrice = pricing.config?.rules || 1.00;
+    calculators.set('AWS::Config::ConfigRule', (logicalId, resource, template, pricing, usage, context) => {
+      const rulePrice = lookupPrice(context, 'config.rules', pricing.config?.rules, 1.00);
       
       return {
         resourceId: logicalId,
@@ -1340,12 +2184,12 @@ export class CostCalculator {
     });
     
     // CloudTrail
-    calculators.set('AWS::CloudTrail::Trail', (logicalId, resource, template, pricing) => {
-      const isMultiRegion = TemplateParser.getPropertyValue(template, resource, 'IsMultiRegionTrail', false) as boolean;
+    calculators.set('AWS::CloudTrail::Trail', (logicalId, resource, template, pricing, usage, context) => {
+      const isMultiRegion = TemplateParser.getPropertyValue(template, resource, 'IsMultiRegionTrail', false, context) as boolean;
       
       // First trail is free for management events, estimate data events
-      const estimatedDataEvents = 100000;
-      const dataEventPrice = pricing.cloudtrail?.dataEvents || 0.10;
+      const estimatedDataEvents = usage.monthlyDataEvents;
+      const dataEventPrice = lookupPrice(context, 'cloudtrail.dataEvents', pricing.cloudtrail?.dataEvents, 0.10);
       const monthlyCost = (estimatedDataEvents / 100000) * dataEventPrice;
       
       return {
@@ -1355,7 +2199,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'trail',
         details: [{
-          component: `CloudTrail${isMultiRegion ? ' (Multi-Region)' : ''} Data Events (est. 100k)`,
+          component: `CloudTrail${isMultiRegion ? ' (Multi-Region)' : ''} Data Events (est. ${formatUsageCount(estimatedDataEvents)})`,
           quantity: estimatedDataEvents,
           unitPrice: dataEventPrice / 100000,
           monthlyCost,
@@ -1366,33 +2210,32 @@ export class CostCalculator {
     });
     
     // CodeBuild Project
-    calculators.set('AWS::CodeBuild::Project', (logicalId, resource, template, pricing) => {
-      const computeType = TemplateParser.getPropertyValue(template, resource, 'Environment.ComputeType', 'BUILD_GENERAL1_SMALL') as string;
-      const environmentType = TemplateParser.getPropertyValue(template, resource, 'Environment.Type', 'LINUX_CONTAINER') as string;
+    calculators.set('AWS::CodeBuild::Project', (logicalId, resource, template, pricing, usage, context) => {
+      const computeType = TemplateParser.getPropertyValue(template, resource, 'Environment.ComputeType', 'BUILD_GENERAL1_SMALL', context) as string;
+      const environmentType = TemplateParser.getPropertyValue(template, resource, 'Environment.Type', 'LINUX_CONTAINER', context) as string;
       
-      // Estimate 100 build minutes/month
-      const estimatedMinutes = 100;
+      const estimatedMinutes = usage.monthlyBuildMinutes;
       let pricePerMinute: number;
       
       if (environmentType === 'ARM_CONTAINER') {
-        pricePerMinute = pricing.codebuild?.armLarge || 0.015;
+        pricePerMinute = lookupPrice(context, 'codebuild.armLarge', pricing.codebuild?.armLarge, 0.015);
       } else if (environmentType === 'LINUX_GPU_CONTAINER') {
-        pricePerMinute = pricing.codebuild?.gpuLarge || 0.18;
+        pricePerMinute = lookupPrice(context, 'codebuild.gpuLarge', pricing.codebuild?.gpuLarge, 0.18);
       } else if (environmentType.includes('WINDOWS')) {
-        pricePerMinute = computeType.includes('LARGE') ? (pricing.codebuild?.windowsLarge || 0.04) : (pricing.codebuild?.windowsMedium || 0.02);
+        pricePerMinute = computeType.includes('LARGE') ? lookupPrice(context, 'codebuild.windowsLarge', pricing.codebuild?.windowsLarge, 0.04) : lookupPrice(context, 'codebuild.windowsMedium', pricing.codebuild?.windowsMedium, 0.02);
       } else {
         switch (computeType) {
           case 'BUILD_GENERAL1_MEDIUM':
-            pricePerMinute = pricing.codebuild?.linuxMedium || 0.01;
+            pricePerMinute = lookupPrice(context, 'codebuild.linuxMedium', pricing.codebuild?.linuxMedium, 0.01);
             break;
           case 'BUILD_GENERAL1_LARGE':
-            pricePerMinute = pricing.codebuild?.linuxLarge || 0.02;
+            pricePerMinute = lookupPrice(context, 'codebuild.linuxLarge', pricing.codebuild?.linuxLarge, 0.02);
             break;
           case 'BUILD_GENERAL1_2XLARGE':
-            pricePerMinute = pricing.codebuild?.linux2xlarge || 0.04;
+            pricePerMinute = lookupPrice(context, 'codebuild.linux2xlarge', pricing.codebuild?.linux2xlarge, 0.04);
             break;
           default:
-            pricePerMinute = pricing.codebuild?.linuxSmall || 0.005;
+            pricePerMinute = lookupPrice(context, 'codebuild.linuxSmall', pricing.codebuild?.linuxSmall, 0.005);
         }
       }
       
@@ -1416,10 +2259,9 @@ export class CostCalculator {
     });
     
     // Glue Job
-    calculators.set('AWS::Glue::Job', (logicalId, resource, template, pricing) => {
-      // Estimate 10 DPU-hours/month
-      const estimatedDpuHours = 10;
-      const dpuPrice = pricing.glue?.dpuHour || 0.44;
+    calculators.set('AWS::Glue::Job', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedDpuHours = usage.monthlyDpuHours;
+      const dpuPrice = lookupPrice(context, 'glue.dpuHour', pricing.glue?.dpuHour, 0.44);
       const monthlyCost = estimatedDpuHours * dpuPrice;
       
       return {
@@ -1429,7 +2271,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'job',
         details: [{
-          component: 'Glue Job (est. 10 DPU-hours)',
+          component: `Glue Job (est. ${estimatedDpuHours} DPU-hours)`,
           quantity: estimatedDpuHours,
           unitPrice: dpuPrice,
           monthlyCost,
@@ -1439,11 +2281,33 @@ export class CostCalculator {
       };
     });
     
+    // Athena WorkGroup
+    calculators.set('AWS::Athena::WorkGroup', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedDataGB = usage.monthlyDataScannedGB;
+      const pricePerTB = lookupPrice(context, 'athena.dataScanned', pricing.athena?.dataScanned, 5.00);
+      const monthlyCost = (estimatedDataGB / 1024) * pricePerTB;
+      
+      return {
+        resourceId: logicalId,
+        resourceType: 'AWS::Athena::WorkGroup',
+        monthlyCost,
+        hourlyCost: monthlyCost / HOURS_PER_MONTH,
+        unit: 'workgroup',
+        details: [{
+          component: `Athena Data Scanned (est. ${estimatedDataGB}GB)`,
+          quantity: estimatedDataGB,
+          unitPrice: pricePerTB / 1024,
+          monthlyCost,
+          unit: 'GB',
+        }],
+        confidence: 'low',
+      };
+    });
+    
     // Glue Crawler
-    calculators.set('AWS::Glue::Crawler', (logicalId, resource, template, pricing) => {
-      // Estimate 5 DPU-hours/month
-      const estimatedDpuHours = 5;
-      const dpuPrice = pricing.glue?.crawlerDpuHour || 0.44;
+    calculators.set('AWS::Glue::Crawler', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedDpuHours = usage.monthlyDpuHours;
+      const dpuPrice = lookupPrice(context, 'glue.crawlerDpuHour', pricing.glue?.crawlerDpuHour, 0.44);
       const monthlyCost = estimatedDpuHours * dpuPrice;
       
       return {
@@ -1453,7 +2317,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'crawler',
         details: [{
-          component: 'Glue Crawler (est. 5 DPU-hours)',
+          component: `Glue Crawler (est. ${estimatedDpuHours} DPU-hours)`,
           quantity: estimatedDpuHours,
           unitPrice: dpuPrice,
           monthlyCost,
@@ -1464,12 +2328,12 @@ export class CostCalculator {
     });
     
     // WAFv2 WebACL
-    calculators.set('AWS::WAFv2::WebACL', (logicalId, resource, template, pricing) => {
-      const rules = resource.Properties?.Rules as unknown[] || [];
+    calculators.set('AWS::WAFv2::WebACL', (logicalId, resource, template, pricing, usage, context) => {
+      const rules = TemplateParser.getPropertyValue(template, resource, 'Rules', [], context) as unknown[];
       const ruleCount = rules.length;
       
-      const webAclPrice = pricing.waf?.webACL || 5.00;
-      const rulePrice = pricing.waf?.rule || 1.00;
+      const webAclPrice = lookupPrice(context, 'waf.webACL', pricing.waf?.webACL, 5.00);
+      const rulePrice = lookupPrice(context, 'waf.rule', pricing.waf?.rule, 1.00);
       const monthlyCost = webAclPrice + (ruleCount * rulePrice);
       
       const details: CostDetail[] = [{
@@ -1502,8 +2366,8 @@ export class CostCalculator {
     });
     
     // WAF (v1) WebACL
-    calculators.set('AWS::WAF::WebACL', (logicalId, resource, template, pricing) => {
-      const webAclPrice = pricing.waf?.webACL || 5.00;
+    calculators.set('AWS::WAF::WebACL', (logicalId, resource, template, pricing, usage, context) => {
+      const webAclPrice = lookupPrice(context, 'waf.webACL', pricing.waf?.webACL, 5.00);
       
       return {
         resourceId: logicalId,
@@ -1523,10 +2387,10 @@ export class CostCalculator {
     });
     
     // OpenSearch Domain
-    calculators.set('AWS::OpenSearchService::Domain', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'ClusterConfig.InstanceType', 't3.small.search') as string;
-      const instanceCount = TemplateParser.getPropertyValue(template, resource, 'ClusterConfig.InstanceCount', 1) as number;
-      const hourlyPrice = pricing.opensearch?.instances?.[instanceType] || pricing.opensearch?.instances?.['t3.small.search'] || 0.036;
+    calculators.set('AWS::OpenSearchService::Domain', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'ClusterConfig.InstanceType', 't3.small.search', context) as string;
+      const instanceCount = TemplateParser.getPropertyValue(template, resource, 'ClusterConfig.InstanceCount', 1, context) as number;
+      const hourlyPrice = lookupInstancePrice(context, 'opensearch.instances', pricing.opensearch?.instances, instanceType, pricing.opensearch?.instances?.['t3.small.search'] || 0.036, 'the t3.small.search price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * instanceCount;
       
       return {
@@ -1547,10 +2411,10 @@ export class CostCalculator {
     });
     
     // Elasticsearch Domain (legacy)
-    calculators.set('AWS::Elasticsearch::Domain', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'ElasticsearchClusterConfig.InstanceType', 't3.small.elasticsearch') as string;
-      const instanceCount = TemplateParser.getPropertyValue(template, resource, 'ElasticsearchClusterConfig.InstanceCount', 1) as number;
-      const hourlyPrice = pricing.elasticsearch?.instances?.[instanceType] || pricing.opensearch?.instances?.['t3.small.search'] || 0.036;
+    calculators.set('AWS::Elasticsearch::Domain', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'ElasticsearchClusterConfig.InstanceType', 't3.small.elasticsearch', context) as string;
+      const instanceCount = TemplateParser.getPropertyValue(template, resource, 'ElasticsearchClusterConfig.InstanceCount', 1, context) as number;
+      const hourlyPrice = lookupPrice(context, `elasticsearch.instances.${instanceType}`, pricing.elasticsearch?.instances?.[instanceType], pricing.opensearch?.instances?.['t3.small.search'] || 0.036, 'the t3.small.search price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * instanceCount;
       
       return {
@@ -1571,16 +2435,16 @@ export class CostCalculator {
     });
     
     // Lightsail Instance
-    calculators.set('AWS::Lightsail::Instance', (logicalId, resource, template, pricing) => {
-      const bundleId = TemplateParser.getPropertyValue(template, resource, 'BundleId', 'nano_2_0') as string;
+    calculators.set('AWS::Lightsail::Instance', (logicalId, resource, template, pricing, usage, context) => {
+      const bundleId = TemplateParser.getPropertyValue(template, resource, 'BundleId', 'nano_2_0', context) as string;
       
       let monthlyPrice = 3.50;
-      if (bundleId.includes('micro')) monthlyPrice = pricing.lightsail?.instances?.['micro'] || 5.00;
-      else if (bundleId.includes('small')) monthlyPrice = pricing.lightsail?.instances?.['small'] || 10.00;
-      else if (bundleId.includes('medium')) monthlyPrice = pricing.lightsail?.instances?.['medium'] || 20.00;
+      if (bundleId.includes('micro')) monthlyPrice = lookupPrice(context, 'lightsail.instances.micro', pricing.lightsail?.instances?.['micro'], 5.00);
+      else if (bundleId.includes('small')) monthlyPrice = lookupPrice(context, 'lightsail.instances.small', pricing.lightsail?.instances?.['small'], 10.00);
+      else if (bundleId.includes('medium')) monthlyPrice = lookupPrice(context, 'lightsail.instances.medium', pricing.lightsail?.instances?.['medium'], 20.00);
       else if (bundleId.includes('large')) monthlyPrice = 40.00;
       else if (bundleId.includes('xlarge')) monthlyPrice = 80.00;
-      else monthlyPrice = pricing.lightsail?.instances?.['nano'] || 3.50;
+      else monthlyPrice = lookupPrice(context, 'lightsail.instances.nano', pricing.lightsail?.instances?.['nano'], 3.50);
       
       return {
         resourceId: logicalId,
@@ -1600,9 +2464,9 @@ export class CostCalculator {
     });
     
     // DMS Replication Instance
-    calculators.set('AWS::DMS::ReplicationInstance', (logicalId, resource, template, pricing) => {
-      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'ReplicationInstanceClass', 'dms.t3.micro') as string;
-      const hourlyPrice = pricing.dms?.instances?.[instanceClass] || pricing.dms?.instances?.['dms.t3.micro'] || 0.018;
+    calculators.set('AWS::DMS::ReplicationInstance', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceClass = TemplateParser.getPropertyValue(template, resource, 'ReplicationInstanceClass', 'dms.t3.micro', context) as string;
+      const hourlyPrice = lookupPrice(context, `dms.instances.${instanceClass}`, pricing.dms?.instances?.[instanceClass], pricing.dms?.instances?.['dms.t3.micro'] || 0.018, 'the dms.t3.micro price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1623,8 +2487,8 @@ export class CostCalculator {
     });
     
     // Transfer Family Server
-    calculators.set('AWS::Transfer::Server', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.transferFamily?.protocols || 0.30;
+    calculators.set('AWS::Transfer::Server', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'transferFamily.protocols', pricing.transferFamily?.protocols, 0.30);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1645,8 +2509,8 @@ export class CostCalculator {
     });
     
     // CodePipeline
-    calculators.set('AWS::CodePipeline::Pipeline', (logicalId, resource, template, pricing) => {
-      const pipelinePrice = pricing.codepipeline?.activePipeline || 1.00;
+    calculators.set('AWS::CodePipeline::Pipeline', (logicalId, resource, template, pricing, usage, context) => {
+      const pipelinePrice = lookupPrice(context, 'codepipeline.activePipeline', pricing.codepipeline?.activePipeline, 1.00);
       
       return {
         resourceId: logicalId,
@@ -1666,15 +2530,14 @@ export class CostCalculator {
     });
     
     // Network Firewall
-    calculators.set('AWS::NetworkFirewall::Firewall', (logicalId, resource, template, pricing) => {
+    calculators.set('AWS::NetworkFirewall::Firewall', (logicalId, resource, template, pricing, usage, context) => {
       // $0.395/hour per endpoint + data processing
       const endpointHourly = 0.395;
-      const subnetMappings = resource.Properties?.SubnetMappings as unknown[] || [{}];
+      const subnetMappings = TemplateParser.getPropertyValue(template, resource, 'SubnetMappings', [{}], context) as unknown[];
       const endpointCount = subnetMappings.length;
       const baseCost = endpointHourly * HOURS_PER_MONTH * endpointCount;
       
-      // Estimate 100GB data processed
-      const estimatedDataGB = 100;
+      const estimatedDataGB = usage.monthlyDataProcessedGB;
       const dataPrice = 0.065;
       const dataCost = estimatedDataGB * dataPrice;
       
@@ -1693,7 +2556,7 @@ export class CostCalculator {
             unit: 'endpoint-hours',
           },
           {
-            component: 'Data Processing (est. 100GB)',
+            component: `Data Processing (est. ${estimatedDataGB}GB)`,
             quantity: estimatedDataGB,
             unitPrice: dataPrice,
             monthlyCost: dataCost,
@@ -1705,10 +2568,10 @@ export class CostCalculator {
     });
     
     // Grafana Workspace
-    calculators.set('AWS::Grafana::Workspace', (logicalId, resource, template, pricing) => {
-      // $9/editor/month + $5/viewer/month, estimate 2 editors
+    calculators.set('AWS::Grafana::Workspace', (logicalId, resource, template, pricing, usage) => {
+      // $9/editor/month + $5/viewer/month
       const editorPrice = 9.00;
-      const estimatedEditors = 2;
+      const estimatedEditors = usage.editors;
       const monthlyCost = editorPrice * estimatedEditors;
       
       return {
@@ -1718,7 +2581,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'workspace',
         details: [{
-          component: 'Managed Grafana Editors (est. 2)',
+          component: `Managed Grafana Editors (est. ${estimatedEditors})`,
           quantity: estimatedEditors,
           unitPrice: editorPrice,
           monthlyCost,
@@ -1729,9 +2592,9 @@ export class CostCalculator {
     });
     
     // SageMaker Notebook Instance
-    calculators.set('AWS::SageMaker::NotebookInstance', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'InstanceType', 'ml.t3.medium') as string;
-      const hourlyPrice = pricing.sagemaker?.notebookInstances?.[instanceType] || 0.05;
+    calculators.set('AWS::SageMaker::NotebookInstance', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'InstanceType', 'ml.t3.medium', context) as string;
+      const hourlyPrice = lookupPrice(context, `sagemaker.notebookInstances.${instanceType}`, pricing.sagemaker?.notebookInstances?.[instanceType], 0.05);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1752,13 +2615,12 @@ export class CostCalculator {
     });
     
     // Directory Service - Simple AD
-    calculators.set('AWS::DirectoryService::SimpleAD', (logicalId, resource, template, pricing) => {
-      const size = TemplateParser.getPropertyValue(template, resource, 'Size', 'Small') as string;
+    calculators.set('AWS::DirectoryService::SimpleAD', (logicalId, resource, template, pricing, usage, context) => {
+      const size = TemplateParser.getPropertyValue(template, resource, 'Size', 'Small', context) as string;
       const sizeLower = size.toLowerCase();
       const simpleADPricing = pricing.directoryService?.simpleAD as Record<string, number> | undefined;
       
-      const hourlyPrice = simpleADPricing?.[sizeLower] || 
-                          (sizeLower === 'large' ? 0.15 : 0.05);
+      const hourlyPrice = lookupPrice(context, `directoryService.simpleAD.${sizeLower}`, simpleADPricing?.[sizeLower], sizeLower === 'large' ? 0.15 : 0.05);
       
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
@@ -1780,13 +2642,12 @@ export class CostCalculator {
     });
 
     // Directory Service - Microsoft AD
-    calculators.set('AWS::DirectoryService::MicrosoftAD', (logicalId, resource, template, pricing) => {
-      const edition = TemplateParser.getPropertyValue(template, resource, 'Edition', 'Standard') as string;
+    calculators.set('AWS::DirectoryService::MicrosoftAD', (logicalId, resource, template, pricing, usage, context) => {
+      const edition = TemplateParser.getPropertyValue(template, resource, 'Edition', 'Standard', context) as string;
       const editionLower = edition.toLowerCase();
       const msADPricing = pricing.directoryService?.microsoftAD as Record<string, number> | undefined;
       
-      const hourlyPrice = msADPricing?.[editionLower] || 
-                          (editionLower === 'enterprise' ? 0.40 : 0.12);
+      const hourlyPrice = lookupPrice(context, `directoryService.microsoftAD.${editionLower}`, msADPricing?.[editionLower], editionLower === 'enterprise' ? 0.40 : 0.12);
       
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
@@ -1808,10 +2669,10 @@ export class CostCalculator {
     });
 
     // MWAA Environment
-    calculators.set('AWS::MWAA::Environment', (logicalId, resource, template, pricing) => {
-      const environmentClass = TemplateParser.getPropertyValue(template, resource, 'EnvironmentClass', 'mw1.small') as string;
+    calculators.set('AWS::MWAA::Environment', (logicalId, resource, template, pricing, usage, context) => {
+      const environmentClass = TemplateParser.getPropertyValue(template, resource, 'EnvironmentClass', 'mw1.small', context) as string;
       
-      const hourlyPrice = pricing.mwaa?.environment?.[environmentClass] || 0.49;
+      const hourlyPrice = lookupPrice(context, `mwaa.environment.${environmentClass}`, pricing.mwaa?.environment?.[environmentClass], 0.49);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1832,11 +2693,11 @@ export class CostCalculator {
     });
 
     // Kinesis Analytics V2
-    calculators.set('AWS::KinesisAnalyticsV2::Application', (logicalId, resource, template, pricing) => {
+    calculators.set('AWS::KinesisAnalyticsV2::Application', (logicalId, resource, template, pricing, usage, context) => {
       // Base cost: 1 KPU per hour for orchestration (Infracost says 2 KPUs for Studio, 1 for App?)
       // Assuming 1 KPU baseline for running application
-      const kpuHourly = pricing.kinesisAnalytics?.kpuHourly || 0.11;
-      const runningKpus = 1; 
+      const kpuHourly = lookupPrice(context, 'kinesisAnalytics.kpuHourly', pricing.kinesisAnalytics?.kpuHourly, 0.11);
+      const runningKpus = usage.kpus;
       const monthlyCost = kpuHourly * runningKpus * HOURS_PER_MONTH;
       
       return {
@@ -1846,8 +2707,8 @@ export class CostCalculator {
         hourlyCost: kpuHourly * runningKpus,
         unit: 'application',
         details: [{
-          component: 'Kinesis Analytics Application (1 KPU est.)',
-          quantity: HOURS_PER_MONTH,
+          component: `Kinesis Analytics Application (${runningKpus} KPU est.)`,
+          quantity: runningKpus * HOURS_PER_MONTH,
           unitPrice: kpuHourly,
           monthlyCost,
           unit: 'KPU-hours',
@@ -1857,10 +2718,9 @@ export class CostCalculator {
     });
 
     // CloudFront Function
-    calculators.set('AWS::CloudFront::Function', (logicalId, resource, template, pricing) => {
-      // Estimate 2M invocations/month
-      const estimatedInvocations = 2000000;
-      const pricePerMillion = pricing.cloudfront?.functions || 0.10;
+    calculators.set('AWS::CloudFront::Function', (logicalId, resource, template, pricing, usage, context) => {
+      const estimatedInvocations = usage.monthlyInvocations;
+      const pricePerMillion = lookupPrice(context, 'cloudfront.functions', pricing.cloudfront?.functions, 0.10);
       const monthlyCost = (estimatedInvocations / 1000000) * pricePerMillion;
       
       return {
@@ -1870,7 +2730,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'function',
         details: [{
-          component: 'CloudFront Function Invocations (est. 2M/mo)',
+          component: `CloudFront Function Invocations (est. ${formatUsageCount(estimatedInvocations)}/mo)`,
           quantity: estimatedInvocations,
           unitPrice: pricePerMillion / 1000000,
           monthlyCost,
@@ -1880,12 +2740,18 @@ export class CostCalculator {
       };
     });
 
+    // Lambda Alias and Version - provisioned concurrency
+    calculators.set('AWS::Lambda::Alias', (logicalId, resource, template, pricing, usage, context) =>
+      this.calculateProvisionedConcurrencyCost(logicalId, resource, template, pricing, context));
+    calculators.set('AWS::Lambda::Version', (logicalId, resource, template, pricing, usage, context) =>
+      this.calculateProvisionedConcurrencyCost(logicalId, resource, template, pricing, context));
+
     // Route 53 Resolver Endpoint
-    calculators.set('AWS::Route53Resolver::ResolverEndpoint', (logicalId, resource, template, pricing) => {
-      const ipAddresses = TemplateParser.getPropertyValue(template, resource, 'IpAddresses', []) as unknown[];
+    calculators.set('AWS::Route53Resolver::ResolverEndpoint', (logicalId, resource, template, pricing, usage, context) => {
+      const ipAddresses = TemplateParser.getPropertyValue(template, resource, 'IpAddresses', [], context) as unknown[];
       const eniCount = Math.max(ipAddresses.length, 2); // Minimum 2 for high availability usually
       
-      const hourlyPrice = pricing.route53?.resolverEndpoint || 0.125;
+      const hourlyPrice = lookupPrice(context, 'route53.resolverEndpoint', pricing.route53?.resolverEndpoint, 0.125);
       const monthlyCost = hourlyPrice * eniCount * HOURS_PER_MONTH;
       
       return {
@@ -1906,9 +2772,9 @@ export class CostCalculator {
     });
 
     // Route 53 Health Check
-    calculators.set('AWS::Route53::HealthCheck', (logicalId, resource, template, pricing) => {
+    calculators.set('AWS::Route53::HealthCheck', (logicalId, resource, template, pricing, usage, context) => {
       // Assume basic health check
-      const monthlyPrice = pricing.route53?.healthChecks?.basic || 0.50;
+      const monthlyPrice = lookupPrice(context, 'route53.healthChecks.basic', pricing.route53?.healthChecks?.basic, 0.50);
       
       return {
         resourceId: logicalId,
@@ -1928,12 +2794,11 @@ export class CostCalculator {
     });
 
     // EC2 Client VPN Endpoint
-    calculators.set('AWS::EC2::ClientVpnEndpoint', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.vpnConnection?.clientVpn?.endpointHourly || 0.05;
-      const connectionHourly = pricing.vpnConnection?.clientVpn?.connectionHourly || 0.05;
+    calculators.set('AWS::EC2::ClientVpnEndpoint', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'vpnConnection.clientVpn.endpointHourly', pricing.vpnConnection?.clientVpn?.endpointHourly, 0.05);
+      const connectionHourly = lookupPrice(context, 'vpnConnection.clientVpn.connectionHourly', pricing.vpnConnection?.clientVpn?.connectionHourly, 0.05);
       
-      // Estimate 1 active connection
-      const estimatedConnections = 1;
+      const estimatedConnections = usage.activeConnections;
       const endpointCost = hourlyPrice * HOURS_PER_MONTH;
       const connectionCost = connectionHourly * estimatedConnections * HOURS_PER_MONTH;
       const monthlyCost = endpointCost + connectionCost;
@@ -1953,7 +2818,7 @@ export class CostCalculator {
             unit: 'hours',
           },
           {
-            component: 'VPN Connection (est. 1)',
+            component: `VPN Connection (est. ${estimatedConnections})`,
             quantity: estimatedConnections * HOURS_PER_MONTH,
             unitPrice: connectionHourly,
             monthlyCost: connectionCost,
@@ -1965,8 +2830,8 @@ export class CostCalculator {
     });
 
     // EC2 Traffic Mirror Session
-    calculators.set('AWS::EC2::TrafficMirrorSession', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.trafficMirror?.sessionHourly || 0.15;
+    calculators.set('AWS::EC2::TrafficMirrorSession', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'trafficMirror.sessionHourly', pricing.trafficMirror?.sessionHourly, 0.15);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -1987,8 +2852,8 @@ export class CostCalculator {
     });
 
     // EC2 Transit Gateway Peering Attachment
-    calculators.set('AWS::EC2::TransitGatewayPeeringAttachment', (logicalId, resource, template, pricing) => {
-      const hourlyPrice = pricing.transitGateway?.peering || 0.05;
+    calculators.set('AWS::EC2::TransitGatewayPeeringAttachment', (logicalId, resource, template, pricing, usage, context) => {
+      const hourlyPrice = lookupPrice(context, 'transitGateway.peering', pricing.transitGateway?.peering, 0.05);
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH;
       
       return {
@@ -2009,10 +2874,10 @@ export class CostCalculator {
     });
 
     // EC2 Dedicated Host
-    calculators.set('AWS::EC2::Host', (logicalId, resource, template, pricing) => {
-      const instanceType = TemplateParser.getPropertyValue(template, resource, 'InstanceType', 'm5.large') as string;
+    calculators.set('AWS::EC2::Host', (logicalId, resource, template, pricing, usage, context) => {
+      const instanceType = TemplateParser.getPropertyValue(template, resource, 'InstanceType', 'm5.large', context) as string;
       // Use dedicated host pricing or fallback to instance price + 10%
-      const hostPrice = pricing.ec2?.hosts?.[instanceType] || (pricing.ec2?.instances?.[instanceType] || 0.096) * 1.1;
+      const hostPrice = lookupPrice(context, `ec2.hosts.${instanceType}`, pricing.ec2?.hosts?.[instanceType], (pricing.ec2?.instances?.[instanceType] || 0.096) * 1.1, 'the instance price plus 10%');
       const monthlyCost = hostPrice * HOURS_PER_MONTH;
 
       return {
@@ -2033,14 +2898,15 @@ export class CostCalculator {
     });
 
     // EKS Nodegroup
-    calculators.set('AWS::EKS::Nodegroup', (logicalId, resource, template, pricing) => {
-      const scalingConfig = resource.Properties?.ScalingConfig as any;
-      const desiredSize = scalingConfig?.DesiredSize || scalingConfig?.MinSize || 1;
+    calculators.set('AWS::EKS::Nodegroup', (logicalId, resource, template, pricing, usage, context) => {
+      const scalingConfig: unknown = TemplateParser.getPropertyValue(template, resource, 'ScalingConfig', undefined, context);
+      const sizes = scalingConfig && typeof scalingConfig === 'object' ? scalingConfig as Record<string, unknown> : {};
+      const desiredSize = parseNumber(sizes.DesiredSize) || parseNumber(sizes.MinSize) || 1;
       
-      const instanceTypes = (resource.Properties?.InstanceTypes as string[]) || ['t3.medium'];
+      const instanceTypes = TemplateParser.getPropertyValue(template, resource, 'InstanceTypes', ['t3.medium'], context) as string[];
       const instanceType = instanceTypes[0];
       
-      const hourlyPrice = pricing.ec2.instances[instanceType] || pricing.ec2.instances['t3.medium'] || 0.0416;
+      const hourlyPrice = lookupInstancePrice(context, 'ec2.instances', pricing.ec2.instances, instanceType, pricing.ec2.instances['t3.medium'] || 0.0416, 'the t3.medium price');
       const monthlyCost = hourlyPrice * HOURS_PER_MONTH * desiredSize;
       
       return {
@@ -2061,16 +2927,18 @@ export class CostCalculator {
     });
 
     // EKS Fargate Profile
-    calculators.set('AWS::EKS::FargateProfile', (logicalId, resource, template, pricing) => {
-      // Estimate 1 pod running continuously
-      // vCPU: 0.25, Memory: 0.5 GB (small pod)
-      const vcpuHourly = pricing.eks?.fargateVcpuHourly || pricing.fargate?.vcpuHourly || 0.04048;
-      const memoryHourly = pricing.eks?.fargateMemoryGBHourly || pricing.fargate?.memoryGBHourly || 0.004445;
+    calculators.set('AWS::EKS::FargateProfile', (logicalId, resource, template, pricing, usage, context) => {
+      // Estimate small pods running continuously
+      // vCPU: 0.25, Memory: 0.5 GB per pod
+      const vcpuHourly = lookupPrice(context, 'eks.fargateVcpuHourly', pricing.eks?.fargateVcpuHourly, pricing.fargate?.vcpuHourly || 0.04048);
+      const memoryHourly = lookupPrice(context, 'eks.fargateMemoryGBHourly', pricing.eks?.fargateMemoryGBHourly, pricing.fargate?.memoryGBHourly || 0.004445);
       
       const estimatedVcpu = 0.25;
       const estimatedMemory = 0.5;
       
-      const hourlyCost = (vcpuHourly * estimatedVcpu) + (memoryHourly * estimatedMemory);
+      const estimatedPods = usage.runningPods;
+      const podHourlyCost = (vcpuHourly * estimatedVcpu) + (memoryHourly * estimatedMemory);
+      const hourlyCost = podHourlyCost * estimatedPods;
       const monthlyCost = hourlyCost * HOURS_PER_MONTH;
       
       return {
@@ -2080,9 +2948,9 @@ export class CostCalculator {
         hourlyCost,
         unit: 'profile',
         details: [{
-          component: 'Fargate Pods (est. 1 small pod)',
-          quantity: HOURS_PER_MONTH,
-          unitPrice: hourlyCost,
+          component: `Fargate Pods (est. ${estimatedPods} small pod${estimatedPods === 1 ? '' : 's'})`,
+          quantity: estimatedPods * HOURS_PER_MONTH,
+          unitPrice: podHourlyCost,
           monthlyCost,
           unit: 'pod-hours',
         }],
@@ -2119,11 +2987,10 @@ export class CostCalculator {
     });
 
     // Config Recorder
-    calculators.set('AWS::Config::ConfigurationRecorder', (logicalId, resource, template, pricing) => {
+    calculators.set('AWS::Config::ConfigurationRecorder', (logicalId, resource, template, pricing, usage, context) => {
       // $0.003 per configuration item recorded
-      // Estimate 1000 items per month
-      const itemPrice = pricing.config?.configItems || 0.003;
-      const estimatedItems = 1000;
+      const itemPrice = lookupPrice(context, 'config.configItems', pricing.config?.configItems, 0.003);
+      const estimatedItems = usage.monthlyConfigItems;
       const monthlyCost = estimatedItems * itemPrice;
       
       return {
@@ -2133,7 +3000,7 @@ export class CostCalculator {
         hourlyCost: monthlyCost / HOURS_PER_MONTH,
         unit: 'recorder',
         details: [{
-          component: 'Config Items Recorded (est. 1000/mo)',
+          component: `Config Items Recorded (est. ${formatUsageCount(estimatedItems)}/mo)`,
           quantity: estimatedItems,
           unitPrice: itemPrice,
           monthlyCost,
@@ -2144,7 +3011,7 @@ export class CostCalculator {
     });
 
     // SSM Activation
-    calculators.set('AWS::SSM::Activation', (logicalId, resource, template, pricing) => {
+    calculators.set('AWS::SSM::Activation', (logicalId, resource, template, pricing, usage, context) => {
       // Only Advanced instances cost money.
       // But Activation resource doesn't specify tier explicitly? 
       // It registers a managed instance. The instance tier is set on the instance (agent) or account settings.
@@ -2176,81 +3043,255 @@ export class CostCalculator {
   private calculateLambdaCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const memorySize = TemplateParser.getPropertyValue(template, resource, 'MemorySize', 128) as number;
-    const timeout = TemplateParser.getPropertyValue(template, resource, 'Timeout', 3) as number;
+    const memorySize = TemplateParser.getPropertyValue(template, resource, 'MemorySize', 128, context) as number;
+    const timeout = TemplateParser.getPropertyValue(template, resource, 'Timeout', 3, context) as number;
     
-    // Estimate 100,000 invocations/month with average duration of timeout/2
-    const estimatedInvocations = 100000;
-    const avgDurationMs = timeout * 500; // Half of timeout in ms
+    // Average duration defaults to half of the timeout
+    const estimatedInvocations = usage.monthlyInvocations;
+    const avgDurationMs = usage.averageDurationMs ?? timeout * 500;
     
-    const architectures = (resource.Properties?.Architectures as string[]) || ['x86_64'];
+    const architectures = TemplateParser.getPropertyValue(template, resource, 'Architectures', ['x86_64'], context) as string[];
     const isArm = architectures.includes('arm64');
 
-    const requestPrice = this.pricing.lambda.requests || 0.20;
-    let durationPrice = this.pricing.lambda.duration || 0.0000166667;
+    const requestPrice = lookupPrice(context, 'lambda.requests', this.pricing.lambda.requests, 0.20);
+    let durationPrice = lookupPrice(context, 'lambda.duration', this.pricing.lambda.duration, 0.0000166667);
     
-    if (isArm && this.pricing.lambda.durationArm) {
-      durationPrice = this.pricing.lambda.durationArm;
+    if (isArm) {
+      durationPrice = lookupPrice(context, 'lambda.durationArm', this.pricing.lambda.durationArm, durationPrice, 'the x86 price');
     }
 
-    const freeDuration = 400000; // GB-seconds free tier
-    
-    const gbSeconds = (memorySize / 1024) * (avgDurationMs / 1000) * estimatedInvocations;
+    // Invocations run on the provisioned concurrency of the function's aliases
+    // and versions first, up to its capacity, at the provisioned duration rate
+    const invocationSeconds = (avgDurationMs / 1000) * estimatedInvocations;
+    const provisionedSeconds = Math.min(
+      invocationSeconds,
+      this.getProvisionedExecutions(logicalId, template, context) * HOURS_PER_MONTH * 3600
+    );
+    const provisionedGBSeconds = (memorySize / 1024) * provisionedSeconds;
+    const gbSeconds = (memorySize / 1024) * (invocationSeconds - provisionedSeconds);
     const requestCost = (estimatedInvocations / 1000000) * requestPrice;
-    const computeCost = Math.max(0, gbSeconds - freeDuration) * durationPrice;
+    const computeCost = gbSeconds * durationPrice;
+    
+    const details: CostDetail[] = [
+      {
+        component: `Lambda Requests (est. ${estimatedInvocations.toLocaleString()}/mo)`,
+        quantity: estimatedInvocations,
+        unitPrice: requestPrice / 1000000,
+        monthlyCost: requestCost,
+        unit: 'requests',
+      },
+      {
+        component: `Lambda Compute (${memorySize}MB, ${avgDurationMs}ms avg)`,
+        quantity: gbSeconds,
+        unitPrice: durationPrice,
+        monthlyCost: computeCost,
+        unit: 'GB-seconds',
+      },
+    ];
+    
+    // The Free Tier doesn't cover provisioned duration, hence its own unit
+    if (provisionedGBSeconds > 0) {
+      let provisionedPrice = lookupPrice(context, 'lambda.provisionedDuration', this.pricing.lambda.provisionedDuration, 0.0000097222);
+      if (isArm) {
+        provisionedPrice = lookupPrice(context, 'lambda.provisionedDurationArm', this.pricing.lambda.provisionedDurationArm, provisionedPrice, 'the x86 price');
+      }
+      details.push({
+        component: `Lambda Compute on Provisioned Concurrency (${memorySize}MB, ${avgDurationMs}ms avg)`,
+        quantity: provisionedGBSeconds,
+        unitPrice: provisionedPrice,
+        monthlyCost: provisionedGBSeconds * provisionedPrice,
+        unit: 'provisioned GB-seconds',
+      });
+    }
     
+    // Reserved concurrency only caps the function; provisioned concurrency is
+    // priced on the aliases and versions that configure it
+    const reservedConcurrency = TemplateParser.getPropertyValue(template, resource, 'ReservedConcurrentExecutions', undefined, context);
+    if (typeof reservedConcurrency === 'number') {
+      details.push({
+        component: `Reserved Concurrency (${reservedConcurrency}, no charge)`,
+        quantity: reservedConcurrency,
+        unitPrice: 0,
+        monthlyCost: 0,
+        unit: 'executions',
+      });
+    }
+    
+    // Ephemeral storage is billed above the free 512MB for the invocation duration
+    const ephemeralStorageMB = TemplateParser.getPropertyValue(template, resource, 'EphemeralStorage.Size', 512, context) as number;
+    if (ephemeralStorageMB > 512) {
+      const storageGBSeconds = ((ephemeralStorageMB - 512) / 1024) * (avgDurationMs / 1000) * estimatedInvocations;
+      const storagePrice = lookupPrice(context, 'lambda.ephemeralStorage', this.pricing.lambda.ephemeralStorage, 0.0000000309);
+      details.push({
+        component: `Ephemeral Storage (${ephemeralStorageMB}MB, ${ephemeralStorageMB - 512}MB above the free 512MB)`,
+        quantity: storageGBSeconds,
+        unitPrice: storagePrice,
+        monthlyCost: storageGBSeconds * storagePrice,
+        unit: 'storage GB-seconds',
+      });
+    }
+    
+    // SnapStart is free for Java; other runtimes pay to cache the snapshot of
+    // each published version and to restore it on cold starts
+    const snapStart = TemplateParser.getPropertyValue(template, resource, 'SnapStart.ApplyOn', 'None', context) as string;
+    const runtime = TemplateParser.getPropertyValue(template, resource, 'Runtime', '', context) as string;
+    if (snapStart === 'PublishedVersions' && !runtime.startsWith('java')) {
+      const cachedGBSeconds = (memorySize / 1024) * HOURS_PER_MONTH * 3600;
+      const cachePrice = lookupPrice(context, 'lambda.snapStartCache', this.pricing.lambda.snapStartCache, 0.0000015046);
+      const restoredGB = (memorySize / 1024) * usage.monthlySnapStartRestores;
+      const restorePrice = lookupPrice(context, 'lambda.snapStartRestore', this.pricing.lambda.snapStartRestore, 0.0001397998);
+      details.push(
+        {
+          component: `SnapStart Cache (${memorySize}MB, 1 published version)`,
+          quantity: cachedGBSeconds,
+          unitPrice: cachePrice,
+          monthlyCost: cachedGBSeconds * cachePrice,
+          unit: 'cache GB-seconds',
+        },
+        {
+          component: `SnapStart Restores (est. ${usage.monthlySnapStartRestores.toLocaleString()}/mo)`,
+          quantity: restoredGB,
+          unitPrice: restorePrice,
+          monthlyCost: restoredGB * restorePrice,
+          unit: 'GB restored',
+        }
+      );
+    }
+    
+    const monthlyCost = details.reduce((sum, detail) => sum + detail.monthlyCost, 0);
     return {
       resourceId: logicalId,
       resourceType: 'AWS::Lambda::Function',
-      monthlyCost: requestCost + computeCost,
-      hourlyCost: (requestCost + computeCost) / HOURS_PER_MONTH,
+      monthlyCost,
+      hourlyCost: monthlyCost / HOURS_PER_MONTH,
       unit: 'function',
-      details: [
-        {
-          component: `Lambda Requests (est. ${estimatedInvocations.toLocaleString()}/mo)`,
-          quantity: estimatedInvocations,
-          unitPrice: requestPrice / 1000000,
-          monthlyCost: requestCost,
-          unit: 'requests',
-        },
-        {
-          component: `Lambda Compute (${memorySize}MB, ${avgDurationMs}ms avg)`,
-          quantity: gbSeconds,
-          unitPrice: durationPrice,
-          monthlyCost: computeCost,
-          unit: 'GB-seconds',
-        },
-      ],
+      details,
       confidence: 'low',
     };
   }
   
+  /**
+   * Count the provisioned concurrent executions configured on the aliases and
+   * versions of a function in the same template
+   */
+  private getProvisionedExecutions(
+    functionId: string,
+    template: CloudFormationTemplate,
+    context: ResolutionContext
+  ): number {
+    const owners = [
+      ...(context.graph?.getDependents(functionId, 'AWS::Lambda::Alias', 'FunctionName') || []),
+      ...(context.graph?.getDependents(functionId, 'AWS::Lambda::Version', 'FunctionName') || []),
+    ];
+    
+    return owners.reduce((total, ownerId) => {
+      const owner = template.Resources[ownerId];
+      if (!TemplateParser.isResourceIncluded(owner, context)) {
+        return total;
+      }
+      const executions = TemplateParser.getPropertyValue(
+        template, owner, 'ProvisionedConcurrencyConfig.ProvisionedConcurrentExecutions', 0, context
+      );
+      return total + (Number(executions) || 0);
+    }, 0);
+  }
+  
+  /**
+   * Calculate the provisioned concurrency cost of a Lambda alias or version,
+   * sized by the memory of the function it belongs to
+   */
+  private calculateProvisionedConcurrencyCost(
+    logicalId: string,
+    resource: CloudFormationResource,
+    template: CloudFormationTemplate,
+    pricing: AWSpricingData,
+    context: ResolutionContext
+  ): ResourceCost {
+    const resourceType = resource.Type;
+    const label = resourceType === 'AWS::Lambda::Alias' ? 'alias' : 'version';
+    const executions = TemplateParser.getPropertyValue(
+      template, resource, 'ProvisionedConcurrencyConfig.ProvisionedConcurrentExecutions', 0, context
+    ) as number;
+    
+    if (!executions) {
+      return {
+        resourceId: logicalId,
+        resourceType,
+        monthlyCost: 0,
+        hourlyCost: 0,
+        unit: label,
+        details: [{
+          component: `Lambda ${label} (no provisioned concurrency)`,
+          quantity: 1,
+          unitPrice: 0,
+          monthlyCost: 0,
+          unit: label,
+        }],
+        confidence: 'high',
+      };
+    }
+    
+    // Functions from other stacks can't be followed, so their memory is assumed
+    const functionId = context.graph?.getReferencedResource(logicalId, 'FunctionName');
+    const fn = functionId ? template.Resources[functionId] : undefined;
+    if (!fn) {
+      context.unresolvedProperties?.push('FunctionName');
+    }
+    const memorySize = fn ? TemplateParser.getPropertyValue(template, fn, 'MemorySize', 128, context) as number : 128;
+    const architectures = fn ? TemplateParser.getPropertyValue(template, fn, 'Architectures', ['x86_64'], context) as string[] : ['x86_64'];
+    
+    let concurrencyPrice = lookupPrice(context, 'lambda.provisionedConcurrency', pricing.lambda.provisionedConcurrency, 0.0000041667);
+    if (architectures.includes('arm64')) {
+      concurrencyPrice = lookupPrice(context, 'lambda.provisionedConcurrencyArm', pricing.lambda.provisionedConcurrencyArm, concurrencyPrice, 'the x86 price');
+    }
+    
+    // Provisioned environments are billed for every second they are configured
+    const gbSeconds = executions * (memorySize / 1024) * HOURS_PER_MONTH * 3600;
+    const monthlyCost = gbSeconds * concurrencyPrice;
+    
+    return {
+      resourceId: logicalId,
+      resourceType,
+      monthlyCost,
+      hourlyCost: monthlyCost / HOURS_PER_MONTH,
+      unit: label,
+      details: [{
+        component: `Provisioned Concurrency (${executions} x ${memorySize}MB${functionId ? ` of ${functionId}` : ''})`,
+        quantity: gbSeconds,
+        unitPrice: concurrencyPrice,
+        monthlyCost,
+        unit: 'GB-seconds',
+      }],
+      confidence: 'high',
+    };
+  }
+  
   /**
    * Calculate DynamoDB table cost
    */
   private calculateDynamoDBCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const billingMode = TemplateParser.getPropertyValue(template, resource, 'BillingMode', 'PROVISIONED') as string;
-    const dynamo = this.pricing.other?.dynamodb || {
-      readCapacity: 0.00013,
-      writeCapacity: 0.00065,
-      onDemandRead: 0.25,
-      onDemandWrite: 1.25,
-      storage: 0.25,
-    };
+    const billingMode = TemplateParser.getPropertyValue(template, resource, 'BillingMode', 'PROVISIONED', context) as string;
+    const dynamo = this.pricing.dynamodb;
     
     if (billingMode === 'PAY_PER_REQUEST') {
+      const onDemandWrite = lookupPrice(context, 'dynamodb.onDemandWrite', dynamo?.onDemandWrite, 1.25);
+      const onDemandRead = lookupPrice(context, 'dynamodb.onDemandRead', dynamo?.onDemandRead, 0.25);
       // On-demand - estimate based on usage
-      const estimatedWrites = 1000000; // 1M writes/month
-      const estimatedReads = 5000000; // 5M reads/month
+      const estimatedWrites = usage.monthlyWriteRequests;
+      const estimatedReads = usage.monthlyReadRequests;
       
-      const writeCost = (estimatedWrites / 1000000) * dynamo.onDemandWrite;
-      const readCost = (estimatedReads / 1000000) * dynamo.onDemandRead;
+      const writeCost = (estimatedWrites / 1000000) * onDemandWrite;
+      const readCost = (estimatedReads / 1000000) * onDemandRead;
       
       return {
         resourceId: logicalId,
@@ -2260,16 +3301,16 @@ export class CostCalculator {
         unit: 'table',
         details: [
           {
-            component: 'DynamoDB On-Demand Writes (est. 1M/mo)',
+            component: `DynamoDB On-Demand Writes (est. ${formatUsageCount(estimatedWrites)}/mo)`,
             quantity: estimatedWrites,
-            unitPrice: dynamo.onDemandWrite / 1000000,
+            unitPrice: onDemandWrite / 1000000,
             monthlyCost: writeCost,
             unit: 'writes',
           },
           {
-            component: 'DynamoDB On-Demand Reads (est. 5M/mo)',
+            component: `DynamoDB On-Demand Reads (est. ${formatUsageCount(estimatedReads)}/mo)`,
             quantity: estimatedReads,
-            unitPrice: dynamo.onDemandRead / 1000000,
+            unitPrice: onDemandRead / 1000000,
             monthlyCost: readCost,
             unit: 'reads',
           },
@@ -2279,13 +3320,15 @@ export class CostCalculator {
     }
     
     // Provisioned capacity
-    const throughput = resource.Properties?.ProvisionedThroughput as Record<string, unknown> | undefined;
+    const throughput = TemplateParser.getPropertyValue(template, resource, 'ProvisionedThroughput', undefined, context) as Record<string, unknown> | undefined;
     const readCapacity = (throughput?.ReadCapacityUnits as number) || 5;
     const writeCapacity = (throughput?.WriteCapacityUnits as number) || 5;
+    const readCapacityPrice = lookupPrice(context, 'dynamodb.readCapacity', dynamo?.readCapacity, 0.00013);
+    const writeCapacityPrice = lookupPrice(context, 'dynamodb.writeCapacity', dynamo?.writeCapacity, 0.00065);
     
     // Provisioned pricing is per hour, multiply by hours per month
-    const readCost = readCapacity * dynamo.readCapacity * HOURS_PER_MONTH;
-    const writeCost = writeCapacity * dynamo.writeCapacity * HOURS_PER_MONTH;
+    const readCost = readCapacity * readCapacityPrice * HOURS_PER_MONTH;
+    const writeCost = writeCapacity * writeCapacityPrice * HOURS_PER_MONTH;
     
     return {
       resourceId: logicalId,
@@ -2297,14 +3340,14 @@ export class CostCalculator {
         {
           component: `DynamoDB Read Capacity (${readCapacity} RCU)`,
           quantity: readCapacity,
-          unitPrice: dynamo.readCapacity * HOURS_PER_MONTH,
+          unitPrice: readCapacityPrice * HOURS_PER_MONTH,
           monthlyCost: readCost,
           unit: 'RCU/month',
         },
         {
           component: `DynamoDB Write Capacity (${writeCapacity} WCU)`,
           quantity: writeCapacity,
-          unitPrice: dynamo.writeCapacity * HOURS_PER_MONTH,
+          unitPrice: writeCapacityPrice * HOURS_PER_MONTH,
           monthlyCost: writeCost,
           unit: 'WCU/month',
         },
@@ -2319,13 +3362,14 @@ export class CostCalculator {
   private calculateS3Cost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const s3Pricing = this.pricing.other?.s3 || { standardStorage: 0.023 };
+    const storagePrice = lookupPrice(context, 's3.standardStorage', this.pricing.s3?.standardStorage, 0.023);
     
-    // Estimate 100GB storage
-    const estimatedStorageGB = 100;
-    const storageCost = estimatedStorageGB * s3Pricing.standardStorage;
+    const estimatedStorageGB = usage.storageGB;
+    const storageCost = estimatedStorageGB * storagePrice;
     
     return {
       resourceId: logicalId,
@@ -2334,9 +3378,9 @@ export class CostCalculator {
       hourlyCost: storageCost / HOURS_PER_MONTH,
       unit: 'bucket',
       details: [{
-        component: 'S3 Storage (est. 100GB)',
+        component: `S3 Storage (est. ${estimatedStorageGB}GB)`,
         quantity: estimatedStorageGB,
-        unitPrice: s3Pricing.standardStorage,
+        unitPrice: storagePrice,
         monthlyCost: storageCost,
         unit: 'GB/month',
       }],
@@ -2350,15 +3394,18 @@ export class CostCalculator {
   private calculateSQSCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const sqsPricing = this.pricing.other?.sqs || { standard: 0.40, fifo: 0.50 };
-    const isFifo = (resource.Properties?.QueueName as string)?.endsWith('.fifo') || 
-                   resource.Properties?.FifoQueue === true;
-    
-    // Estimate 1M requests/month
-    const estimatedRequests = 1000000;
-    const pricePerMillion = isFifo ? sqsPricing.fifo : sqsPricing.standard;
+    const queueName = TemplateParser.getPropertyValue(template, resource, 'QueueName', '', context);
+    const isFifo = (typeof queueName === 'string' && queueName.endsWith('.fifo')) || 
+                   TemplateParser.getPropertyValue(template, resource, 'FifoQueue', false, context) === true;
+    
+    const estimatedRequests = usage.monthlyRequests;
+    const pricePerMillion = isFifo
+      ? lookupPrice(context, 'sqs.fifo', this.pricing.sqs?.fifo, 0.50)
+      : lookupPrice(context, 'sqs.standard', this.pricing.sqs?.standard, 0.40);
     const requestCost = (estimatedRequests / 1000000) * pricePerMillion;
     
     return {
@@ -2368,7 +3415,7 @@ export class CostCalculator {
       hourlyCost: requestCost / HOURS_PER_MONTH,
       unit: 'queue',
       details: [{
-        component: `SQS ${isFifo ? 'FIFO' : 'Standard'} Requests (est. 1M/mo)`,
+        component: `SQS ${isFifo ? 'FIFO' : 'Standard'} Requests (est. ${formatUsageCount(estimatedRequests)}/mo)`,
         quantity: estimatedRequests,
         unitPrice: pricePerMillion / 1000000,
         monthlyCost: requestCost,
@@ -2384,13 +3431,16 @@ export class CostCalculator {
   private calculateApiGatewayCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const apiPricing = this.pricing.other?.apiGateway || { rest: 3.50, http: 1.00, websocket: 1.00 };
     const isHttpApi = resource.Type === 'AWS::ApiGatewayV2::Api';
-    const estimatedRequests = 1000000; // 1M requests/month
+    const estimatedRequests = usage.monthlyRequests;
     
-    const pricePerMillion = isHttpApi ? apiPricing.http : apiPricing.rest;
+    const pricePerMillion = isHttpApi
+      ? lookupPrice(context, 'apiGateway.http', this.pricing.apiGateway?.http, 1.00)
+      : lookupPrice(context, 'apiGateway.rest', this.pricing.apiGateway?.rest, 3.50);
     const requestCost = (estimatedRequests / 1000000) * pricePerMillion;
     
     return {
@@ -2400,7 +3450,7 @@ export class CostCalculator {
       hourlyCost: requestCost / HOURS_PER_MONTH,
       unit: 'API',
       details: [{
-        component: `${isHttpApi ? 'HTTP' : 'REST'} API Requests (est. 1M/mo)`,
+        component: `${isHttpApi ? 'HTTP' : 'REST'} API Requests (est. ${formatUsageCount(estimatedRequests)}/mo)`,
         quantity: estimatedRequests,
         unitPrice: pricePerMillion / 1000000,
         monthlyCost: requestCost,
@@ -2416,17 +3466,19 @@ export class CostCalculator {
   private calculateStepFunctionsCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const sfPricing = this.pricing.other?.stepFunctions || { standard: 25.00, express: 1.00 };
-    const type = TemplateParser.getPropertyValue(template, resource, 'StateMachineType', 'STANDARD') as string;
+    const type = TemplateParser.getPropertyValue(template, resource, 'StateMachineType', 'STANDARD', context) as string;
     
-    // Estimate 10,000 executions/month with 5 transitions each
-    const estimatedExecutions = 10000;
-    const transitionsPerExecution = 5;
+    const estimatedExecutions = usage.monthlyExecutions;
+    const transitionsPerExecution = usage.transitionsPerExecution;
     const totalTransitions = estimatedExecutions * transitionsPerExecution;
     
-    const pricePerMillion = type === 'EXPRESS' ? sfPricing.express : sfPricing.standard;
+    const pricePerMillion = type === 'EXPRESS'
+      ? lookupPrice(context, 'stepFunctions.express', this.pricing.stepFunctions?.express, 1.00)
+      : lookupPrice(context, 'stepFunctions.standard', this.pricing.stepFunctions?.standard, 25.00);
     const cost = (totalTransitions / 1000000) * pricePerMillion;
     
     return {
@@ -2452,13 +3504,14 @@ export class CostCalculator {
   private calculateSNSCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const snsPricing = this.pricing.other?.sns || { publish: 0.50 };
+    const publishPrice = lookupPrice(context, 'sns.publish', this.pricing.sns?.publish, 0.50);
     
-    // Estimate 1M publishes/month
-    const estimatedPublishes = 1000000;
-    const publishCost = (estimatedPublishes / 1000000) * snsPricing.publish;
+    const estimatedPublishes = usage.monthlyPublishes;
+    const publishCost = (estimatedPublishes / 1000000) * publishPrice;
     
     return {
       resourceId: logicalId,
@@ -2467,9 +3520,9 @@ export class CostCalculator {
       hourlyCost: publishCost / HOURS_PER_MONTH,
       unit: 'topic',
       details: [{
-        component: 'SNS Publishes (est. 1M/mo)',
+        component: `SNS Publishes (est. ${formatUsageCount(estimatedPublishes)}/mo)`,
         quantity: estimatedPublishes,
-        unitPrice: snsPricing.publish / 1000000,
+        unitPrice: publishPrice / 1000000,
         monthlyCost: publishCost,
         unit: 'publishes',
       }],
@@ -2483,16 +3536,18 @@ export class CostCalculator {
   private calculateCloudWatchLogsCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const cwPricing = this.pricing.other?.cloudwatch || { logsIngestion: 0.50, logsStorage: 0.03 };
+    const ingestionPrice = lookupPrice(context, 'cloudwatch.logsIngestion', this.pricing.cloudwatch?.logsIngestion, 0.50);
+    const storagePrice = lookupPrice(context, 'cloudwatch.logsStorage', this.pricing.cloudwatch?.logsStorage, 0.03);
     
-    // Estimate 10GB/month ingestion, 50GB storage
-    const estimatedIngestionGB = 10;
-    const estimatedStorageGB = 50;
+    const estimatedIngestionGB = usage.monthlyIngestionGB;
+    const estimatedStorageGB = usage.storageGB;
     
-    const ingestionCost = estimatedIngestionGB * cwPricing.logsIngestion;
-    const storageCost = estimatedStorageGB * cwPricing.logsStorage;
+    const ingestionCost = estimatedIngestionGB * ingestionPrice;
+    const storageCost = estimatedStorageGB * storagePrice;
     const totalCost = ingestionCost + storageCost;
     
     return {
@@ -2503,16 +3558,16 @@ export class CostCalculator {
       unit: 'log group',
       details: [
         {
-          component: 'Log Data Ingestion (est. 10GB/mo)',
+          component: `Log Data Ingestion (est. ${estimatedIngestionGB}GB/mo)`,
           quantity: estimatedIngestionGB,
-          unitPrice: cwPricing.logsIngestion,
+          unitPrice: ingestionPrice,
           monthlyCost: ingestionCost,
           unit: 'GB',
         },
         {
-          component: 'Log Storage (est. 50GB)',
+          component: `Log Storage (est. ${estimatedStorageGB}GB)`,
           quantity: estimatedStorageGB,
-          unitPrice: cwPricing.logsStorage,
+          unitPrice: storagePrice,
           monthlyCost: storageCost,
           unit: 'GB',
         },
@@ -2527,16 +3582,17 @@ export class CostCalculator {
   private calculateSSMParameterCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const tier = TemplateParser.getPropertyValue(template, resource, 'Tier', 'Standard') as string;
+    const tier = TemplateParser.getPropertyValue(template, resource, 'Tier', 'Standard', context) as string;
     
     // Standard parameters: first 10,000 free, then $0.05 per parameter/month
     // Advanced parameters: $0.05 per parameter/month
     const isAdvanced = tier === 'Advanced';
     
-    // Estimate 10,000 API calls/month
-    const estimatedApiCalls = 10000;
+    const estimatedApiCalls = usage.monthlyApiCalls;
     const apiCallCost = (estimatedApiCalls / 10000) * 0.05; // $0.05 per 10,000 API calls
     
     // Parameter storage cost
@@ -2558,7 +3614,7 @@ export class CostCalculator {
       });
     }
     details.push({
-      component: 'API Calls (est. 10k/mo)',
+      component: `API Calls (est. ${formatUsageCount(estimatedApiCalls)}/mo)`,
       quantity: estimatedApiCalls,
       unitPrice: 0.05 / 10000,
       monthlyCost: apiCallCost,
@@ -2582,13 +3638,14 @@ export class CostCalculator {
   private calculateECRCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const ecrPricing = this.pricing.other?.ecr || { storage: 0.10 };
+    const storagePrice = lookupPrice(context, 'ecr.storage', this.pricing.ecr?.storage, 0.10);
     
-    // Estimate 10GB storage
-    const estimatedStorageGB = 10;
-    const storageCost = estimatedStorageGB * ecrPricing.storage;
+    const estimatedStorageGB = usage.storageGB;
+    const storageCost = estimatedStorageGB * storagePrice;
     
     return {
       resourceId: logicalId,
@@ -2597,9 +3654,9 @@ export class CostCalculator {
       hourlyCost: storageCost / HOURS_PER_MONTH,
       unit: 'repository',
       details: [{
-        component: 'ECR Storage (est. 10GB)',
+        component: `ECR Storage (est. ${estimatedStorageGB}GB)`,
         quantity: estimatedStorageGB,
-        unitPrice: ecrPricing.storage,
+        unitPrice: storagePrice,
         monthlyCost: storageCost,
         unit: 'GB/month',
       }],
@@ -2613,12 +3670,13 @@ export class CostCalculator {
   private calculateRoute53RecordSetCost(
     logicalId: string,
     resource: CloudFormationResource,
-    template: CloudFormationTemplate
+    template: CloudFormationTemplate,
+    usage: ResourceUsage,
+    context: ResolutionContext
   ): ResourceCost {
-    const queriesPrice = this.pricing.route53?.queries || 0.40;
+    const queriesPrice = lookupPrice(context, 'route53.queries', this.pricing.route53?.queries, 0.40);
     
-    // Estimate 1M queries/month
-    const estimatedQueries = 1000000;
+    const estimatedQueries = usage.monthlyQueries;
     const monthlyCost = (estimatedQueries / 1000000) * queriesPrice;
     
     return {
@@ -2628,7 +3686,7 @@ export class CostCalculator {
       hourlyCost: monthlyCost / HOURS_PER_MONTH,
       unit: 'record set',
       details: [{
-        component: 'DNS Queries (est. 1M/mo)',
+        component: `DNS Queries (est. ${formatUsageCount(estimatedQueries)}/mo)`,
         quantity: estimatedQueries,
         unitPrice: queriesPrice / 1000000,
         monthlyCost,
@@ -0,0 +1,192 @@
+/**
+ * Currency
+ * Converts the US dollar costs from the pricing data into a reporting
+ * currency, using an inline exchange rate or an exchange-rates file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+
+/**
+ * Currency of the pricing data
+ */
+export const BASE_CURRENCY = 'USD';
+
+/**
+ * Fields holding US dollar amounts in estimates and comparisons
+ */
+const MONEY_FIELDS = new Set([
+  'monthlyCost',
+  'hourlyCost',
+  'unitPrice',
+  'onDemandMonthlyCost',
+  'listMonthlyCost',
+  'nestedStackMonthlyCost',
+  'totalMonthlyCost',
+  'totalHourlyCost',
+  'freeTierSavings',
+  'beforeCost',
+  'afterCost',
+  'costDifference',
+]);
+
+/**
+ * Structure of an exchange-rates file: units of each currency per US dollar
+ *
+ * CAD: 1.37
+ * EUR: 0.92
+ */
+export type ExchangeRates = Record<string, number>;
+
+export class Currency {
+  readonly code: string;
+  /** Units of this currency per US dollar */
+  readonly exchangeRate: number;
+  private numberFormat: Intl.NumberFormat;
+
+  constructor(code: string = BASE_CURRENCY, exchangeRate: number = 1) {
+    this.code = code;
+    this.exchangeRate = exchangeRate;
+    this.numberFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+  }
+
+  /**
+   * Resolve the reporting currency from --currency and either an inline
+   * --exchange-rate or an --exchange-rates-file
+   */
+  static resolve(code: string | undefined, exchangeRate?: string, ratesFile?: string): Currency {
+    const currencyCode = this.validateCode(code || BASE_CURRENCY);
+
+    if (exchangeRate !== undefined && ratesFile !== undefined) {
+      throw new Error('Use either --exchange-rate or --exchange-rates-file, not both');
+    }
+
+    if (currencyCode === BASE_CURRENCY) {
+      if (exchangeRate !== undefined || ratesFile !== undefined) {
+        throw new Error(`Costs are already in ${BASE_CURRENCY}; pass --currency to convert them`);
+      }
+      return new Currency();
+    }
+
+    if (exchangeRate !== undefined) {
+      return new Currency(currencyCode, this.validateRate(Number(exchangeRate), '--exchange-rate'));
+    }
+
+    if (ratesFile !== undefined) {
+      const rates = this.loadRates(ratesFile);
+      if (rates[currencyCode] === undefined) {
+        throw new Error(`No exchange rate for ${currencyCode} in ${ratesFile}. Available: ${Object.keys(rates).join(', ') || 'none'}`);
+      }
+      return new Currency(currencyCode, rates[currencyCode]);
+    }
+
+    throw new Error(`Converting to ${currencyCode} needs an exchange rate: pass --exchange-rate or --exchange-rates-file`);
+  }
+
+  /**
+   * Load exchange rates from a YAML or JSON file
+   */
+  static loadRates(filePath: string): ExchangeRates {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Exchange rates file not found: ${absolutePath}`);
+    }
+
+    let rates: ExchangeRates;
+    try {
+      rates = (yaml.parse(fs.readFileSync(absolutePath, 'utf-8')) as ExchangeRates) || {};
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath} as JSON or YAML: ${error}`);
+    }
+
+    if (typeof rates !== 'object' || Array.isArray(rates)) {
+      throw new Error(`Invalid exchange rates structure in ${filePath}: expected a rate per currency code`);
+    }
+
+    const normalized: ExchangeRates = {};
+    for (const [code, rate] of Object.entries(rates)) {
+      normalized[this.validateCode(code)] = this.validateRate(rate, `${code} in ${filePath}`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Check whether costs are reported in US dollars, unconverted
+   */
+  isBase(): boolean {
+    return this.code === BASE_CURRENCY;
+  }
+
+  /**
+   * Convert a US dollar amount into this currency
+   */
+  convert(usd: number): number {
+    return usd * this.exchangeRate;
+  }
+
+  /**
+   * Format an amount already in this currency, e.g. "$12.34", "CA$12.34" or "€12.34"
+   */
+  format(amount: number): string {
+    // Keep the plain dollar format for USD reports
+    return this.isBase() ? '$' + amount.toFixed(2) : this.numberFormat.format(amount);
+  }
+
+  /**
+   * Describe the currency for reports, e.g. "CAD (1 USD = 1.37 CAD)"
+   */
+  describe(): string {
+    return this.isBase() ? BASE_CURRENCY : `${this.code} (1 ${BASE_CURRENCY} = ${this.exchangeRate} ${this.code})`;
+  }
+
+  /**
+   * Copy an estimate or comparison for JSON output, keeping the US dollar
+   * amounts and adding a "converted" block with the amounts in this currency
+   * to every object that has any
+   */
+  withConvertedValues<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.withConvertedValues(item)) as T;
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const copy: Record<string, unknown> = {};
+    const converted: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = this.withConvertedValues(entry);
+      if (MONEY_FIELDS.has(key) && typeof entry === 'number') {
+        converted[key] = this.convert(entry);
+      }
+    }
+
+    if (Object.keys(converted).length > 0) {
+      copy.converted = { currency: this.code, exchangeRate: this.exchangeRate, ...converted };
+    }
+    return copy as T;
+  }
+
+  /**
+   * Ensure a currency code is a three-letter ISO 4217 code, upper-cased
+   */
+  private static validateCode(code: string): string {
+    const upper = code.toUpperCase();
+    if (!/^[A-Z]{3}$/.test(upper)) {
+      throw new Error(`Invalid currency "${code}". Expected a three-letter ISO 4217 code such as CAD or EUR`);
+    }
+    return upper;
+  }
+
+  /**
+   * Ensure an exchange rate is a positive number
+   */
+  private static validateRate(rate: unknown, sourceName: string): number {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid exchange rate for ${sourceName}: expected a positive number of units per ${BASE_CURRENCY}`);
+    }
+    return rate;
+  }
+}
@@ -3,15 +3,32 @@
  * Compares two stack cost estimates and calculates the difference
  */
 
-import { StackCostEstimate, CostComparison, ResourceChange, CloudFormationTemplate } from './types';
+import { StackCostEstimate, CostComparison, ResourceChange, CloudFormationTemplate, NestedStackTemplate } from './types';
 import { TemplateParser } from './template-parser';
-import { CostCalculator } from './cost-calculator';
+import { CostCalculator, CostCalculatorOptions } from './cost-calculator';
+import { FreeTierTracker } from './free-tier';
+
+export interface DiffCalculatorOptions extends CostCalculatorOptions {
+  /**
+   * Free Tier allowances for the "before" templates, shared across stacks.
+   * Defaults to a tracker of its own when freeTier is set, so both sides
+   * start with the full allowances.
+   */
+  beforeFreeTier?: FreeTierTracker;
+}
 
 export class DiffCalculator {
   private costCalculator: CostCalculator;
+  private beforeCostCalculator: CostCalculator;
   
-  constructor(region: string = 'us-east-1') {
-    this.costCalculator = new CostCalculator(region);
+  constructor(region: string = 'us-east-1', options: DiffCalculatorOptions = {}) {
+    const { beforeFreeTier, ...calculatorOptions } = options;
+    
+    this.costCalculator = new CostCalculator(region, calculatorOptions);
+    this.beforeCostCalculator = new CostCalculator(region, {
+      ...calculatorOptions,
+      freeTier: beforeFreeTier ?? calculatorOptions.freeTier?.fresh(),
+    });
   }
   
   /**
@@ -107,18 +124,20 @@ export class DiffCalculator {
   }
   
   /**
-   * Compare two CloudFormation templates and calculate cost difference
+   * Compare two CloudFormation templates and calculate cost difference,
+   * including the nested stacks whose templates are given for each side
    */
   compareTemplates(
     stackName: string,
     beforeTemplate: CloudFormationTemplate | null,
     afterTemplate: CloudFormationTemplate,
     beforeSource: 'deployed' | 'synthesized' | 'local' = 'deployed',
-    afterSource: 'deployed' | 'synthesized' | 'local' = 'synthesized'
+    afterSource: 'deployed' | 'synthesized' | 'local' = 'synthesized',
+    nestedStacks: { before?: Record<string, NestedStackTemplate>; after?: Record<string, NestedStackTemplate> } = {}
   ): CostComparison {
     // Calculate cost for before template (or create empty estimate if null)
     const before: StackCostEstimate = beforeTemplate
-      ? this.costCalculator.calculateStackCost(stackName, beforeTemplate, beforeSource)
+      ? this.beforeCostCalculator.calculateStackCost(stackName, beforeTemplate, beforeSource, nestedStacks.before)
       : {
           stackName,
           templateSource: beforeSource,
@@ -130,7 +149,7 @@ export class DiffCalculator {
         };
     
     // Calculate cost for after template
-    const after = this.costCalculator.calculateStackCost(stackName, afterTemplate, afterSource);
+    const after = this.costCalculator.calculateStackCost(stackName, afterTemplate, afterSource, nestedStacks.after);
     
     return this.compareEstimates(before, after);
   }
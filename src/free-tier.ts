@@ -0,0 +1,276 @@
+/**
+ * Free Tier
+ * Tracks AWS Free Tier allowances across every resource and stack priced in
+ * a run, since allowances apply per account rather than per resource
+ */
+
+import { ResourceCost, CostDetail } from './types';
+import { HOURS_PER_MONTH } from './pricing-data';
+
+/**
+ * Which Free Tier allowances to apply: the always-free ones, those plus the
+ * ones new accounts get for their first 12 months, or none
+ */
+export type FreeTierMode = 'always-free' | '12-month' | 'off';
+
+export const FREE_TIER_MODES: FreeTierMode[] = ['always-free', '12-month', 'off'];
+
+/**
+ * A monthly Free Tier allowance, drawn down by the cost detail lines it matches
+ */
+export interface FreeTierAllowance {
+  id: string;
+  /** Label for the reduction line, e.g. "1M Lambda requests" */
+  description: string;
+  /** Always free, or only for the first 12 months after account creation */
+  term: 'always' | '12-month';
+  resourceTypes: string[];
+  /** Unit of the cost detail lines drawing on the allowance */
+  unit: string;
+  /** Restricts the allowance to detail lines whose component matches */
+  component?: RegExp;
+  /** Free quantity per month, in the detail line's unit */
+  quantity: number;
+}
+
+/**
+ * Monthly Free Tier allowances modelled by the estimator
+ */
+export const FREE_TIER_ALLOWANCES: FreeTierAllowance[] = [
+  {
+    id: 'lambda-requests',
+    description: '1M Lambda requests',
+    term: 'always',
+    resourceTypes: ['AWS::Lambda::Function'],
+    unit: 'requests',
+    quantity: 1000000,
+  },
+  {
+    id: 'lambda-compute',
+    description: '400,000 GB-seconds Lambda compute',
+    term: 'always',
+    resourceTypes: ['AWS::Lambda::Function'],
+    unit: 'GB-seconds',
+    quantity: 400000,
+  },
+  {
+    id: 'dynamodb-read-capacity',
+    description: '25 DynamoDB read capacity units',
+    term: 'always',
+    resourceTypes: ['AWS::DynamoDB::Table'],
+    unit: 'RCU/month',
+    quantity: 25,
+  },
+  {
+    id: 'dynamodb-write-capacity',
+    description: '25 DynamoDB write capacity units',
+    term: 'always',
+    resourceTypes: ['AWS::DynamoDB::Table'],
+    unit: 'WCU/month',
+    quantity: 25,
+  },
+  {
+    id: 'sqs-requests',
+    description: '1M SQS requests',
+    term: 'always',
+    resourceTypes: ['AWS::SQS::Queue'],
+    unit: 'requests',
+    quantity: 1000000,
+  },
+  {
+    id: 'sns-publishes',
+    description: '1M SNS publishes',
+    term: 'always',
+    resourceTypes: ['AWS::SNS::Topic'],
+    unit: 'publishes',
+    quantity: 1000000,
+  },
+  {
+    id: 'cloudwatch-alarms',
+    description: '10 CloudWatch alarms',
+    term: 'always',
+    resourceTypes: ['AWS::CloudWatch::Alarm'],
+    unit: 'alarm/month',
+    quantity: 10,
+  },
+  {
+    id: 'cloudwatch-dashboards',
+    description: '3 CloudWatch dashboards',
+    term: 'always',
+    resourceTypes: ['AWS::CloudWatch::Dashboard'],
+    unit: 'dashboard/month',
+    quantity: 3,
+  },
+  {
+    id: 'cloudwatch-logs',
+    description: '5GB CloudWatch Logs ingestion and storage',
+    term: 'always',
+    resourceTypes: ['AWS::Logs::LogGroup'],
+    unit: 'GB',
+    quantity: 5,
+  },
+  {
+    id: 'stepfunctions-transitions',
+    description: '4,000 Step Functions state transitions',
+    term: 'always',
+    resourceTypes: ['AWS::StepFunctions::StateMachine'],
+    unit: 'transitions',
+    component: /STANDARD/,
+    quantity: 4000,
+  },
+  {
+    id: 'cloudfront-data-transfer',
+    description: '1TB CloudFront data transfer',
+    term: 'always',
+    resourceTypes: ['AWS::CloudFront::Distribution'],
+    unit: 'GB',
+    quantity: 1024,
+  },
+  {
+    id: 'cloudfront-requests',
+    description: '10M CloudFront requests',
+    term: 'always',
+    resourceTypes: ['AWS::CloudFront::Distribution'],
+    unit: '10k requests',
+    quantity: 1000,
+  },
+  {
+    id: 'cloudfront-functions',
+    description: '2M CloudFront Function invocations',
+    term: 'always',
+    resourceTypes: ['AWS::CloudFront::Function'],
+    unit: 'invocations',
+    quantity: 2000000,
+  },
+  {
+    id: 's3-storage',
+    description: '5GB S3 Standard storage',
+    term: '12-month',
+    resourceTypes: ['AWS::S3::Bucket'],
+    unit: 'GB/month',
+    quantity: 5,
+  },
+  {
+    id: 'apigateway-rest-requests',
+    description: '1M REST API requests',
+    term: '12-month',
+    resourceTypes: ['AWS::ApiGateway::RestApi'],
+    unit: 'requests',
+    quantity: 1000000,
+  },
+  {
+    id: 'ecr-storage',
+    description: '500MB ECR storage',
+    term: '12-month',
+    resourceTypes: ['AWS::ECR::Repository'],
+    unit: 'GB/month',
+    quantity: 0.5,
+  },
+];
+
+export class FreeTierTracker {
+  private allowances: FreeTierAllowance[];
+  private remaining = new Map<string, number>();
+  private totalSavings = 0;
+  private shadowTracker?: FreeTierTracker;
+
+  /**
+   * Create a tracker for the allowances of a Free Tier mode, or none when it is off
+   */
+  static forMode(mode: FreeTierMode): FreeTierTracker | undefined {
+    if (mode === 'off') {
+      return undefined;
+    }
+    
+    const allowances = mode === '12-month'
+      ? FREE_TIER_ALLOWANCES
+      : FREE_TIER_ALLOWANCES.filter(allowance => allowance.term === 'always');
+    return new FreeTierTracker(allowances);
+  }
+
+  constructor(allowances: FreeTierAllowance[] = FREE_TIER_ALLOWANCES) {
+    this.allowances = allowances;
+
+    for (const allowance of allowances) {
+      this.remaining.set(allowance.id, allowance.quantity);
+    }
+  }
+
+  /**
+   * Draw down the allowances a resource's cost lines qualify for, returning
+   * the cost with a Free Tier reduction line per allowance used
+   */
+  apply(cost: ResourceCost): ResourceCost {
+    const reductions: CostDetail[] = [];
+
+    for (const detail of cost.details) {
+      const allowance = this.allowances.find(a =>
+        a.resourceTypes.includes(cost.resourceType) &&
+        a.unit === detail.unit &&
+        (!a.component || a.component.test(detail.component))
+      );
+      const remaining = allowance ? this.remaining.get(allowance.id)! : 0;
+      if (!allowance || remaining <= 0 || detail.quantity <= 0 || detail.unitPrice <= 0) {
+        continue;
+      }
+
+      const covered = Math.min(remaining, detail.quantity);
+      this.remaining.set(allowance.id, remaining - covered);
+
+      reductions.push({
+        component: `Free Tier (${allowance.description}${allowance.term === '12-month' ? ', first 12 months' : ''})`,
+        quantity: -covered,
+        unitPrice: detail.unitPrice,
+        monthlyCost: -covered * detail.unitPrice,
+        unit: detail.unit,
+      });
+    }
+
+    if (reductions.length === 0) {
+      return cost;
+    }
+
+    const savings = -reductions.reduce((sum, r) => sum + r.monthlyCost, 0);
+    this.totalSavings += savings;
+    const monthlyCost = Math.max(0, cost.monthlyCost - savings);
+
+    return {
+      ...cost,
+      monthlyCost,
+      hourlyCost: monthlyCost / HOURS_PER_MONTH,
+      details: [...cost.details, ...reductions],
+    };
+  }
+
+  /**
+   * Get the quantity left of an allowance this month
+   */
+  getRemaining(allowanceId: string): number | undefined {
+    return this.remaining.get(allowanceId);
+  }
+
+  /**
+   * Get the total reduction applied so far
+   */
+  getTotalSavings(): number {
+    return this.totalSavings;
+  }
+
+  /**
+   * Get a new tracker for the same allowances, with none of them used yet
+   */
+  fresh(): FreeTierTracker {
+    return new FreeTierTracker(this.allowances);
+  }
+
+  /**
+   * Get a tracker with its own copy of the allowances, for pricing the same
+   * resources a second time (e.g. at On-Demand rates) without drawing them down twice
+   */
+  shadow(): FreeTierTracker {
+    if (!this.shadowTracker) {
+      this.shadowTracker = new FreeTierTracker(this.allowances);
+    }
+    return this.shadowTracker;
+  }
+}
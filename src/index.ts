@@ -8,16 +8,52 @@ export * from './types';
 
 // Export main classes
 export { TemplateParser } from './template-parser';
+export { ResourceGraph, type ResourceReference } from './resource-graph';
 export { TemplateFetcher, type FetchedTemplate, type StackInfo } from './template-fetcher';
-export { CostCalculator } from './cost-calculator';
-export { DiffCalculator } from './diff-calculator';
+export { CostCalculator, type CostCalculatorOptions } from './cost-calculator';
+export { DiffCalculator, type DiffCalculatorOptions } from './diff-calculator';
 export { OutputFormatter, type OutputFormat } from './output-formatter';
+export { UsageProfile, USAGE_DEFAULTS, type UsageFile, type ResourceUsage } from './usage-profile';
+export { ParameterOverrides, type ParameterValues } from './parameter-overrides';
+export {
+  Commitments,
+  PRICING_MODELS,
+  type PricingModel,
+  type CommitmentService,
+  type CommitmentsConfig,
+  type ServiceCommitment,
+} from './pricing-model';
+export { NegotiatedRates, type RatesConfig } from './negotiated-rates';
+export { Currency, BASE_CURRENCY, type ExchangeRates } from './currency';
+export { FreeTierTracker, FREE_TIER_ALLOWANCES, FREE_TIER_MODES, type FreeTierAllowance, type FreeTierMode } from './free-tier';
+export {
+  BundledPricingSource,
+  HttpPricingSource,
+  OfferFilePricingSource,
+  SnapshotPricingSource,
+  createPricingSource,
+  usePricingSource,
+  PRICING_SOURCE_ENV,
+  type PricingSource,
+} from './pricing-source';
+export { PricingSnapshots, type PricingSnapshot, type PriceChange } from './pricing-snapshots';
+export { PricingValidator, type PricingIssue, type PricingCoverage } from './pricing-validator';
+export { InstanceSizes, type SizeEstimate } from './instance-sizes';
+export { SamTransform, SAM_TRANSFORM } from './sam-transform';
 
 // Export pricing utilities
 export { 
   getRegionalPricing, 
+  getAvailableRegions,
+  getPricingProvenance,
+  getPricingDataAge,
+  isPricingDataStale,
+  setPricingData,
+  setNegotiatedRates,
+  getNegotiatedRates,
   HOURS_PER_MONTH, 
   DEFAULT_REGION,
+  PRICING_STALE_AFTER_DAYS,
   FREE_RESOURCES,
   USAGE_BASED_RESOURCES,
 } from './pricing-data';
@@ -26,6 +62,11 @@ export {
 import { TemplateFetcher } from './template-fetcher';
 import { DiffCalculator } from './diff-calculator';
 import { OutputFormatter } from './output-formatter';
+import { Currency } from './currency';
+import { UsageProfile } from './usage-profile';
+import { ParameterValues } from './parameter-overrides';
+import { Commitments } from './pricing-model';
+import { FreeTierTracker } from './free-tier';
 import { CostComparison } from './types';
 
 export interface CompareOptions {
@@ -33,6 +74,13 @@ export interface CompareOptions {
   stackNames?: string[];
   region?: string;
   profile?: string;
+  usageProfile?: UsageProfile;
+  parameters?: ParameterValues;
+  commitments?: Commitments;
+  /** Free Tier allowances for the synthesized stacks; the deployed stacks get their own */
+  freeTier?: FreeTierTracker;
+  /** Fail instead of falling back to a default when a price is missing from the pricing data */
+  strictPricing?: boolean;
 }
 
 /**
@@ -40,10 +88,10 @@ export interface CompareOptions {
  * Returns cost comparisons for all stacks
  */
 export async function compareCdkStacks(options: CompareOptions): Promise<CostComparison[]> {
-  const { cdkOutDir, stackNames, region = 'us-east-1', profile } = options;
+  const { cdkOutDir, stackNames, region = 'us-east-1', profile, usageProfile, parameters, commitments, freeTier, strictPricing } = options;
   
   const fetcher = new TemplateFetcher(region, profile);
-  const diffCalculator = new DiffCalculator(region);
+  const diffCalculator = new DiffCalculator(region, { usageProfile, parameters, commitments, freeTier, strictPricing });
   
   // Get stack names if not provided
   let stacks = stackNames;
@@ -62,11 +110,15 @@ export async function compareCdkStacks(options: CompareOptions): Promise<CostCom
         deployed?.template || null,
         synthesized.template,
         'deployed',
-        'synthesized'
+        'synthesized',
+        { before: deployed?.nestedStacks, after: synthesized.nestedStacks }
       );
       
       comparisons.push(comparison);
     } catch (error) {
+      if (strictPricing) {
+        throw error;
+      }
       console.warn(`Warning: Failed to process stack ${stackName}: ${error}`);
     }
   }
@@ -75,13 +127,15 @@ export async function compareCdkStacks(options: CompareOptions): Promise<CostCom
 }
 
 /**
- * Generate a GitHub PR comment from cost comparisons
+ * Generate a GitHub PR comment from cost comparisons, optionally in a
+ * currency other than US dollars
  */
 export function generateGitHubComment(
   comparisons: CostComparison[],
-  region: string = 'us-east-1'
+  region: string = 'us-east-1',
+  currency?: Currency
 ): string {
-  const formatter = new OutputFormatter(region);
+  const formatter = new OutputFormatter(region, currency);
   return formatter.generateGitHubComment(comparisons);
 }
 
@@ -0,0 +1,95 @@
+/**
+ * Instance Sizes
+ * Infers prices for instance sizes missing from the pricing data from the
+ * priced sizes of the same family and generation, which scale with the size's
+ * normalization factor (each size up doubles the price)
+ */
+
+/**
+ * Normalization factors of the named sizes; "Nxlarge" sizes are N times xlarge
+ */
+const SIZE_FACTORS: Record<string, number> = {
+  nano: 0.25,
+  micro: 0.5,
+  small: 1,
+  medium: 2,
+  large: 4,
+  xlarge: 8,
+};
+
+/**
+ * A price inferred from another size of the same instance family
+ */
+export interface SizeEstimate {
+  price: number;
+  /** The priced size the estimate was scaled from */
+  basedOn: string;
+  basedOnPrice: number;
+}
+
+export class InstanceSizes {
+  /**
+   * Get the normalization factor of an instance type's size, e.g. 16 for
+   * "m7i.2xlarge", "db.r6g.2xlarge" or "r6g.2xlarge.search". Metal and other
+   * unscaled sizes have none
+   */
+  static getSizeFactor(instanceType: string): number | undefined {
+    const parsed = this.parse(instanceType);
+    return parsed ? parsed.factor : undefined;
+  }
+
+  /**
+   * Estimate the price of an instance type from the nearest priced size of
+   * the same family, generation and prefix or suffix (e.g. "db." or ".search")
+   */
+  static estimate(prices: Record<string, number> | undefined, instanceType: string): SizeEstimate | undefined {
+    const target = this.parse(instanceType);
+    if (!target || !prices) {
+      return undefined;
+    }
+
+    let nearest: SizeEstimate | undefined;
+    let nearestDistance = Infinity;
+    for (const [candidate, price] of Object.entries(prices)) {
+      const known = this.parse(candidate);
+      if (!known || known.family !== target.family || typeof price !== 'number' || price <= 0) {
+        continue;
+      }
+
+      // Scale from the closest size, preferring the larger of two equally close sizes
+      const distance = Math.abs(Math.log2(known.factor / target.factor)) - (known.factor > target.factor ? 0.1 : 0);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = { price: price * (target.factor / known.factor), basedOn: candidate, basedOnPrice: price };
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Split an instance type into its family (with the size replaced by "*")
+   * and the size's normalization factor
+   */
+  private static parse(instanceType: string): { family: string; factor: number } | undefined {
+    const parts = instanceType.split('.');
+    for (let i = 1; i < parts.length; i++) {
+      const factor = this.getFactor(parts[i]);
+      if (factor !== undefined) {
+        return { family: [...parts.slice(0, i), '*', ...parts.slice(i + 1)].join('.'), factor };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the normalization factor of a size name such as "large" or "12xlarge"
+   */
+  private static getFactor(size: string): number | undefined {
+    if (SIZE_FACTORS[size] !== undefined) {
+      return SIZE_FACTORS[size];
+    }
+    const multiple = size.match(/^(\d+)xlarge$/);
+    return multiple ? Number(multiple[1]) * SIZE_FACTORS.xlarge : undefined;
+  }
+}
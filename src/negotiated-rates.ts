@@ -0,0 +1,218 @@
+/**
+ * Negotiated Rates
+ * Applies private pricing (Enterprise Discount Program discounts, per-service
+ * discounts and negotiated unit prices) on top of the public list prices
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { AWSpricingData } from './pricing-data';
+import { PricingValidator } from './pricing-validator';
+
+/**
+ * Structure of a rates file. Discounts are percentages off the list price;
+ * service discounts replace the global discount for their section, and
+ * prices set the net unit price of a single SKU
+ *
+ * discount: 5
+ * services:
+ *   ec2: 12
+ *   sqs: 20
+ * prices:
+ *   ec2.instances.r6i.2xlarge: 0.40
+ */
+export interface RatesConfig {
+  discount?: number;
+  services?: Record<string, number>;
+  prices?: Record<string, number>;
+}
+
+export class NegotiatedRates {
+  private discount: number;
+  private services: Record<string, number>;
+  private prices: Record<string, number>;
+  private sourceName: string;
+
+  constructor(config: RatesConfig = {}, sourceName: string = 'rates file') {
+    this.discount = config.discount || 0;
+    this.services = config.services || {};
+    this.prices = config.prices || {};
+    this.sourceName = sourceName;
+  }
+
+  /**
+   * Load negotiated rates from a YAML or JSON file
+   */
+  static fromFile(filePath: string): NegotiatedRates {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Rates file not found: ${absolutePath}`);
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    return this.fromContent(content, path.basename(filePath));
+  }
+
+  /**
+   * Parse negotiated rates from string content
+   */
+  static fromContent(content: string, sourceName: string = 'rates file'): NegotiatedRates {
+    let config: RatesConfig;
+
+    try {
+      config = (yaml.parse(content) as RatesConfig) || {};
+    } catch (error) {
+      throw new Error(`Failed to parse ${sourceName} as JSON or YAML: ${error}`);
+    }
+
+    if (typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Invalid rates structure in ${sourceName}`);
+    }
+
+    if (config.discount !== undefined) {
+      this.validateDiscount(config.discount, `discount in ${sourceName}`);
+    }
+
+    for (const [service, discount] of Object.entries(config.services || {})) {
+      this.validatePricePath(service, `services in ${sourceName}`);
+      this.validateDiscount(discount, `services.${service} in ${sourceName}`);
+    }
+
+    for (const [sku, price] of Object.entries(config.prices || {})) {
+      this.validatePricePath(sku, `prices in ${sourceName}`);
+      if (typeof price !== 'number' || price < 0) {
+        throw new Error(`Invalid price for prices.${sku} in ${sourceName}: expected a non-negative number`);
+      }
+    }
+
+    return new NegotiatedRates(config, sourceName);
+  }
+
+  /**
+   * Describe the rates for reports, e.g. "rates.yml: 5% off, ec2 12% off, 1 negotiated price"
+   */
+  describe(): string {
+    const parts: string[] = [];
+    if (this.discount > 0) {
+      parts.push(`${this.discount}% off`);
+    }
+    for (const [service, discount] of Object.entries(this.services)) {
+      parts.push(`${service} ${discount}% off`);
+    }
+    const priceCount = Object.keys(this.prices).length;
+    if (priceCount > 0) {
+      parts.push(`${priceCount} negotiated ${priceCount === 1 ? 'price' : 'prices'}`);
+    }
+
+    return parts.length > 0 ? `${this.sourceName}: ${parts.join(', ')}` : this.sourceName;
+  }
+
+  /**
+   * Build net pricing from a copy of the list pricing: discount every price,
+   * then set the negotiated SKU prices
+   */
+  applyTo(pricing: AWSpricingData): AWSpricingData {
+    const net = structuredClone(pricing);
+
+    this.discountPrices(net as unknown as Record<string, unknown>, []);
+
+    for (const [sku, price] of Object.entries(this.prices)) {
+      this.setPrice(net, sku, price);
+    }
+
+    return net;
+  }
+
+  /**
+   * Apply the discount for each price's section to every number under a value
+   */
+  private discountPrices(value: Record<string, unknown>, pricePath: string[]): void {
+    for (const [key, entry] of Object.entries(value)) {
+      const entryPath = [...pricePath, key];
+      if (typeof entry === 'number') {
+        value[key] = entry * (1 - this.getDiscount(entryPath) / 100);
+      } else if (entry && typeof entry === 'object') {
+        this.discountPrices(entry as Record<string, unknown>, entryPath);
+      }
+    }
+  }
+
+  /**
+   * Get the discount for a price: the most specific service discount
+   * covering it, or the global discount. Commitment term prices get the
+   * discount of the service they replace
+   */
+  private getDiscount(pricePath: string[]): number {
+    const servicePath = pricePath[0] === 'commitments' ? pricePath.slice(2) : pricePath;
+    const dottedPath = servicePath.join('.');
+
+    let discount = this.discount;
+    let matchedLength = 0;
+    for (const [service, serviceDiscount] of Object.entries(this.services)) {
+      const covers = dottedPath === service || dottedPath.startsWith(`${service}.`);
+      if (covers && service.length > matchedLength) {
+        discount = serviceDiscount;
+        matchedLength = service.length;
+      }
+    }
+
+    return discount;
+  }
+
+  /**
+   * Set the price at a dotted SKU path. Keys such as instance types contain
+   * dots, so the path is matched against the keys present in the pricing
+   * data; a new key can only be added to a table of prices
+   */
+  private setPrice(pricing: AWSpricingData, sku: string, price: number): void {
+    let container = pricing as unknown as Record<string, unknown>;
+    let remaining = sku;
+
+    for (;;) {
+      if (typeof container[remaining] === 'number' || this.isPriceTable(container)) {
+        container[remaining] = price;
+        return;
+      }
+
+      const key = Object.keys(container)
+        .filter(candidate => remaining.startsWith(`${candidate}.`))
+        .sort((a, b) => b.length - a.length)[0];
+      const next = key !== undefined ? container[key] : undefined;
+      if (!next || typeof next !== 'object') {
+        throw new Error(`Unknown price "${sku}" in ${this.sourceName} for region ${pricing.region}`);
+      }
+
+      container = next as Record<string, unknown>;
+      remaining = remaining.slice(key.length + 1);
+    }
+  }
+
+  /**
+   * Check whether an object is a table of prices, e.g. prices per instance type
+   */
+  private isPriceTable(value: Record<string, unknown>): boolean {
+    const entries = Object.values(value);
+    return entries.length > 0 && entries.every(entry => typeof entry === 'number');
+  }
+
+  /**
+   * Ensure a discount is a percentage
+   */
+  private static validateDiscount(discount: unknown, sourceName: string): void {
+    if (typeof discount !== 'number' || discount < 0 || discount > 100) {
+      throw new Error(`Invalid discount for ${sourceName}: expected a percentage between 0 and 100`);
+    }
+  }
+
+  /**
+   * Ensure a price path starts with a section of the pricing data
+   */
+  private static validatePricePath(pricePath: string, sourceName: string): void {
+    const section = pricePath.split('.')[0];
+    if (!PricingValidator.isPricingSection(section)) {
+      throw new Error(`Unknown pricing section "${section}" for ${pricePath} in ${sourceName}. Run "cfn-cost pricing coverage" to see the priced services.`);
+    }
+  }
+}
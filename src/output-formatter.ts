@@ -5,17 +5,20 @@
 
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { StackCostEstimate, CostComparison, ResourceChange, ResourceCost, CostDetail } from './types';
+import { StackCostEstimate, CostComparison, ResourceChange, ResourceCost, CostDetail, PricingProvenance } from './types';
 import { DiffCalculator } from './diff-calculator';
 import { USAGE_BASED_RESOURCES } from './pricing-data';
+import { Currency } from './currency';
 
 export type OutputFormat = 'table' | 'json' | 'markdown' | 'github';
 
 export class OutputFormatter {
   private diffCalculator: DiffCalculator;
+  private currency: Currency;
   
-  constructor(region: string = 'us-east-1') {
+  constructor(region: string = 'us-east-1', currency: Currency = new Currency()) {
     this.diffCalculator = new DiffCalculator(region);
+    this.currency = currency;
   }
   
   /**
@@ -24,7 +27,7 @@ export class OutputFormatter {
   formatEstimate(estimate: StackCostEstimate, format: OutputFormat = 'table'): string {
     switch (format) {
       case 'json':
-        return JSON.stringify(estimate, null, 2);
+        return this.formatJson(estimate);
       case 'markdown':
         return this.formatEstimateMarkdown(estimate);
       case 'github':
@@ -41,11 +44,11 @@ export class OutputFormatter {
   formatComparison(comparison: CostComparison, format: OutputFormat = 'table'): string {
     switch (format) {
       case 'json':
-        return JSON.stringify(comparison, null, 2);
+        return this.formatJson(comparison);
       case 'markdown':
         return this.formatComparisonMarkdown(comparison);
       case 'github':
-        return this.formatComparisonGitHub(comparison);
+        return (this.formatStalePricingAlert([comparison]) || '') + this.formatComparisonGitHub(comparison);
       case 'table':
       default:
         return this.formatComparisonTable(comparison);
@@ -57,15 +60,21 @@ export class OutputFormatter {
    */
   formatMultipleComparisons(comparisons: CostComparison[], format: OutputFormat = 'table'): string {
     if (format === 'json') {
-      return JSON.stringify(comparisons, null, 2);
+      return this.formatJson(comparisons);
     }
     
     const outputs: string[] = [];
     let totalBefore = 0;
     let totalAfter = 0;
     
+    const staleAlert = this.formatStalePricingAlert(comparisons);
+    if (format === 'github' && staleAlert) {
+      outputs.push(staleAlert);
+    }
+    
+    // The stale pricing alert is shown once above all stacks
     for (const comparison of comparisons) {
-      outputs.push(this.formatComparison(comparison, format));
+      outputs.push(format === 'github' ? this.formatComparisonGitHub(comparison) : this.formatComparison(comparison, format));
       totalBefore += comparison.before.totalMonthlyCost;
       totalAfter += comparison.after.totalMonthlyCost;
     }
@@ -130,6 +139,53 @@ export class OutputFormatter {
     return `est. ${quantityStr} ${unit}`;
   }
 
+  /**
+   * Order resources so children follow their parent resource, with groups
+   * sorted by their combined monthly cost
+   */
+  private groupByParent(resources: ResourceCost[]): Array<{ resource: ResourceCost; depth: number }> {
+    const ids = new Set(resources.map(r => r.resourceId));
+    const children = new Map<string, ResourceCost[]>();
+    const roots: ResourceCost[] = [];
+    
+    for (const resource of resources) {
+      const parentId = resource.parentResourceId;
+      if (parentId && parentId !== resource.resourceId && ids.has(parentId)) {
+        children.set(parentId, [...(children.get(parentId) || []), resource]);
+      } else {
+        roots.push(resource);
+      }
+    }
+    
+    const groupCost = (resource: ResourceCost, seen: Set<string> = new Set()): number => {
+      if (seen.has(resource.resourceId)) return 0;
+      seen.add(resource.resourceId);
+      return resource.monthlyCost + (children.get(resource.resourceId) || [])
+        .reduce((sum, child) => sum + groupCost(child, seen), 0);
+    };
+    const byGroupCost = (a: ResourceCost, b: ResourceCost) => groupCost(b) - groupCost(a);
+    
+    const ordered: Array<{ resource: ResourceCost; depth: number }> = [];
+    const visit = (resource: ResourceCost, depth: number) => {
+      if (ordered.some(entry => entry.resource === resource)) return;
+      ordered.push({ resource, depth });
+      for (const child of (children.get(resource.resourceId) || []).sort(byGroupCost)) {
+        visit(child, depth + 1);
+      }
+    };
+    
+    for (const root of roots.sort(byGroupCost)) {
+      visit(root, 0);
+    }
+    
+    // Resources in a parent cycle have no root; list them at the top level
+    for (const resource of resources) {
+      visit(resource, 0);
+    }
+    
+    return ordered;
+  }
+  
   /**
    * Format estimate as CLI table with detailed breakdown
    */
@@ -153,12 +209,37 @@ export class OutputFormatter {
         wordWrap: true
       });
       
-      for (const resource of estimate.resources.sort((a, b) => b.monthlyCost - a.monthlyCost)) {
-        // Main resource row
+      for (const { resource, depth } of this.groupByParent(estimate.resources)) {
+        const indent = '   '.repeat(depth);
+        
+        // Main resource row; nested stacks show the total of the resources listed under them
         table.push([
-          { content: chalk.bold(this.truncate(resource.resourceId, 48)), colSpan: 3 },
-          chalk.bold(this.formatCurrency(resource.monthlyCost))
+          { content: chalk.bold(this.truncate(`${depth > 0 ? `${indent.slice(3)}↳ ` : ''}${resource.resourceId}`, 48)), colSpan: 3 },
+          chalk.bold(this.formatCurrency(resource.nestedStackMonthlyCost ?? resource.monthlyCost))
         ]);
+        
+        if (resource.nestedStackMonthlyCost !== undefined) {
+          table.push([
+            { content: chalk.gray(`${indent}  └─ ${resource.details[0]?.component || 'Nested stack'}`), colSpan: 4 },
+          ]);
+          continue;
+        }
+        
+        // On-Demand comparison row for resources covered by a commitment
+        if (this.hasCommitmentSavings(resource)) {
+          table.push([
+            { content: chalk.gray(`${indent}  On-Demand price`), colSpan: 3 },
+            chalk.gray(this.formatCurrency(resource.onDemandMonthlyCost!))
+          ]);
+        }
+        
+        // List price row for resources priced at negotiated rates
+        if (this.hasNegotiatedSavings(resource)) {
+          table.push([
+            { content: chalk.gray(`${indent}  List price`), colSpan: 3 },
+            chalk.gray(this.formatCurrency(resource.listMonthlyCost!))
+          ]);
+        }
 
         // Detail rows
         if (resource.details && resource.details.length > 0) {
@@ -168,16 +249,16 @@ export class OutputFormatter {
             
             // Format quantity
             let quantityStr = detail.quantity.toString();
-            if (detail.quantity >= 1000000) {
+            if (Math.abs(detail.quantity) >= 1000000) {
               quantityStr = `${(detail.quantity / 1000000).toFixed(1)}M`;
-            } else if (detail.quantity >= 1000) {
+            } else if (Math.abs(detail.quantity) >= 1000) {
               quantityStr = `${(detail.quantity / 1000).toFixed(1)}k`;
             } else if (detail.quantity % 1 !== 0) {
                 quantityStr = detail.quantity.toFixed(2);
             }
 
             table.push([
-              chalk.gray(`  ${treeSymbol} ${detail.component}`),
+              chalk.gray(`${indent}  ${treeSymbol} ${detail.component}`),
               chalk.gray(quantityStr),
               chalk.gray(detail.unit),
               chalk.gray(this.formatCurrency(detail.monthlyCost))
@@ -202,14 +283,80 @@ export class OutputFormatter {
     output.push(chalk.bold(`   💰 Total Monthly Cost: ${chalk.green(this.formatCurrency(estimate.totalMonthlyCost))}`));
     output.push(chalk.gray(`   📅 Estimated Annual: ${this.formatCurrency(estimate.totalMonthlyCost * 12)}`));
     
+    if (estimate.freeTierSavings) {
+      output.push(chalk.gray(`   🎁 Free Tier: -${this.formatCurrency(estimate.freeTierSavings)}/month (included in the total)`));
+    }
+    
+    if (estimate.pricingModel && estimate.onDemandMonthlyCost !== undefined) {
+      output.push(chalk.gray(`   🏷️  Pricing model: ${estimate.pricingModel}`));
+      output.push(chalk.gray(`   On-Demand equivalent: ${this.formatCurrency(estimate.onDemandMonthlyCost)}/month ` +
+        `(saves ${this.formatCurrency(estimate.onDemandMonthlyCost - estimate.totalMonthlyCost)}/month)`));
+    }
+    
+    if (estimate.listMonthlyCost !== undefined) {
+      output.push(chalk.gray(`   🤝 List price: ${this.formatCurrency(estimate.listMonthlyCost)}/month ` +
+        `(negotiated rates save ${this.formatCurrency(estimate.listMonthlyCost - estimate.totalMonthlyCost)}/month)`));
+    }
+    
+    if (estimate.pricing) {
+      output.push(chalk.gray(`   🧾 Pricing: ${this.formatPricingProvenance(estimate.pricing)}`));
+      if (estimate.pricing.stale) {
+        output.push(chalk.yellow(`   ⚠️  ${this.formatStalePricingWarning(estimate.pricing)}`));
+      }
+    }
+    
     if (estimate.unsupportedResources.length > 0) {
       output.push('');
       output.push(chalk.yellow(`   ⚠️  ${estimate.unsupportedResources.length} resources not priced (may have costs)`));
     }
     
+    const unresolved = estimate.resources.filter(r => r.unresolvedProperties && r.unresolvedProperties.length > 0);
+    if (unresolved.length > 0) {
+      output.push(chalk.yellow(`   ⚠️  ${unresolved.length} resources priced with default values for unresolved properties:`));
+      for (const resource of unresolved) {
+        output.push(chalk.gray(`      ${resource.resourceId}: ${resource.unresolvedProperties!.join(', ')}`));
+      }
+    }
+    
+    const missingPrices = estimate.resources.filter(r => r.warnings && r.warnings.length > 0);
+    if (missingPrices.length > 0) {
+      output.push(chalk.yellow(`   ⚠️  ${missingPrices.length} resources priced with default prices missing from the pricing data:`));
+      for (const resource of missingPrices) {
+        for (const warning of resource.warnings!) {
+          output.push(chalk.gray(`      ${resource.resourceId}: ${warning}`));
+        }
+      }
+    }
+    
+    const estimatedPrices = estimate.resources.filter(r => r.estimatedPrices && r.estimatedPrices.length > 0);
+    if (estimatedPrices.length > 0) {
+      output.push(chalk.yellow(`   ≈ ${estimatedPrices.length} resources priced with estimated instance prices:`));
+      for (const resource of estimatedPrices) {
+        for (const note of resource.estimatedPrices!) {
+          output.push(chalk.gray(`      ${resource.resourceId}: ${note}`));
+        }
+      }
+    }
+    
     return output.join('\n');
   }
   
+  /**
+   * Check whether a resource's effective cost differs from its On-Demand cost
+   */
+  private hasCommitmentSavings(resource: ResourceCost): boolean {
+    return resource.onDemandMonthlyCost !== undefined &&
+      Math.abs(resource.onDemandMonthlyCost - resource.monthlyCost) >= 0.005;
+  }
+  
+  /**
+   * Check whether a resource's net cost differs from its list price cost
+   */
+  private hasNegotiatedSavings(resource: ResourceCost): boolean {
+    return resource.listMonthlyCost !== undefined &&
+      Math.abs(resource.listMonthlyCost - resource.monthlyCost) >= 0.005;
+  }
+  
   /**
    * Format comparison as CLI table
    */
@@ -262,9 +409,9 @@ export class OutputFormatter {
             
             // Format quantity
             let quantityStr = detail.quantity.toString();
-            if (detail.quantity >= 1000000) {
+            if (Math.abs(detail.quantity) >= 1000000) {
               quantityStr = `${(detail.quantity / 1000000).toFixed(1)}M`;
-            } else if (detail.quantity >= 1000) {
+            } else if (Math.abs(detail.quantity) >= 1000) {
               quantityStr = `${(detail.quantity / 1000).toFixed(1)}k`;
             } else if (detail.quantity % 1 !== 0) {
               quantityStr = detail.quantity.toFixed(2);
@@ -297,6 +444,13 @@ export class OutputFormatter {
     output.push(this.formatChangeSummary(stats));
     output.push(this.formatCostSummary(comparison));
     
+    for (const pricing of this.getComparisonPricing(comparison)) {
+      output.push(chalk.gray(`   🧾 Pricing: ${this.formatPricingProvenance(pricing)}`));
+      if (pricing.stale) {
+        output.push(chalk.yellow(`   ⚠️  ${this.formatStalePricingWarning(pricing)}`));
+      }
+    }
+    
     return output.join('\n');
   }
   
@@ -314,24 +468,41 @@ export class OutputFormatter {
       lines.push('| Resource | Monthly Qty | Unit | Monthly Cost |');
       lines.push('|----------|------------:|------|-------------:|');
       
-      for (const resource of estimate.resources.sort((a, b) => b.monthlyCost - a.monthlyCost)) {
-        // Main resource row
-        lines.push(`| **${resource.resourceId}** | | | **${this.formatCurrency(resource.monthlyCost)}** |`);
+      for (const { resource, depth } of this.groupByParent(estimate.resources)) {
+        const indent = '&nbsp;&nbsp;&nbsp;'.repeat(depth);
+        
+        // Main resource row; nested stacks show the total of the resources listed under them
+        lines.push(`| ${depth > 0 ? `${indent}↳ ` : ''}**${resource.resourceId}** | | | **${this.formatCurrency(resource.nestedStackMonthlyCost ?? resource.monthlyCost)}** |`);
+        
+        if (resource.nestedStackMonthlyCost !== undefined) {
+          lines.push(`| ${indent}&nbsp;&nbsp; └─ _${resource.details[0]?.component || 'Nested stack'}_ | | | |`);
+          continue;
+        }
+        
+        // On-Demand comparison row for resources covered by a commitment
+        if (this.hasCommitmentSavings(resource)) {
+          lines.push(`| ${indent}&nbsp;&nbsp; _On-Demand price_ | | | _${this.formatCurrency(resource.onDemandMonthlyCost!)}_ |`);
+        }
+        
+        // List price row for resources priced at negotiated rates
+        if (this.hasNegotiatedSavings(resource)) {
+          lines.push(`| ${indent}&nbsp;&nbsp; _List price_ | | | _${this.formatCurrency(resource.listMonthlyCost!)}_ |`);
+        }
         
         // Detail rows
         if (resource.details && resource.details.length > 0) {
           for (const detail of resource.details) {
             // Format quantity
             let quantityStr = detail.quantity.toString();
-            if (detail.quantity >= 1000000) {
+            if (Math.abs(detail.quantity) >= 1000000) {
               quantityStr = `${(detail.quantity / 1000000).toFixed(1)}M`;
-            } else if (detail.quantity >= 1000) {
+            } else if (Math.abs(detail.quantity) >= 1000) {
               quantityStr = `${(detail.quantity / 1000).toFixed(1)}k`;
             } else if (detail.quantity % 1 !== 0) {
                 quantityStr = detail.quantity.toFixed(2);
             }
 
-            lines.push(`| &nbsp;&nbsp; └─ ${detail.component} | ${quantityStr} | ${detail.unit} | ${this.formatCurrency(detail.monthlyCost)} |`);
+            lines.push(`| ${indent}&nbsp;&nbsp; └─ ${detail.component} | ${quantityStr} | ${detail.unit} | ${this.formatCurrency(detail.monthlyCost)} |`);
           }
         }
       }
@@ -341,11 +512,62 @@ export class OutputFormatter {
     lines.push(`**💰 Total Monthly Cost: ${this.formatCurrency(estimate.totalMonthlyCost)}**`);
     lines.push(`📅 Estimated Annual: ${this.formatCurrency(estimate.totalMonthlyCost * 12)}`);
     
+    if (estimate.freeTierSavings) {
+      lines.push(`🎁 Free Tier: -${this.formatCurrency(estimate.freeTierSavings)}/month (included in the total)`);
+    }
+    
+    if (estimate.pricingModel && estimate.onDemandMonthlyCost !== undefined) {
+      lines.push(`🏷️ Pricing model: \`${estimate.pricingModel}\` — On-Demand equivalent ${this.formatCurrency(estimate.onDemandMonthlyCost)}/month ` +
+        `(saves ${this.formatCurrency(estimate.onDemandMonthlyCost - estimate.totalMonthlyCost)}/month)`);
+    }
+    
+    if (estimate.listMonthlyCost !== undefined) {
+      lines.push(`🤝 List price: ${this.formatCurrency(estimate.listMonthlyCost)}/month ` +
+        `(negotiated rates save ${this.formatCurrency(estimate.listMonthlyCost - estimate.totalMonthlyCost)}/month)`);
+    }
+    
+    if (estimate.pricing) {
+      lines.push(`🧾 Pricing: ${this.formatPricingProvenance(estimate.pricing)}`);
+      if (estimate.pricing.stale) {
+        lines.push('');
+        lines.push(`⚠️ ${this.formatStalePricingWarning(estimate.pricing)}`);
+      }
+    }
+    
     if (estimate.unsupportedResources.length > 0) {
       lines.push('');
       lines.push(`⚠️ ${estimate.unsupportedResources.length} resources not priced`);
     }
     
+    const unresolved = estimate.resources.filter(r => r.unresolvedProperties && r.unresolvedProperties.length > 0);
+    if (unresolved.length > 0) {
+      lines.push('');
+      lines.push(`⚠️ ${unresolved.length} resources priced with default values for unresolved properties: ` +
+        unresolved.map(r => `\`${r.resourceId}\` (${r.unresolvedProperties!.join(', ')})`).join(', '));
+    }
+    
+    const missingPrices = estimate.resources.filter(r => r.warnings && r.warnings.length > 0);
+    if (missingPrices.length > 0) {
+      lines.push('');
+      lines.push(`⚠️ ${missingPrices.length} resources priced with default prices missing from the pricing data:`);
+      for (const resource of missingPrices) {
+        for (const warning of resource.warnings!) {
+          lines.push(`- \`${resource.resourceId}\`: ${warning}`);
+        }
+      }
+    }
+    
+    const estimatedPrices = estimate.resources.filter(r => r.estimatedPrices && r.estimatedPrices.length > 0);
+    if (estimatedPrices.length > 0) {
+      lines.push('');
+      lines.push(`≈ ${estimatedPrices.length} resources priced with estimated instance prices:`);
+      for (const resource of estimatedPrices) {
+        for (const note of resource.estimatedPrices!) {
+          lines.push(`- \`${resource.resourceId}\`: ${note}`);
+        }
+      }
+    }
+    
     return lines.join('\n');
   }
   
@@ -410,6 +632,13 @@ export class OutputFormatter {
     lines.push(`- ➖ Removed: ${stats.totalRemoved} resources (-${this.formatCurrency(stats.removedCost)})`);
     lines.push(`- 🔄 Modified: ${stats.totalModified} resources (${this.formatDifference(stats.modifiedCostChange)})`);
     
+    for (const pricing of this.getComparisonPricing(comparison)) {
+      lines.push(`- 🧾 Pricing: ${this.formatPricingProvenance(pricing)}`);
+      if (pricing.stale) {
+        lines.push(`- ⚠️ ${this.formatStalePricingWarning(pricing)}`);
+      }
+    }
+    
     return lines.join('\n');
   }
   
@@ -496,17 +725,97 @@ export class OutputFormatter {
     lines.push('');
     lines.push(`> ➕ ${stats.totalAdded} added (+${this.formatCurrency(stats.addedCost)}) • ➖ ${stats.totalRemoved} removed (-${this.formatCurrency(stats.removedCost)}) • 🔄 ${stats.totalModified} modified`);
     
+    const pricing = this.getComparisonPricing(comparison);
+    if (pricing.length > 0) {
+      lines.push('');
+      lines.push(`<sub>🧾 Pricing: ${pricing.map(p => this.formatPricingProvenance(p)).join('; ')}</sub>`);
+    }
+    
     return lines.join('\n');
   }
   
   /**
-   * Format currency value
+   * Describe the pricing data behind an estimate in one line
+   */
+  private formatPricingProvenance(pricing: PricingProvenance): string {
+    const updated = pricing.lastUpdated ? pricing.lastUpdated.slice(0, 10) : 'unknown';
+    const age = pricing.ageDays !== undefined ? ` (${pricing.ageDays} days old)` : '';
+    const rates = pricing.rates ? `, net of ${pricing.rates}` : '';
+    const currency = this.currency.isBase() ? '' : `, amounts in ${this.currency.describe()}`;
+    return `${pricing.source}, ${pricing.region}, updated ${updated}${age}, sha256 ${pricing.hash.slice(0, 12)}${rates}${currency}`;
+  }
+  
+  /**
+   * Explain that an estimate used stale pricing data
+   */
+  private formatStalePricingWarning(pricing: PricingProvenance): string {
+    const age = pricing.ageDays !== undefined ? `is ${pricing.ageDays} days old` : 'has no valid update time';
+    return `Pricing data for ${pricing.region} ${age}, so estimates may not reflect current AWS prices.`;
+  }
+  
+  /**
+   * Get the distinct pricing data used by either side of a comparison
+   */
+  private getComparisonPricing(comparison: CostComparison): PricingProvenance[] {
+    const pricing = new Map<string, PricingProvenance>();
+    
+    for (const estimate of [comparison.before, comparison.after]) {
+      if (estimate.pricing) {
+        pricing.set(`${estimate.pricing.region}:${estimate.pricing.hash}`, estimate.pricing);
+      }
+    }
+    
+    return [...pricing.values()];
+  }
+  
+  /**
+   * Build a GitHub alert for comparisons priced with stale pricing data
+   */
+  private formatStalePricingAlert(comparisons: CostComparison[]): string | null {
+    const stale = new Map<string, PricingProvenance>();
+    
+    for (const comparison of comparisons) {
+      for (const pricing of this.getComparisonPricing(comparison)) {
+        if (pricing.stale) {
+          stale.set(`${pricing.region}:${pricing.hash}`, pricing);
+        }
+      }
+    }
+    
+    if (stale.size === 0) {
+      return null;
+    }
+    
+    const lines = ['> [!WARNING]'];
+    for (const pricing of stale.values()) {
+      lines.push(`> ${this.formatStalePricingWarning(pricing)}`);
+    }
+    lines.push('');
+    lines.push('');
+    
+    return lines.join('\n');
+  }
+  
+  /**
+   * Format estimates or comparisons as JSON, with the amounts in the
+   * reporting currency next to the US dollar amounts
+   */
+  private formatJson(value: unknown): string {
+    return JSON.stringify(this.currency.isBase() ? value : this.currency.withConvertedValues(value), null, 2);
+  }
+  
+  /**
+   * Format a US dollar amount in the reporting currency
    */
   private formatCurrency(value: number): string {
-    if (value < 0.01 && value > 0) {
-      return '<$0.01';
+    if (value < 0) {
+      return '-' + this.formatCurrency(-value);
+    }
+    const amount = this.currency.convert(value);
+    if (amount < 0.01 && amount > 0) {
+      return '<' + this.currency.format(0.01);
     }
-    return '$' + value.toFixed(2);
+    return this.currency.format(amount);
   }
   
   /**
@@ -651,6 +960,11 @@ export class OutputFormatter {
     lines.push('*Estimated infrastructure costs based on CloudFormation changes*');
     lines.push('');
     
+    const staleAlert = this.formatStalePricingAlert(comparisons);
+    if (staleAlert) {
+      lines.push(staleAlert);
+    }
+    
     // Calculate totals
     let totalBefore = 0;
     let totalAfter = 0;
@@ -0,0 +1,100 @@
+/**
+ * Parameter Overrides
+ * Loads template parameter values from CLI flags and parameter files, so
+ * estimates can use the values a stack is actually deployed with
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Parameter values keyed by parameter name
+ */
+export type ParameterValues = Record<string, string>;
+
+export class ParameterOverrides {
+  /**
+   * Load parameter values from a file. Accepts the CloudFormation CLI format
+   * ([{ "ParameterKey": "Env", "ParameterValue": "prod" }]) and CodePipeline
+   * template configuration files ({ "Parameters": { "Env": "prod" } })
+   */
+  static fromFile(filePath: string): ParameterValues {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Parameters file not found: ${absolutePath}`);
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    return this.fromContent(content, filePath);
+  }
+
+  /**
+   * Parse parameter values from string content
+   */
+  static fromContent(content: string, sourceName: string = 'parameters file'): ParameterValues {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${sourceName} as JSON: ${error}`);
+    }
+
+    // CloudFormation CLI format
+    if (Array.isArray(parsed)) {
+      const values: ParameterValues = {};
+
+      for (const entry of parsed) {
+        if (!entry || typeof entry !== 'object' || typeof entry.ParameterKey !== 'string') {
+          throw new Error(`Invalid parameter entry in ${sourceName}: expected ParameterKey and ParameterValue`);
+        }
+
+        // UsePreviousValue entries have no value to estimate with
+        if (entry.ParameterValue === undefined) {
+          continue;
+        }
+
+        values[entry.ParameterKey] = String(entry.ParameterValue);
+      }
+
+      return values;
+    }
+
+    // CodePipeline template configuration format
+    if (parsed && typeof parsed === 'object') {
+      const parameters = (parsed as Record<string, unknown>).Parameters;
+
+      if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+        throw new Error(`Invalid ${sourceName}: expected a Parameters map`);
+      }
+
+      const values: ParameterValues = {};
+      for (const [key, value] of Object.entries(parameters as Record<string, unknown>)) {
+        values[key] = String(value);
+      }
+
+      return values;
+    }
+
+    throw new Error(`Invalid ${sourceName}: expected a list of parameters or a template configuration`);
+  }
+
+  /**
+   * Parse Key=Value assignments from the command line
+   */
+  static fromAssignments(assignments: string[]): ParameterValues {
+    const values: ParameterValues = {};
+
+    for (const assignment of assignments) {
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Invalid parameter "${assignment}": expected Key=Value`);
+      }
+
+      values[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    }
+
+    return values;
+  }
+}
@@ -7,9 +7,15 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { PricingProvenance } from './types';
+import { PricingValidator } from './pricing-validator';
+import { PricingSnapshots } from './pricing-snapshots';
+import { NegotiatedRates } from './negotiated-rates';
 
 export const HOURS_PER_MONTH = 730;
 export const DEFAULT_REGION = 'us-east-1';
+export const PRICING_STALE_AFTER_DAYS = 7;
 
 // Pricing data structure from JSON file - comprehensive coverage of Infracost-supported resources
 export interface AWSpricingData {
@@ -36,9 +42,23 @@ export interface AWSpricingData {
   };
   aurora: {
     instances: Record<string, number>;
+    /** Instance prices in I/O-Optimized clusters */
+    ioOptimizedInstances?: Record<string, number>;
+    /** Standard cluster storage, per GB-month */
     storage: number;
+    /** I/O-Optimized cluster storage, per GB-month */
+    ioOptimizedStorage?: number;
+    /** Standard cluster I/O, per million requests */
     ioRequests: number;
+    /** Backtrack change records, per million records per hour */
     backtrackChanges: number;
+    /** Serverless v2 capacity in Standard and I/O-Optimized clusters, per ACU-hour */
+    serverlessV2Acu?: number;
+    ioOptimizedServerlessV2Acu?: number;
+    /** Serverless v1 capacity, per ACU-hour */
+    serverlessAcu?: number;
+    /** Global database write I/Os replicated to a secondary region, per million */
+    replicatedWriteIOs?: number;
   };
   elasticache: {
     nodes: Record<string, number>;
@@ -126,7 +146,18 @@ export interface AWSpricingData {
     requests: number;
     duration: number;
     durationArm?: number;
+    /** Provisioned concurrency kept warm, per GB-second */
     provisionedConcurrency: number;
+    provisionedConcurrencyArm?: number;
+    /** Duration of invocations that run on provisioned concurrency, per GB-second */
+    provisionedDuration?: number;
+    provisionedDurationArm?: number;
+    /** Ephemeral storage above the free 512MB, per GB-second */
+    ephemeralStorage?: number;
+    /** SnapStart snapshot cache, per GB-second */
+    snapStartCache?: number;
+    /** SnapStart restores, per GB restored */
+    snapStartRestore?: number;
   };
   apiGateway: {
     rest: number;
@@ -393,6 +424,12 @@ export interface AWSpricingData {
   fargate: {
     vcpuHourly: number;
     memoryGBHourly: number;
+    armVcpuHourly?: number;
+    armMemoryGBHourly?: number;
+    /** Per GB-hour of ephemeral storage above the 20GB included with each task */
+    ephemeralStorageGBHourly?: number;
+    spotVcpuHourly?: number;
+    spotMemoryGBHourly?: number;
   };
   
   // Generic other pricing
@@ -479,16 +516,56 @@ export interface AWSpricingData {
       dataScanned: number;
     };
   };
+  
+  // Reserved Instance and Savings Plans prices, keyed by pricing model
+  commitments?: Record<string, CommitmentPricing>;
 }
+
+/**
+ * Effective hourly term prices for one pricing model (upfront fees amortized
+ * over the term), in the same units as the On-Demand sections they replace
+ */
+export interface CommitmentPricing {
+  ec2?: Record<string, number>;
+  rds?: Record<string, Record<string, number>>;
+  aurora?: Record<string, number>;
+  elasticache?: Record<string, number>;
+  opensearch?: Record<string, number>;
+  redshift?: Record<string, number>;
+  fargate?: {
+    vcpuHourly?: number;
+    memoryGBHourly?: number;
+    armVcpuHourly?: number;
+    armMemoryGBHourly?: number;
+  };
+  lambda?: {
+    duration?: number;
+    durationArm?: number;
+  };
+}
+
 // Cache for loaded pricing data
 let pricingDataCache: Record<string, AWSpricingData> | null = null;
 
+// Regions whose pricing data has passed the load-time check
+const checkedRegions = new Set<string>();
+
+// Description of where the cached pricing data came from, and its hash per region
+let pricingSourceDescription = 'bundled pricing data';
+const pricingHashes = new Map<string, string>();
+
+// Negotiated rates applied on top of the list prices, and the net pricing per region
+let negotiatedRates: NegotiatedRates | undefined;
+const netPricingCache = new Map<string, AWSpricingData>();
+
 /**
- * Load pricing data from JSON file
+ * Find the pricing data file bundled with the package: the latest dated
+ * snapshot, or aws-pricing.json when there are no snapshots
  */
-function loadPricingData(): Record<string, AWSpricingData> {
-  if (pricingDataCache) {
-    return pricingDataCache;
+export function findBundledPricingFile(): string | undefined {
+  const latestSnapshot = PricingSnapshots.latest();
+  if (latestSnapshot) {
+    return latestSnapshot.filePath;
   }
   
   // Try to load from data directory (multiple possible locations)
@@ -502,15 +579,53 @@ function loadPricingData(): Record<string, AWSpricingData> {
     path.join(__dirname, '..', 'data', 'aws-pricing.json')
   ];
 
-  for (const dataPath of possiblePaths) {
+  return possiblePaths.find(dataPath => fs.existsSync(dataPath));
+}
+
+/**
+ * Replace the pricing data used by getRegionalPricing, e.g. with data loaded
+ * from a pricing source other than the bundled file
+ */
+export function setPricingData(data: Record<string, AWSpricingData>, source: string = 'custom pricing data'): void {
+  pricingDataCache = data;
+  pricingSourceDescription = source;
+  checkedRegions.clear();
+  pricingHashes.clear();
+  netPricingCache.clear();
+}
+
+/**
+ * Apply negotiated rates to the prices returned by getRegionalPricing, or
+ * go back to list prices when called without rates
+ */
+export function setNegotiatedRates(rates: NegotiatedRates | undefined): void {
+  negotiatedRates = rates;
+  netPricingCache.clear();
+}
+
+/**
+ * Get the negotiated rates applied on top of the list prices, if any
+ */
+export function getNegotiatedRates(): NegotiatedRates | undefined {
+  return negotiatedRates;
+}
+
+/**
+ * Load pricing data from JSON file
+ */
+function loadPricingData(): Record<string, AWSpricingData> {
+  if (pricingDataCache) {
+    return pricingDataCache;
+  }
+  
+  const dataPath = findBundledPricingFile();
+  if (dataPath) {
     try {
-      if (fs.existsSync(dataPath)) {
-        const data = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
-        pricingDataCache = data;
-        return data;
-      }
+      const data = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
+      pricingDataCache = data;
+      return data;
     } catch (error) {
-      // Continue to next path
+      // Fall through to the warning below
     }
   }
   
@@ -524,20 +639,65 @@ function loadPricingData(): Record<string, AWSpricingData> {
 }
 
 /**
- * Get pricing data for a specific region
+ * Get pricing data for a specific region, at the negotiated rates when they
+ * are set unless list prices are asked for. Throws when the pricing data has
+ * no prices for the region, rather than estimating from fallback constants.
  */
-export function getRegionalPricing(region: string): AWSpricingData {
+export function getRegionalPricing(region: string, listPrices: boolean = false): AWSpricingData {
   const allPricing = loadPricingData();
   
   // Return exact match if available
   if (allPricing[region]) {
-    return allPricing[region];
+    if (!checkedRegions.has(region)) {
+      checkRegionalPricing(region, allPricing[region]);
+      checkedRegions.add(region);
+    }
+    if (listPrices || !negotiatedRates) {
+      return allPricing[region];
+    }
+    
+    let netPricing = netPricingCache.get(region);
+    if (!netPricing) {
+      netPricing = negotiatedRates.applyTo(allPricing[region]);
+      netPricingCache.set(region, netPricing);
+    }
+    return netPricing;
+  }
+  
+  const available = Object.keys(allPricing);
+  if (available.length === 0) {
+    throw new Error('No pricing data available. Run "npm run update-pricing" to fetch it.');
+  }
+  
+  throw new Error(
+    `No pricing data for region ${region}. Available regions: ${available.join(', ')}. ` +
+    `Run "npm run update-pricing -- --regions ${region}" to fetch it.`
+  );
+}
+
+/**
+ * Fail on pricing data whose sections are missing or mistyped, which would
+ * otherwise surface as errors inside the resource calculators
+ */
+function checkRegionalPricing(region: string, pricing: AWSpricingData): void {
+  const errors = PricingValidator.findStructuralErrors(region, pricing);
+  if (errors.length === 0) {
+    return;
   }
   
-  // If no base pricing (e.g. no file loaded), we can't provide data
-  // But we must return an object matching the interface to avoid runtime crashes
-  // It will be empty/undefined values mostly
-  return {} as AWSpricingData;
+  const shown = errors.slice(0, 5).map(error => error.message).join('; ');
+  const more = errors.length > 5 ? ` and ${errors.length - 5} more` : '';
+  throw new Error(
+    `Invalid pricing data for region ${region}: ${shown}${more}. ` +
+    `Run "cfn-cost pricing validate -r ${region}" for a full report.`
+  );
+}
+
+/**
+ * Get the regions the pricing data has prices for
+ */
+export function getAvailableRegions(): string[] {
+  return Object.keys(loadPricingData());
 }
 
 /**
@@ -843,13 +1003,13 @@ export const FREE_RESOURCES = new Set([
   'AWS::KMS::Grant',
   
   // Lambda
-  'AWS::Lambda::Alias',
   'AWS::Lambda::CodeSigningConfig',
   'AWS::Lambda::EventSourceMapping',
   'AWS::Lambda::EventInvokeConfig',
   'AWS::Lambda::LayerVersion',
   'AWS::Lambda::LayerVersionPermission',
   'AWS::Lambda::Permission',
+  'AWS::Lambda::Url',
   
   // Launch Configuration/Template
   'AWS::AutoScaling::LaunchConfiguration',
@@ -903,6 +1063,7 @@ export const FREE_RESOURCES = new Set([
   // RDS Cluster
   'AWS::RDS::DBClusterEndpoint',
   'AWS::RDS::DBClusterParameterGroup',
+  'AWS::RDS::GlobalCluster',
   
   // Resource Groups
   'AWS::ResourceGroups::Group',
@@ -944,6 +1105,7 @@ export const FREE_RESOURCES = new Set([
   
   // SNS
   'AWS::SNS::PlatformApplication',
+  'AWS::SNS::Subscription',
   'AWS::SNS::TopicPolicy',
   
   // SQS
@@ -1025,7 +1187,7 @@ export const USAGE_BASED_RESOURCES = new Set([
   'AWS::ApiGatewayV2::Api',
   'AWS::StepFunctions::StateMachine',
   'AWS::Kinesis::Stream',
-  'AWS::Firehose::DeliveryStream',
+  'AWS::KinesisFirehose::DeliveryStream',
   'AWS::CloudFront::Distribution',
   'AWS::Logs::LogGroup', // Data ingestion and storage costs
   'AWS::Glue::Job',
@@ -1043,22 +1205,52 @@ export const USAGE_BASED_RESOURCES = new Set([
 /**
  * Get the last update time of pricing data
  */
-export function getPricingDataLastUpdated(): string | null {
+export function getPricingDataLastUpdated(region: string = DEFAULT_REGION): string | null {
   const allPricing = loadPricingData();
-  const usEast = allPricing['us-east-1'];
-  return usEast?.lastUpdated || null;
+  return allPricing[region]?.lastUpdated || null;
+}
+
+/**
+ * Get the age of a region's pricing data in days, or null when its update
+ * time is missing or unreadable
+ */
+export function getPricingDataAge(region: string = DEFAULT_REGION): number | null {
+  const lastUpdated = getPricingDataLastUpdated(region);
+  const updateTime = lastUpdated ? new Date(lastUpdated).getTime() : NaN;
+  if (Number.isNaN(updateTime)) return null;
+  
+  return (Date.now() - updateTime) / (1000 * 60 * 60 * 24);
+}
+
+/**
+ * Check if pricing data needs to be updated (older than 7 days by default)
+ */
+export function isPricingDataStale(region: string = DEFAULT_REGION, maxAgeDays: number = PRICING_STALE_AFTER_DAYS): boolean {
+  const ageDays = getPricingDataAge(region);
+  return ageDays === null || ageDays > maxAgeDays;
 }
 
 /**
- * Check if pricing data needs to be updated (older than 7 days)
+ * Describe the pricing data used for a region: its source, update time, a
+ * hash of the list prices and the negotiated rates applied to them
  */
-export function isPricingDataStale(): boolean {
-  const lastUpdated = getPricingDataLastUpdated();
-  if (!lastUpdated) return true;
+export function getPricingProvenance(region: string): PricingProvenance {
+  const pricing = getRegionalPricing(region, true);
   
-  const updateDate = new Date(lastUpdated);
-  const now = new Date();
-  const daysSinceUpdate = (now.getTime() - updateDate.getTime()) / (1000 * 60 * 60 * 24);
+  let hash = pricingHashes.get(region);
+  if (!hash) {
+    hash = crypto.createHash('sha256').update(JSON.stringify(pricing)).digest('hex');
+    pricingHashes.set(region, hash);
+  }
   
-  return daysSinceUpdate > 7;
+  const ageDays = getPricingDataAge(region);
+  return {
+    source: pricingSourceDescription,
+    region,
+    lastUpdated: pricing.lastUpdated,
+    ageDays: ageDays === null ? undefined : Math.floor(ageDays),
+    stale: isPricingDataStale(region),
+    hash,
+    rates: negotiatedRates?.describe(),
+  };
 }
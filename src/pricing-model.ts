@@ -0,0 +1,279 @@
+/**
+ * Pricing Models
+ * Applies Reserved Instance and Savings Plans term prices on top of
+ * On-Demand pricing, per service, from a commitments config
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { AWSpricingData } from './pricing-data';
+
+export type PricingModel =
+  | 'on-demand'
+  | 'reserved-1yr-no-upfront'
+  | 'reserved-3yr-all-upfront'
+  | 'compute-savings-plan';
+
+export const PRICING_MODELS: PricingModel[] = [
+  'on-demand',
+  'reserved-1yr-no-upfront',
+  'reserved-3yr-all-upfront',
+  'compute-savings-plan',
+];
+
+/**
+ * Services whose prices can be covered by a commitment
+ */
+export type CommitmentService = 'ec2' | 'rds' | 'elasticache' | 'opensearch' | 'redshift' | 'fargate' | 'lambda';
+
+/**
+ * Pricing models each service can be bought under. Compute Savings Plans
+ * cover EC2, Fargate and Lambda; Reserved Instances cover the rest
+ */
+const SERVICE_MODELS: Record<CommitmentService, PricingModel[]> = {
+  ec2: ['on-demand', 'reserved-1yr-no-upfront', 'reserved-3yr-all-upfront', 'compute-savings-plan'],
+  rds: ['on-demand', 'reserved-1yr-no-upfront', 'reserved-3yr-all-upfront'],
+  elasticache: ['on-demand', 'reserved-1yr-no-upfront', 'reserved-3yr-all-upfront'],
+  opensearch: ['on-demand', 'reserved-1yr-no-upfront', 'reserved-3yr-all-upfront'],
+  redshift: ['on-demand', 'reserved-1yr-no-upfront', 'reserved-3yr-all-upfront'],
+  fargate: ['on-demand', 'compute-savings-plan'],
+  lambda: ['on-demand', 'compute-savings-plan'],
+};
+
+/**
+ * Commitment for a single service: a pricing model and the share of usage
+ * it covers (the rest is billed On-Demand)
+ */
+export interface ServiceCommitment {
+  model: PricingModel;
+  coverage?: number;
+}
+
+/**
+ * Structure of a commitments file
+ *
+ * default: on-demand
+ * services:
+ *   ec2: compute-savings-plan
+ *   rds:
+ *     model: reserved-1yr-no-upfront
+ *     coverage: 0.8
+ */
+export interface CommitmentsConfig {
+  default?: PricingModel;
+  services?: Partial<Record<CommitmentService, PricingModel | ServiceCommitment>>;
+}
+
+export class Commitments {
+  private defaultModel: PricingModel;
+  private services: Partial<Record<CommitmentService, ServiceCommitment>>;
+
+  constructor(config: CommitmentsConfig = {}) {
+    this.defaultModel = config.default || 'on-demand';
+    this.services = {};
+
+    for (const [service, commitment] of Object.entries(config.services || {})) {
+      this.services[service as CommitmentService] = typeof commitment === 'string'
+        ? { model: commitment }
+        : commitment;
+    }
+  }
+
+  /**
+   * Load commitments from a YAML or JSON file
+   */
+  static fromFile(filePath: string): Commitments {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Commitments file not found: ${absolutePath}`);
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    return this.fromContent(content, filePath);
+  }
+
+  /**
+   * Parse commitments from string content
+   */
+  static fromContent(content: string, sourceName: string = 'commitments file'): Commitments {
+    let config: CommitmentsConfig;
+
+    try {
+      config = (yaml.parse(content) as CommitmentsConfig) || {};
+    } catch (error) {
+      throw new Error(`Failed to parse ${sourceName} as JSON or YAML: ${error}`);
+    }
+
+    if (typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Invalid commitments structure in ${sourceName}`);
+    }
+
+    if (config.default !== undefined) {
+      this.validateModel(config.default, `default in ${sourceName}`);
+    }
+
+    for (const [service, commitment] of Object.entries(config.services || {})) {
+      if (!(service in SERVICE_MODELS)) {
+        throw new Error(`Unknown service "${service}" in ${sourceName}. Expected one of: ${Object.keys(SERVICE_MODELS).join(', ')}`);
+      }
+
+      const { model, coverage } = typeof commitment === 'string' ? { model: commitment, coverage: undefined } : commitment || {};
+      this.validateModel(model, `services.${service} in ${sourceName}`);
+
+      if (!SERVICE_MODELS[service as CommitmentService].includes(model as PricingModel)) {
+        throw new Error(`Pricing model ${model} does not apply to ${service} in ${sourceName}`);
+      }
+
+      if (coverage !== undefined && (typeof coverage !== 'number' || coverage < 0 || coverage > 1)) {
+        throw new Error(`Invalid coverage for services.${service} in ${sourceName}: expected a number between 0 and 1`);
+      }
+    }
+
+    return new Commitments(config);
+  }
+
+  /**
+   * Use a single pricing model for every service it applies to
+   */
+  static forModel(model: PricingModel): Commitments {
+    this.validateModel(model, '--pricing-model');
+    return new Commitments({ default: model });
+  }
+
+  /**
+   * Override the default pricing model, keeping per-service commitments
+   */
+  withDefault(model: PricingModel): Commitments {
+    Commitments.validateModel(model, '--pricing-model');
+    return new Commitments({ default: model, services: this.services });
+  }
+
+  /**
+   * Get the commitment applied to a service
+   */
+  getCommitment(service: CommitmentService): ServiceCommitment {
+    const commitment = this.services[service];
+    if (commitment) {
+      return commitment;
+    }
+
+    // The default only applies to services that can be bought under it
+    return SERVICE_MODELS[service].includes(this.defaultModel)
+      ? { model: this.defaultModel }
+      : { model: 'on-demand' };
+  }
+
+  /**
+   * Check whether every service is billed On-Demand
+   */
+  isOnDemand(): boolean {
+    return (Object.keys(SERVICE_MODELS) as CommitmentService[])
+      .every(service => this.getCommitment(service).model === 'on-demand');
+  }
+
+  /**
+   * Describe the commitments for reports, e.g. "compute-savings-plan (rds: reserved-1yr-no-upfront 80%)"
+   */
+  describe(): string {
+    const overrides = Object.entries(this.services)
+      .filter(([, commitment]) => commitment!.model !== this.defaultModel || commitment!.coverage !== undefined)
+      .map(([service, commitment]) => {
+        const coverage = commitment!.coverage !== undefined ? ` ${Math.round(commitment!.coverage * 100)}%` : '';
+        return `${service}: ${commitment!.model}${coverage}`;
+      });
+
+    return overrides.length > 0 ? `${this.defaultModel} (${overrides.join(', ')})` : this.defaultModel;
+  }
+
+  /**
+   * List the pricing models in use whose term prices are missing from the
+   * pricing data. The services under them are priced On-Demand
+   */
+  getMissingModels(pricing: AWSpricingData): PricingModel[] {
+    const missing = new Set<PricingModel>();
+
+    for (const service of Object.keys(SERVICE_MODELS) as CommitmentService[]) {
+      const { model } = this.getCommitment(service);
+      if (model !== 'on-demand' && !pricing.commitments?.[model]) {
+        missing.add(model);
+      }
+    }
+
+    return [...missing];
+  }
+
+  /**
+   * Build effective pricing by blending the term prices for each committed
+   * service into a copy of the On-Demand pricing. Services whose term prices
+   * are missing keep their On-Demand prices (see getMissingModels)
+   */
+  applyTo(pricing: AWSpricingData): AWSpricingData {
+    const effective = structuredClone(pricing);
+
+    for (const service of Object.keys(SERVICE_MODELS) as CommitmentService[]) {
+      const { model, coverage = 1 } = this.getCommitment(service);
+      if (model === 'on-demand') {
+        continue;
+      }
+
+      const terms = pricing.commitments?.[model];
+      if (!terms) {
+        continue;
+      }
+
+      const blend = (onDemand: number | undefined, term: number) =>
+        onDemand === undefined ? term : coverage * term + (1 - coverage) * onDemand;
+      const overlay = (target: Record<string, number> | undefined, prices: Record<string, number | undefined> | undefined) => {
+        if (!target || !prices) return;
+        for (const [key, price] of Object.entries(prices)) {
+          if (typeof price === 'number') {
+            target[key] = blend(target[key], price);
+          }
+        }
+      };
+
+      switch (service) {
+        case 'ec2':
+          overlay(effective.ec2?.instances, terms.ec2);
+          break;
+        case 'rds':
+          for (const [engine, prices] of Object.entries(terms.rds || {})) {
+            if (effective.rds?.instances) {
+              effective.rds.instances[engine] = effective.rds.instances[engine] || {};
+              overlay(effective.rds.instances[engine], prices);
+            }
+          }
+          overlay(effective.aurora?.instances, terms.aurora);
+          break;
+        case 'elasticache':
+          overlay(effective.elasticache?.nodes, terms.elasticache);
+          break;
+        case 'opensearch':
+          overlay(effective.opensearch?.instances, terms.opensearch);
+          break;
+        case 'redshift':
+          overlay(effective.redshift?.instances, terms.redshift);
+          break;
+        case 'fargate':
+          overlay(effective.fargate as unknown as Record<string, number>, terms.fargate);
+          break;
+        case 'lambda':
+          overlay(effective.lambda as unknown as Record<string, number>, terms.lambda);
+          break;
+      }
+    }
+
+    return effective;
+  }
+
+  /**
+   * Ensure a value is a known pricing model
+   */
+  private static validateModel(model: unknown, sourceName: string): void {
+    if (!PRICING_MODELS.includes(model as PricingModel)) {
+      throw new Error(`Invalid pricing model "${model}" for ${sourceName}. Expected one of: ${PRICING_MODELS.join(', ')}`);
+    }
+  }
+}
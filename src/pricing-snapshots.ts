@@ -0,0 +1,183 @@
+/**
+ * Pricing Snapshots
+ * Dated copies of the pricing data written by update-pricing, for pricing
+ * templates as of an earlier date and comparing prices between dates
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AWSpricingData } from './pricing-data';
+
+const SNAPSHOT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.json$/;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * A pricing data file named after the date it was fetched, e.g. data/pricing/2025-12-05.json
+ */
+export interface PricingSnapshot {
+  date: string;
+  filePath: string;
+}
+
+/**
+ * A unit price that differs between two snapshots
+ */
+export interface PriceChange {
+  region: string;
+  /** Dotted path of the price, e.g. "ec2.instances.t3.micro" */
+  path: string;
+  /** Missing when the price was added */
+  before?: number;
+  /** Missing when the price was removed */
+  after?: number;
+  /** Change relative to the before price, when both exist and before is non-zero */
+  percentChange?: number;
+}
+
+export class PricingSnapshots {
+  /**
+   * Find the snapshot directory bundled with the package
+   */
+  static findDirectory(): string | undefined {
+    // dist/data/pricing when built, data/pricing when running from source
+    const possibleDirs = [
+      path.join(__dirname, 'data', 'pricing'),
+      path.join(__dirname, '..', 'data', 'pricing'),
+    ];
+
+    return possibleDirs.find(dir => fs.existsSync(dir));
+  }
+
+  /**
+   * List the snapshots in a directory, oldest first
+   */
+  static list(directory: string | undefined = this.findDirectory()): PricingSnapshot[] {
+    if (!directory || !fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(directory)
+      .map(file => SNAPSHOT_FILE_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => ({ date: match[1], filePath: path.join(directory, match[0]) }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Get the most recent snapshot
+   */
+  static latest(directory?: string): PricingSnapshot | undefined {
+    const snapshots = this.list(directory);
+    return snapshots[snapshots.length - 1];
+  }
+
+  /**
+   * Find the snapshot with the prices in effect on a date: the latest one
+   * taken on or before it, or the earliest one when the date predates them all
+   */
+  static findNearest(date: string, directory?: string): PricingSnapshot {
+    const day = this.normalizeDate(date);
+    const snapshots = this.list(directory);
+
+    if (snapshots.length === 0) {
+      throw new Error('No pricing snapshots found in data/pricing. Run "npm run update-pricing" to create one.');
+    }
+
+    const onOrBefore = snapshots.filter(snapshot => snapshot.date <= day);
+    return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : snapshots[0];
+  }
+
+  /**
+   * Delete all but the most recent snapshots in a directory, returning the
+   * deleted ones
+   */
+  static prune(directory: string, keep: number): PricingSnapshot[] {
+    if (!Number.isInteger(keep) || keep < 1) {
+      throw new Error(`Invalid number of snapshots to keep "${keep}". Expected a whole number of at least 1`);
+    }
+
+    const snapshots = this.list(directory);
+    const removed = snapshots.slice(0, Math.max(0, snapshots.length - keep));
+    for (const snapshot of removed) {
+      fs.unlinkSync(snapshot.filePath);
+    }
+    return removed;
+  }
+
+  /**
+   * Read a snapshot's pricing data
+   */
+  static load(snapshot: PricingSnapshot): Record<string, AWSpricingData> {
+    try {
+      return JSON.parse(fs.readFileSync(snapshot.filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read pricing snapshot ${snapshot.filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * List the unit prices that changed, were added or were removed between
+   * two sets of pricing data, optionally for a single region
+   */
+  static diff(
+    before: Record<string, AWSpricingData>,
+    after: Record<string, AWSpricingData>,
+    region?: string
+  ): PriceChange[] {
+    const regions = region ? [region] : [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    const changes: PriceChange[] = [];
+
+    for (const regionName of regions) {
+      const beforePrices = new Map<string, number>();
+      const afterPrices = new Map<string, number>();
+      this.flattenPrices(before[regionName], [], beforePrices);
+      this.flattenPrices(after[regionName], [], afterPrices);
+
+      for (const pricePath of new Set([...beforePrices.keys(), ...afterPrices.keys()])) {
+        const beforePrice = beforePrices.get(pricePath);
+        const afterPrice = afterPrices.get(pricePath);
+        if (beforePrice === afterPrice) {
+          continue;
+        }
+
+        const change: PriceChange = { region: regionName, path: pricePath, before: beforePrice, after: afterPrice };
+        if (beforePrice !== undefined && afterPrice !== undefined && beforePrice !== 0) {
+          change.percentChange = ((afterPrice - beforePrice) / beforePrice) * 100;
+        }
+        changes.push(change);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Check a date given on the command line is a calendar date in YYYY-MM-DD
+   * form. It is read as written rather than through Date, which would shift
+   * it by the local time zone
+   */
+  static normalizeDate(date: string): string {
+    const match = DATE_PATTERN.exec(date.trim());
+    const [year, month, day] = match ? match.slice(1).map(Number) : [];
+    const parsed = match ? new Date(Date.UTC(year, month - 1, day)) : undefined;
+
+    if (!parsed || parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+      throw new Error(`Invalid pricing date "${date}". Expected a date such as 2025-12-05`);
+    }
+    return match![0];
+  }
+
+  /**
+   * Collect every numeric price under a value, keyed by dotted path
+   */
+  private static flattenPrices(value: unknown, pricePath: string[], prices: Map<string, number>): void {
+    if (typeof value === 'number') {
+      prices.set(pricePath.join('.'), value);
+    } else if (value && typeof value === 'object') {
+      for (const [key, entry] of Object.entries(value)) {
+        this.flattenPrices(entry, [...pricePath, key], prices);
+      }
+    }
+  }
+}
@@ -0,0 +1,629 @@
+/**
+ * Pricing Sources
+ * Where pricing data is loaded from: the bundled aws-pricing.json, AWS Price
+ * List bulk offer files on disk, or an HTTP mirror of aws-pricing.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import * as readline from 'readline';
+import { AWSpricingData, findBundledPricingFile, setPricingData } from './pricing-data';
+import { PricingSnapshots, PricingSnapshot } from './pricing-snapshots';
+
+/**
+ * Environment variable selecting the pricing source when --pricing-source is not given
+ */
+export const PRICING_SOURCE_ENV = 'CFN_COST_PRICING_SOURCE';
+
+/**
+ * A source of pricing data, keyed by region
+ */
+export interface PricingSource {
+  /** Human-readable description for verbose output */
+  readonly description: string;
+  load(): Promise<Record<string, AWSpricingData>>;
+}
+
+/**
+ * Check that loaded pricing data is a map of region to pricing
+ */
+function validatePricingData(data: unknown, sourceName: string): Record<string, AWSpricingData> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid pricing data in ${sourceName}: expected an object keyed by region`);
+  }
+
+  for (const [region, pricing] of Object.entries(data as Record<string, unknown>)) {
+    if (!pricing || typeof pricing !== 'object' || Array.isArray(pricing)) {
+      throw new Error(`Invalid pricing data for region ${region} in ${sourceName}`);
+    }
+  }
+
+  return data as Record<string, AWSpricingData>;
+}
+
+/**
+ * Pricing data file in the aws-pricing.json format, by default the one
+ * bundled with the package
+ */
+export class BundledPricingSource implements PricingSource {
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  get description(): string {
+    return this.filePath ? `pricing file ${this.filePath}` : 'bundled pricing data';
+  }
+
+  /**
+   * Read and parse the pricing file
+   */
+  async load(): Promise<Record<string, AWSpricingData>> {
+    const filePath = this.filePath ? path.resolve(this.filePath) : findBundledPricingFile();
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new Error(`Pricing data file not found: ${filePath || 'data/aws-pricing.json'}. Run "npm run update-pricing" to fetch it.`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse pricing data file ${filePath}: ${error}`);
+    }
+
+    return validatePricingData(data, filePath);
+  }
+}
+
+/**
+ * The dated pricing snapshot in effect on a given date, for re-pricing a
+ * template as of that date
+ */
+export class SnapshotPricingSource implements PricingSource {
+  private date: string;
+  private snapshot: PricingSnapshot;
+
+  constructor(date: string, directory?: string) {
+    this.date = PricingSnapshots.normalizeDate(date);
+    this.snapshot = PricingSnapshots.findNearest(this.date, directory);
+  }
+
+  get description(): string {
+    return `pricing snapshot ${this.snapshot.date} (for ${this.date})`;
+  }
+
+  /**
+   * Read the snapshot file
+   */
+  async load(): Promise<Record<string, AWSpricingData>> {
+    return validatePricingData(PricingSnapshots.load(this.snapshot), this.snapshot.filePath);
+  }
+}
+
+/**
+ * HTTP(S) mirror serving a pricing file in the aws-pricing.json format
+ */
+export class HttpPricingSource implements PricingSource {
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number = 30000) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  get description(): string {
+    return `pricing mirror ${this.url}`;
+  }
+
+  /**
+   * Download and parse the pricing file
+   */
+  async load(): Promise<Record<string, AWSpricingData>> {
+    const body = await new Promise<string>((resolve, reject) => {
+      const client = this.url.startsWith('https:') ? https : http;
+      const request = client.get(this.url, (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`Pricing mirror ${this.url} responded with status ${res.statusCode}`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk) => { chunks.push(chunk); });
+        res.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        res.on('error', reject);
+      });
+
+      request.setTimeout(this.timeoutMs, () => {
+        request.destroy(new Error(`Pricing mirror ${this.url} timed out after ${this.timeoutMs}ms`));
+      });
+      request.on('error', reject);
+    });
+
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch (error) {
+      throw new Error(`Failed to parse pricing data from ${this.url}: ${error}`);
+    }
+
+    return validatePricingData(data, this.url);
+  }
+}
+
+/**
+ * An On-Demand price from an offer file, with attribute names normalized to
+ * lowercase alphanumerics so CSV headers ("Instance Type") and JSON keys
+ * (instanceType) match
+ */
+interface OfferPrice {
+  productFamily: string;
+  attributes: Record<string, string>;
+  unit: string;
+  price: number;
+  startingRange: number;
+}
+
+/**
+ * The parts of an offer file in JSON format that are read: products by SKU,
+ * and the On-Demand terms of each SKU by offer term code
+ */
+interface OfferFileJson {
+  publicationDate?: string;
+  products?: Record<string, {
+    productFamily?: string;
+    attributes?: Record<string, string>;
+  }>;
+  terms?: {
+    OnDemand?: Record<string, Record<string, OfferTermJson>>;
+  };
+}
+
+/**
+ * An offer term in an offer file in JSON format, with its price dimensions
+ * by rate code
+ */
+interface OfferTermJson {
+  priceDimensions?: Record<string, {
+    unit?: string;
+    beginRange?: string;
+    pricePerUnit?: { USD?: string };
+  }>;
+}
+
+/**
+ * Offer files in JSON format are parsed whole, so larger ones (EC2 runs to
+ * gigabytes) must be downloaded as CSV, which is streamed
+ */
+const MAX_OFFER_JSON_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Copies an offer file price into the region's pricing data
+ */
+type OfferPriceMapper = (offer: OfferPrice, pricing: AWSpricingData) => void;
+
+/**
+ * Normalize an attribute name: "Instance Type" and instanceType both become instancetype
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Usage type without its region prefix: USE1-Fargate-GB-Hours -> Fargate-GB-Hours
+ */
+function baseUsageType(offer: OfferPrice): string {
+  return (offer.attributes.usagetype || '').replace(/^[A-Z0-9]+-/, '');
+}
+
+/**
+ * Get a nested section of the pricing data, creating it when missing
+ */
+function section<K extends keyof AWSpricingData>(pricing: AWSpricingData, key: K, empty: AWSpricingData[K]): AWSpricingData[K] {
+  if (!pricing[key]) {
+    pricing[key] = empty;
+  }
+  return pricing[key];
+}
+
+/**
+ * RDS database engines and the pricing data key they are stored under
+ */
+const RDS_ENGINE_KEYS: Record<string, string> = {
+  'MySQL': 'mysql',
+  'PostgreSQL': 'postgresql',
+  'MariaDB': 'mariadb',
+};
+
+/**
+ * Offer file mappers by AWS service code. Services without a mapper, and
+ * prices a mapper does not cover, keep the values from the bundled data.
+ */
+const OFFER_MAPPERS: Record<string, OfferPriceMapper> = {
+  AmazonEC2: (offer, pricing) => {
+    const { attributes, productFamily, unit, price } = offer;
+    const usageType = baseUsageType(offer);
+
+    if (productFamily === 'Compute Instance' && unit === 'Hrs' &&
+        attributes.operatingsystem === 'Linux' && attributes.tenancy === 'Shared' &&
+        attributes.capacitystatus === 'Used' && attributes.preinstalledsw === 'NA') {
+      section(pricing, 'ec2', { instances: {}, hosts: {} }).instances[attributes.instancetype] = price;
+    } else if (productFamily === 'Storage' && unit === 'GB-Mo' && attributes.volumeapiname) {
+      section(pricing, 'ebs', { volumes: {}, iops: {}, throughput: {}, snapshots: 0.05 }).volumes[attributes.volumeapiname] = price;
+    } else if (attributes.volumeapiname && unit.includes('IOPS') && offer.startingRange === 0) {
+      section(pricing, 'ebs', { volumes: {}, iops: {}, throughput: {}, snapshots: 0.05 }).iops[attributes.volumeapiname] = price;
+    } else if (attributes.volumeapiname && usageType.includes('Throughput')) {
+      section(pricing, 'ebs', { volumes: {}, iops: {}, throughput: {}, snapshots: 0.05 }).throughput[attributes.volumeapiname] = price;
+    } else if (usageType === 'NatGateway-Hours') {
+      section(pricing, 'natGateway', { hourly: 0, perGB: 0 }).hourly = price;
+    } else if (usageType === 'NatGateway-Bytes') {
+      section(pricing, 'natGateway', { hourly: 0, perGB: 0 }).perGB = price;
+    }
+  },
+
+  AmazonRDS: (offer, pricing) => {
+    const { attributes, productFamily, unit, price } = offer;
+    const usageType = baseUsageType(offer);
+    const aurora = () => section(pricing, 'aurora', { instances: {}, storage: 0.1, ioRequests: 0.2, backtrackChanges: 0.012 });
+
+    if (unit === 'ACU-Hr' && usageType === 'Aurora:ServerlessV2Usage') {
+      aurora().serverlessV2Acu = price;
+      return;
+    }
+    if (unit === 'ACU-Hr' && usageType === 'Aurora:ServerlessV2IOOptimizedUsage') {
+      aurora().ioOptimizedServerlessV2Acu = price;
+      return;
+    }
+    if (productFamily !== 'Database Instance' || unit !== 'Hrs' || attributes.deploymentoption !== 'Single-AZ') {
+      return;
+    }
+
+    const engine = attributes.databaseengine || '';
+    if (engine.startsWith('Aurora')) {
+      // I/O-Optimized clusters have their own instance prices
+      if (/optimi[sz]ed/i.test(attributes.storage || '')) {
+        const auroraPricing = aurora();
+        auroraPricing.ioOptimizedInstances = auroraPricing.ioOptimizedInstances || {};
+        auroraPricing.ioOptimizedInstances[attributes.instancetype] = price;
+      } else {
+        aurora().instances[attributes.instancetype] = price;
+      }
+    } else if (RDS_ENGINE_KEYS[engine] && attributes.licensemodel !== 'Bring your own license') {
+      const instances = section(pricing, 'rds', { instances: {}, storage: {}, iops: 0 }).instances;
+      const engineKey = RDS_ENGINE_KEYS[engine];
+      instances[engineKey] = instances[engineKey] || {};
+      instances[engineKey][attributes.instancetype] = price;
+    }
+  },
+
+  AmazonElastiCache: ({ attributes, productFamily, unit, price }, pricing) => {
+    if (productFamily === 'Cache Instance' && unit === 'Hrs' && (attributes.cacheengine || 'Redis') === 'Redis') {
+      section(pricing, 'elasticache', { nodes: {} }).nodes[attributes.instancetype] = price;
+    }
+  },
+
+  AWSLambda: (offer, pricing) => {
+    const usageType = baseUsageType(offer);
+    if (offer.startingRange !== 0) {
+      return;
+    }
+
+    const lambda = section(pricing, 'lambda', { requests: 0, duration: 0, provisionedConcurrency: 0 });
+    if (usageType === 'Request') {
+      lambda.requests = offer.price * 1000000;
+    } else if (usageType === 'Lambda-GB-Second') {
+      lambda.duration = offer.price;
+    } else if (usageType === 'Lambda-GB-Second-ARM') {
+      lambda.durationArm = offer.price;
+    } else if (usageType === 'Lambda-Provisioned-Concurrency') {
+      lambda.provisionedConcurrency = offer.price;
+    } else if (usageType === 'Lambda-Provisioned-Concurrency-ARM') {
+      lambda.provisionedConcurrencyArm = offer.price;
+    } else if (usageType === 'Lambda-Provisioned-GB-Second') {
+      lambda.provisionedDuration = offer.price;
+    } else if (usageType === 'Lambda-Provisioned-GB-Second-ARM') {
+      lambda.provisionedDurationArm = offer.price;
+    }
+  },
+
+  AmazonECS: (offer, pricing) => {
+    const usageType = baseUsageType(offer);
+    const fargate = section(pricing, 'fargate', { vcpuHourly: 0, memoryGBHourly: 0 });
+    const ecs = section(pricing, 'ecs', { fargateVcpuHourly: 0, fargateMemoryGBHourly: 0 });
+
+    if (/^Fargate-vCPU-Hours/.test(usageType)) {
+      fargate.vcpuHourly = ecs.fargateVcpuHourly = offer.price;
+    } else if (/^Fargate-GB-Hours/.test(usageType)) {
+      fargate.memoryGBHourly = ecs.fargateMemoryGBHourly = offer.price;
+    } else if (/^Fargate-ARM-vCPU-Hours/.test(usageType)) {
+      fargate.armVcpuHourly = offer.price;
+    } else if (/^Fargate-ARM-GB-Hours/.test(usageType)) {
+      fargate.armMemoryGBHourly = offer.price;
+    } else if (/^Fargate-EphemeralStorage-GB-Hours/.test(usageType)) {
+      fargate.ephemeralStorageGBHourly = offer.price;
+    } else if (/^SpotUsage-Fargate-vCPU-Hours/.test(usageType)) {
+      fargate.spotVcpuHourly = offer.price;
+    } else if (/^SpotUsage-Fargate-GB-Hours/.test(usageType)) {
+      fargate.spotMemoryGBHourly = offer.price;
+    }
+  },
+
+  AmazonEKS: (offer, pricing) => {
+    if (baseUsageType(offer) === 'AmazonEKS-Hours:perCluster') {
+      section(pricing, 'eks', { clusterHourly: 0 }).clusterHourly = offer.price;
+    }
+  },
+
+  AmazonES: ({ attributes, productFamily, unit, price }, pricing) => {
+    if (productFamily === 'Amazon OpenSearch Service Instance' && unit === 'Hrs') {
+      section(pricing, 'opensearch', { instances: {}, storage: 0.135, ultrawarmStorage: 0.024 }).instances[attributes.instancetype] = price;
+    }
+  },
+
+  AmazonRedshift: ({ attributes, productFamily, unit, price }, pricing) => {
+    if (productFamily === 'Compute Instance' && unit === 'Hrs') {
+      section(pricing, 'redshift', { instances: {} }).instances[attributes.instancetype] = price;
+    }
+  },
+};
+
+/**
+ * Split a CSV line into fields, handling quoted fields and escaped quotes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * AWS Price List bulk offer files downloaded onto disk, laid out as on the
+ * bulk API: <directory>/<ServiceCode>/current/<region>/index.csv (or
+ * index.json). The current/ level may be omitted. Prices found in the offer
+ * files replace the bundled prices for the region; everything else, such as
+ * services without an offer file, keeps the bundled values.
+ */
+export class OfferFilePricingSource implements PricingSource {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  get description(): string {
+    return `AWS Price List offer files in ${this.directory}`;
+  }
+
+  /**
+   * Read every service's offer files and merge them over the bundled data
+   */
+  async load(): Promise<Record<string, AWSpricingData>> {
+    const directory = path.resolve(this.directory);
+    if (!fs.existsSync(directory)) {
+      throw new Error(`Offer file directory not found: ${directory}`);
+    }
+
+    // Prices not in the offer files fall back to the bundled data for the same region
+    const bundledFile = findBundledPricingFile();
+    const bundled = bundledFile ? await new BundledPricingSource(bundledFile).load() : {};
+    const result: Record<string, AWSpricingData> = {};
+    const publicationDates = new Map<string, string>();
+
+    for (const [serviceCode, mapper] of Object.entries(OFFER_MAPPERS)) {
+      for (const [region, offerFile] of this.findOfferFiles(directory, serviceCode)) {
+        if (!result[region]) {
+          result[region] = bundled[region]
+            ? structuredClone(bundled[region])
+            : { region, lastUpdated: '' } as AWSpricingData;
+        }
+
+        const pricing = result[region];
+        const publicationDate = await this.readOfferFile(offerFile, offer => mapper(offer, pricing));
+
+        // The region's data is as old as its oldest offer file
+        const oldest = publicationDates.get(region);
+        if (publicationDate && (!oldest || publicationDate < oldest)) {
+          publicationDates.set(region, publicationDate);
+        }
+      }
+    }
+
+    for (const [region, publicationDate] of publicationDates) {
+      result[region].lastUpdated = publicationDate;
+    }
+
+    if (Object.keys(result).length === 0) {
+      throw new Error(`No offer files found in ${directory}. Expected <ServiceCode>/current/<region>/index.csv, e.g. AmazonEC2/current/us-east-1/index.csv`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Find a service's offer file for each region, preferring CSV, which can be
+   * streamed, over JSON
+   */
+  private findOfferFiles(directory: string, serviceCode: string): Map<string, string> {
+    const files = new Map<string, string>();
+    const serviceDirs = [path.join(directory, serviceCode, 'current'), path.join(directory, serviceCode)];
+
+    for (const serviceDir of serviceDirs) {
+      if (!fs.existsSync(serviceDir)) {
+        continue;
+      }
+
+      for (const region of fs.readdirSync(serviceDir)) {
+        const candidates = ['index.csv', 'index.json'].map(name => path.join(serviceDir, region, name));
+        const offerFile = candidates.find(candidate => fs.existsSync(candidate));
+        if (offerFile && !files.has(region)) {
+          files.set(region, offerFile);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Pass each On-Demand price in an offer file to a callback, returning the
+   * file's publication date
+   */
+  private async readOfferFile(filePath: string, onPrice: (offer: OfferPrice) => void): Promise<string | undefined> {
+    return filePath.endsWith('.csv')
+      ? this.readOfferCsv(filePath, onPrice)
+      : this.readOfferJson(filePath, onPrice);
+  }
+
+  /**
+   * Stream an offer file in CSV format. The file starts with metadata rows
+   * ("Publication Date","2024-01-01T00:00:00Z") followed by a header row
+   * beginning with "SKU".
+   */
+  private async readOfferCsv(filePath: string, onPrice: (offer: OfferPrice) => void): Promise<string | undefined> {
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+    let header: string[] | undefined;
+    let publicationDate: string | undefined;
+
+    for await (const line of lines) {
+      const fields = parseCsvLine(line);
+
+      if (!header) {
+        if (fields[0] === 'SKU') {
+          header = fields.map(normalizeKey);
+        } else if (fields[0] === 'Publication Date') {
+          publicationDate = fields[1];
+        }
+        continue;
+      }
+
+      const row: Record<string, string> = {};
+      header.forEach((key, index) => { row[key] = fields[index]; });
+
+      const price = parseFloat(row.priceperunit);
+      if (row.termtype !== 'OnDemand' || Number.isNaN(price) || (row.currency && row.currency !== 'USD')) {
+        continue;
+      }
+
+      onPrice({
+        productFamily: row.productfamily || '',
+        attributes: row,
+        unit: row.unit || '',
+        price,
+        startingRange: parseFloat(row.startingrange) || 0,
+      });
+    }
+
+    return publicationDate;
+  }
+
+  /**
+   * Read an offer file in JSON format, failing on files too large to parse
+   * whole; those (EC2) should be downloaded as CSV instead.
+   */
+  private async readOfferJson(filePath: string, onPrice: (offer: OfferPrice) => void): Promise<string | undefined> {
+    const size = fs.statSync(filePath).size;
+    if (size > MAX_OFFER_JSON_BYTES) {
+      throw new Error(`Offer file ${filePath} is ${Math.round(size / (1024 * 1024))} MB, too large to read as JSON. ` +
+        `Use the CSV offer file (index.csv) instead, which is streamed.`);
+    }
+
+    let offer: OfferFileJson;
+    try {
+      offer = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse offer file ${filePath}: ${error}`);
+    }
+
+    for (const [sku, terms] of Object.entries(offer.terms?.OnDemand || {})) {
+      const product = offer.products?.[sku];
+      if (!product) {
+        continue;
+      }
+
+      const attributes: Record<string, string> = {};
+      for (const [key, value] of Object.entries(product.attributes || {})) {
+        attributes[normalizeKey(key)] = value;
+      }
+
+      for (const term of Object.values(terms)) {
+        for (const dimension of Object.values(term.priceDimensions || {})) {
+          const price = parseFloat(dimension.pricePerUnit?.USD ?? '');
+          if (Number.isNaN(price)) {
+            continue;
+          }
+
+          onPrice({
+            productFamily: product.productFamily || '',
+            attributes,
+            unit: dimension.unit || '',
+            price,
+            startingRange: parseFloat(dimension.beginRange ?? '') || 0,
+          });
+        }
+      }
+    }
+
+    return offer.publicationDate;
+  }
+}
+
+/**
+ * Create a pricing source from a --pricing-source value:
+ *   bundled              the aws-pricing.json bundled with the package (default)
+ *   file:<path>          a pricing file in the aws-pricing.json format
+ *   offers:<directory>   AWS Price List bulk offer files
+ *   http(s)://<url>      an HTTP mirror of aws-pricing.json
+ */
+export function createPricingSource(spec: string = 'bundled'): PricingSource {
+  if (spec === 'bundled') {
+    return new BundledPricingSource();
+  }
+  if (spec.startsWith('file:')) {
+    return new BundledPricingSource(spec.slice('file:'.length));
+  }
+  if (spec.startsWith('offers:')) {
+    return new OfferFilePricingSource(spec.slice('offers:'.length));
+  }
+  if (/^https?:\/\//.test(spec)) {
+    return new HttpPricingSource(spec);
+  }
+
+  throw new Error(`Invalid pricing source "${spec}". Expected bundled, file:<path>, offers:<directory> or an http(s):// URL`);
+}
+
+/**
+ * Load pricing data from a source and use it for all subsequent estimates
+ */
+export async function usePricingSource(source: PricingSource): Promise<void> {
+  setPricingData(await source.load(), source.description);
+}
@@ -0,0 +1,447 @@
+/**
+ * Pricing Validator
+ * Checks pricing data against the AWSpricingData interface and reports which
+ * prices it covers, since pricing files are parsed without type checks
+ */
+
+import { AWSpricingData } from './pricing-data';
+
+/**
+ * Shape of a field in the schema:
+ *   'number'       a price
+ *   'string'       a label such as the region or update time
+ *   'rates'        prices keyed by instance type, volume type, etc.
+ *   'rate-tables'  rates keyed by an outer key such as the database engine
+ *   'map'          entries keyed by name, checked only for being an object
+ */
+type FieldSchema<T> =
+  T extends number ? 'number'
+    : T extends string ? 'string'
+      : string extends keyof T
+        ? (T[string] extends number ? 'rates' : T[string] extends Record<string, number> ? 'rate-tables' : 'map')
+        : SectionSchema<T>;
+
+/**
+ * Optional fields are only checked when present
+ */
+interface OptionalField<S> {
+  optional: S;
+}
+
+/**
+ * Schema for an object type, with one entry per key so the compiler flags a
+ * schema that falls out of step with the interface
+ */
+type SectionSchema<T> = {
+  [K in keyof T]-?: undefined extends T[K]
+    ? OptionalField<FieldSchema<Exclude<T[K], undefined>>>
+    : FieldSchema<T[K]>;
+};
+
+type AnySchema = string | OptionalField<unknown> | { [key: string]: AnySchema };
+
+const PRICING_SCHEMA: SectionSchema<AWSpricingData> = {
+  region: 'string',
+  lastUpdated: 'string',
+  ec2: { instances: 'rates', hosts: 'rates' },
+  ebs: { volumes: 'rates', iops: 'rates', throughput: 'rates', snapshots: 'number' },
+  rds: { instances: 'rate-tables', storage: 'rates', iops: 'number' },
+  aurora: {
+    instances: 'rates',
+    ioOptimizedInstances: { optional: 'rates' },
+    storage: 'number',
+    ioOptimizedStorage: { optional: 'number' },
+    ioRequests: 'number',
+    backtrackChanges: 'number',
+    serverlessV2Acu: { optional: 'number' },
+    ioOptimizedServerlessV2Acu: { optional: 'number' },
+    serverlessAcu: { optional: 'number' },
+    replicatedWriteIOs: { optional: 'number' },
+  },
+  elasticache: { nodes: 'rates' },
+  dynamodb: {
+    readCapacity: 'number',
+    writeCapacity: 'number',
+    onDemandRead: 'number',
+    onDemandWrite: 'number',
+    storage: 'number',
+    globalTables: 'number',
+    streams: 'number',
+  },
+  neptune: { instances: 'rates', storage: 'number', ioRequests: 'number' },
+  documentdb: { instances: 'rates', storage: 'number', ioRequests: 'number' },
+  redshift: { instances: 'rates' },
+  natGateway: { hourly: 'number', perGB: 'number' },
+  loadBalancer: {
+    alb: { hourly: 'number', lcuHourly: 'number' },
+    nlb: { hourly: 'number', lcuHourly: 'number' },
+    glb: { hourly: 'number', lcuHourly: 'number' },
+    clb: { hourly: 'number' },
+  },
+  vpcEndpoint: { interfaceHourly: 'number', gatewayLoadBalancerHourly: 'number', dataProcessed: 'number' },
+  vpnConnection: {
+    hourly: 'number',
+    transitGatewayAttachment: 'number',
+    clientVpn: { endpointHourly: 'number', connectionHourly: 'number' },
+  },
+  transitGateway: { hourly: 'number', dataProcessed: 'number', peering: 'number' },
+  trafficMirror: { sessionHourly: 'number' },
+  directConnect: { portHours: 'rates', dataTransfer: 'number' },
+  globalAccelerator: { hourly: 'number', dataTransfer: 'number' },
+  eks: {
+    clusterHourly: 'number',
+    fargateVcpuHourly: { optional: 'number' },
+    fargateMemoryGBHourly: { optional: 'number' },
+  },
+  ecs: { fargateVcpuHourly: 'number', fargateMemoryGBHourly: 'number' },
+  ecr: { storage: 'number' },
+  lambda: {
+    requests: 'number',
+    duration: 'number',
+    durationArm: { optional: 'number' },
+    provisionedConcurrency: 'number',
+    provisionedConcurrencyArm: { optional: 'number' },
+    provisionedDuration: { optional: 'number' },
+    provisionedDurationArm: { optional: 'number' },
+    ephemeralStorage: { optional: 'number' },
+    snapStartCache: { optional: 'number' },
+    snapStartRestore: { optional: 'number' },
+  },
+  apiGateway: { rest: 'number', http: 'number', websocket: 'number', websocketMessages: 'number' },
+  stepFunctions: { standard: 'number', express: 'number' },
+  s3: {
+    standardStorage: 'number',
+    standardIAStorage: 'number',
+    oneZoneIAStorage: 'number',
+    glacierStorage: 'number',
+    glacierDeepArchive: 'number',
+    intelligentTiering: 'number',
+    requests: { put: 'number', get: 'number', lifecycle: 'number' },
+  },
+  efs: { standard: 'number', ia: 'number', provisionedThroughput: 'number' },
+  fsx: { lustre: 'number', windows: 'number', ontap: 'number', openzfs: 'number' },
+  backup: { storage: 'number', restoreStorage: 'number' },
+  opensearch: { instances: 'rates', storage: 'number', ultrawarmStorage: 'number' },
+  elasticsearch: { instances: 'rates' },
+  kinesis: { shardHourly: 'number', payloadUnit: 'number', extendedRetention: 'number', enhancedFanout: 'number' },
+  kinesisFirehose: { dataIngested: 'number', formatConversion: 'number' },
+  glue: { dpuHour: 'number', crawlerDpuHour: 'number', catalogStorage: 'number', catalogRequests: 'number' },
+  athena: { dataScanned: 'number' },
+  sqs: { standard: 'number', fifo: 'number' },
+  sns: {
+    publish: 'number',
+    deliveries: { http: 'number', email: 'number', sms: 'number', lambda: 'number', sqs: 'number' },
+  },
+  eventbridge: { customEvents: 'number', partnerEvents: 'number', archiveProcessed: 'number', schemaDiscovery: 'number' },
+  mq: { instanceHourly: 'rates', storage: 'number' },
+  msk: { instanceHourly: 'rates', storage: 'number' },
+  directoryService: {
+    simpleAD: { small: 'number', large: 'number' },
+    microsoftAD: { standard: 'number', enterprise: 'number' },
+  },
+  mwaa: { environment: 'rates' },
+  kinesisAnalytics: { kpuHourly: 'number', storage: 'number' },
+  ssm: {
+    parameter: { standard: 'number', advanced: 'number', apiCalls: 'number' },
+    activation: { standard: 'number', advanced: 'number' },
+  },
+  secretsManager: { secret: 'number', apiCalls: 'number' },
+  kms: { key: 'number', requests: 'number' },
+  acm: { privateCertificate: 'number' },
+  waf: { webACL: 'number', rule: 'number', requests: 'number' },
+  guardDuty: { events: 'number', s3Events: 'number', eksEvents: 'number' },
+  macie: { bucketEvaluated: 'number', dataScanned: 'number' },
+  cloudwatch: {
+    metrics: 'number',
+    alarmStandard: 'number',
+    alarmHighRes: 'number',
+    alarmAnomaly: 'number',
+    alarmComposite: 'number',
+    dashboards: 'number',
+    logsIngestion: 'number',
+    logsStorage: 'number',
+    logsInsightsQueries: 'number',
+    contributorInsightsRules: 'number',
+    contributorInsightsEvents: 'number',
+  },
+  cloudtrail: { managementEvents: 'number', dataEvents: 'number', insightsEvents: 'number' },
+  config: { configItems: 'number', rules: 'number', conformancePackRules: 'number' },
+  codebuild: {
+    linuxSmall: 'number',
+    linuxMedium: 'number',
+    linuxLarge: 'number',
+    linux2xlarge: 'number',
+    armLarge: 'number',
+    gpuLarge: 'number',
+    windowsMedium: 'number',
+    windowsLarge: 'number',
+  },
+  codepipeline: { activePipeline: 'number', trialPipelines: 'number' },
+  cloudfront: {
+    dataTransfer: 'rates',
+    requests: { http: 'number', https: 'number' },
+    invalidations: 'number',
+    ssl: 'number',
+    originShield: 'number',
+    realtimeLogs: 'number',
+    functions: 'number',
+  },
+  route53: {
+    hostedZone: 'number',
+    queries: 'number',
+    healthChecks: { basic: 'number', https: 'number', string: 'number', fast: 'number' },
+    resolverEndpoint: 'number',
+    resolverQueries: 'number',
+  },
+  sagemaker: { notebookInstances: 'rates', trainingInstances: 'rates', endpointInstances: 'rates' },
+  transferFamily: { protocols: 'number', dataProcessed: 'number' },
+  dms: { instances: 'rates' },
+  iot: { connectivityMinutes: 'number', messages: 'number', ruleEngineActions: 'number' },
+  lightsail: { instances: 'rates' },
+  beanstalk: {},
+  fargate: {
+    vcpuHourly: 'number',
+    memoryGBHourly: 'number',
+    armVcpuHourly: { optional: 'number' },
+    armMemoryGBHourly: { optional: 'number' },
+    ephemeralStorageGBHourly: { optional: 'number' },
+    spotVcpuHourly: { optional: 'number' },
+    spotMemoryGBHourly: { optional: 'number' },
+  },
+  other: {
+    dynamodb: { optional: { readCapacity: 'number', writeCapacity: 'number', onDemandRead: 'number', onDemandWrite: 'number', storage: 'number' } },
+    s3: { optional: { standardStorage: 'number', standardIAStorage: 'number', glacierStorage: 'number' } },
+    apiGateway: { optional: { rest: 'number', http: 'number', websocket: 'number' } },
+    sqs: { optional: { standard: 'number', fifo: 'number' } },
+    sns: { optional: { publish: 'number' } },
+    cloudwatch: {
+      optional: {
+        metrics: 'number',
+        alarmStandard: 'number',
+        alarmHighRes: 'number',
+        dashboards: 'number',
+        logsIngestion: 'number',
+        logsStorage: 'number',
+      },
+    },
+    secretsManager: { optional: { secret: 'number', apiCalls: 'number' } },
+    kms: { optional: { key: 'number', requests: 'number' } },
+    stepFunctions: { optional: { standard: 'number', express: 'number' } },
+    route53: { optional: { hostedZone: 'number', queries: 'number' } },
+    vpcEndpoint: { optional: { hourly: 'number', dataProcessed: 'number' } },
+    cognito: { optional: { mau: 'number' } },
+    eventBridge: { optional: { customEvents: 'number' } },
+    kinesis: { optional: { shardHourly: 'number', payloadUnit: 'number' } },
+    efs: { optional: { standard: 'number', ia: 'number' } },
+    ecr: { optional: { storage: 'number' } },
+    waf: { optional: { webACL: 'number', rule: 'number', requests: 'number' } },
+    glue: { optional: { dpuHour: 'number' } },
+    athena: { optional: { dataScanned: 'number' } },
+  },
+  commitments: { optional: 'map' },
+};
+
+/**
+ * Prices that are legitimately zero, so are not reported
+ */
+const FREE_PRICES = new Set([
+  'sns.deliveries.lambda',
+  'sns.deliveries.sqs',
+  'ssm.parameter.standard',
+  'ssm.activation.standard',
+  'codepipeline.trialPipelines',
+]);
+
+/**
+ * Top-level fields that are not services, left out of the coverage service counts
+ */
+const NON_SERVICE_FIELDS = new Set(['region', 'lastUpdated', 'beanstalk', 'other', 'commitments']);
+
+/**
+ * A problem found in a region's pricing data. Missing and mistyped fields are
+ * errors, since calculators fail on them; zero and empty prices are warnings.
+ */
+export interface PricingIssue {
+  region: string;
+  /** Dotted path of the field, e.g. "rds.instances.mysql" */
+  path: string;
+  problem: 'missing' | 'invalid' | 'zero' | 'empty';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Prices available in a region's pricing data
+ */
+export interface PricingCoverage {
+  region: string;
+  lastUpdated: string;
+  /** Sections with at least one non-zero price */
+  services: string[];
+  /** Sections missing or without any non-zero price */
+  missingServices: string[];
+  /** Keys priced in each rate table, e.g. "ec2.instances" -> instance types */
+  rates: Record<string, string[]>;
+}
+
+export class PricingValidator {
+  /**
+   * Validate every region in the pricing data
+   */
+  static validate(data: Record<string, AWSpricingData>): PricingIssue[] {
+    return Object.entries(data).flatMap(([region, pricing]) => this.validateRegion(region, pricing));
+  }
+
+  /**
+   * Validate one region's pricing data against the schema
+   */
+  static validateRegion(region: string, pricing: AWSpricingData): PricingIssue[] {
+    const issues: PricingIssue[] = [];
+    this.checkField(pricing, PRICING_SCHEMA, [], region, issues);
+    return issues;
+  }
+
+  /**
+   * Find the problems in a region's pricing data that make it unusable: a
+   * missing section or a value of the wrong type. Missing prices within a
+   * section only affect the resources that use them.
+   */
+  static findStructuralErrors(region: string, pricing: AWSpricingData): PricingIssue[] {
+    return this.validateRegion(region, pricing).filter(issue =>
+      issue.problem === 'invalid' || (issue.problem === 'missing' && !issue.path.includes('.'))
+    );
+  }
+
+  /**
+   * Check whether a name is a section of prices in the pricing data, e.g. "ec2"
+   */
+  static isPricingSection(name: string): boolean {
+    return name in PRICING_SCHEMA && typeof (PRICING_SCHEMA as Record<string, AnySchema>)[name] !== 'string';
+  }
+
+  /**
+   * List the services and rate table keys a region's pricing data covers
+   */
+  static coverage(region: string, pricing: AWSpricingData): PricingCoverage {
+    const rates: Record<string, string[]> = {};
+    const services: string[] = [];
+    const missingServices: string[] = [];
+
+    for (const [section, schema] of Object.entries(PRICING_SCHEMA as Record<string, AnySchema>)) {
+      const value = (pricing as unknown as Record<string, unknown>)[section];
+      this.collectRates(value, schema, [section], rates);
+
+      if (!NON_SERVICE_FIELDS.has(section)) {
+        (this.hasPrice(value) ? services : missingServices).push(section);
+      }
+    }
+
+    return {
+      region,
+      lastUpdated: pricing.lastUpdated,
+      services,
+      missingServices,
+      rates,
+    };
+  }
+
+  /**
+   * Check a value against its schema, recording issues
+   */
+  private static checkField(value: unknown, schema: AnySchema, path: string[], region: string, issues: PricingIssue[]): void {
+    const fieldPath = path.join('.');
+    const report = (problem: PricingIssue['problem'], message: string) => issues.push({
+      region,
+      path: fieldPath,
+      problem,
+      severity: problem === 'missing' || problem === 'invalid' ? 'error' : 'warning',
+      message,
+    });
+
+    if (typeof schema === 'object' && 'optional' in schema) {
+      if (value !== undefined) {
+        this.checkField(value, schema.optional as AnySchema, path, region, issues);
+      }
+      return;
+    }
+
+    if (value === undefined || value === null) {
+      report('missing', `${fieldPath} is missing`);
+      return;
+    }
+
+    if (schema === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report('invalid', `${fieldPath} should be a number, got ${JSON.stringify(value)}`);
+      } else if (value === 0 && !FREE_PRICES.has(fieldPath)) {
+        report('zero', `${fieldPath} is 0`);
+      }
+      return;
+    }
+
+    if (schema === 'string') {
+      if (typeof value !== 'string') {
+        report('invalid', `${fieldPath} should be a string, got ${JSON.stringify(value)}`);
+      } else if (value === '') {
+        report('empty', `${fieldPath} is empty`);
+      }
+      return;
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      report('invalid', `${fieldPath} should be an object`);
+      return;
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>);
+
+    if (schema === 'rates' || schema === 'rate-tables') {
+      if (entries.length === 0) {
+        report('empty', `${fieldPath} has no prices`);
+      }
+      for (const [key, entry] of entries) {
+        this.checkField(entry, schema === 'rates' ? 'number' : 'rates', [...path, key], region, issues);
+      }
+      return;
+    }
+
+    if (typeof schema === 'object') {
+      for (const [key, fieldSchema] of Object.entries(schema as Record<string, AnySchema>)) {
+        this.checkField((value as Record<string, unknown>)[key], fieldSchema, [...path, key], region, issues);
+      }
+    }
+  }
+
+  /**
+   * Collect the keys with non-zero prices in each rate table under a value
+   */
+  private static collectRates(value: unknown, schema: AnySchema, path: string[], rates: Record<string, string[]>): void {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    if (typeof schema === 'object' && 'optional' in schema) {
+      this.collectRates(value, schema.optional as AnySchema, path, rates);
+    } else if (schema === 'rates' || schema === 'map') {
+      rates[path.join('.')] = Object.keys(value).filter(key => this.hasPrice((value as Record<string, unknown>)[key]));
+    } else if (schema === 'rate-tables') {
+      for (const [key, table] of Object.entries(value as Record<string, unknown>)) {
+        this.collectRates(table, 'rates', [...path, key], rates);
+      }
+    } else if (typeof schema === 'object') {
+      for (const [key, fieldSchema] of Object.entries(schema as Record<string, AnySchema>)) {
+        this.collectRates((value as Record<string, unknown>)[key], fieldSchema, [...path, key], rates);
+      }
+    }
+  }
+
+  /**
+   * Check whether a value is, or contains, a non-zero price
+   */
+  private static hasPrice(value: unknown): boolean {
+    if (typeof value === 'number') {
+      return value > 0;
+    }
+    return !!value && typeof value === 'object' && Object.values(value).some(entry => this.hasPrice(entry));
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Resource Graph
+ * Dependency graph over a template's resources, built from Ref, Fn::GetAtt,
+ * Fn::Sub and DependsOn, so costs can be attributed across related resources
+ */
+
+/**
+ * A reference from one resource to another
+ */
+export interface ResourceReference {
+  /** Logical ID of the referencing resource */
+  source: string;
+  /** Logical ID of the referenced resource */
+  target: string;
+  /** Property path the reference appears under (e.g. TaskDefinition), or DependsOn */
+  propertyPath: string;
+  kind: 'Ref' | 'GetAtt' | 'Sub' | 'DependsOn';
+}
+
+/**
+ * Property through which a resource type belongs to a parent resource
+ */
+const PARENT_PROPERTIES: Record<string, string> = {
+  'AWS::RDS::DBInstance': 'DBClusterIdentifier',
+  'AWS::DocDB::DBInstance': 'DBClusterIdentifier',
+  'AWS::Neptune::DBInstance': 'DBClusterIdentifier',
+  'AWS::ECS::Service': 'Cluster',
+  'AWS::EKS::Nodegroup': 'ClusterName',
+  'AWS::EKS::FargateProfile': 'ClusterName',
+  'AWS::Lambda::Alias': 'FunctionName',
+  'AWS::Lambda::Version': 'FunctionName',
+};
+
+export class ResourceGraph {
+  private resourceTypes: Map<string, string>;
+  private outgoing = new Map<string, ResourceReference[]>();
+  private incoming = new Map<string, ResourceReference[]>();
+
+  constructor(resourceTypes: Map<string, string>, references: ResourceReference[]) {
+    this.resourceTypes = resourceTypes;
+
+    for (const reference of references) {
+      this.add(this.outgoing, reference.source, reference);
+      this.add(this.incoming, reference.target, reference);
+    }
+  }
+
+  /**
+   * Get the references a resource makes to other resources
+   */
+  getReferences(logicalId: string): ResourceReference[] {
+    return this.outgoing.get(logicalId) || [];
+  }
+
+  /**
+   * Get the references other resources make to a resource
+   */
+  getReferencedBy(logicalId: string): ResourceReference[] {
+    return this.incoming.get(logicalId) || [];
+  }
+
+  /**
+   * Get the resource referenced under a property path, e.g. an ECS service's TaskDefinition
+   */
+  getReferencedResource(logicalId: string, propertyPath: string): string | undefined {
+    return this.getReferences(logicalId).find(ref => ref.propertyPath === propertyPath)?.target;
+  }
+
+  /**
+   * Get the resources that reference a resource, optionally of a given type
+   * and under a given property path
+   */
+  getDependents(logicalId: string, resourceType?: string, propertyPath?: string): string[] {
+    const dependents = this.getReferencedBy(logicalId)
+      .filter(ref => !resourceType || this.resourceTypes.get(ref.source) === resourceType)
+      .filter(ref => !propertyPath || ref.propertyPath === propertyPath)
+      .map(ref => ref.source);
+
+    return [...new Set(dependents)];
+  }
+
+  /**
+   * Get the resource a resource's cost should be grouped under: the cluster of
+   * a DB instance or ECS service, the function of a Lambda alias or version,
+   * or the instance an EBS volume is attached to
+   */
+  getParentResourceId(logicalId: string): string | undefined {
+    const resourceType = this.resourceTypes.get(logicalId);
+    if (!resourceType) {
+      return undefined;
+    }
+
+    if (resourceType === 'AWS::EC2::Volume') {
+      for (const attachment of this.getDependents(logicalId, 'AWS::EC2::VolumeAttachment', 'VolumeId')) {
+        const instanceId = this.getReferencedResource(attachment, 'InstanceId');
+        if (instanceId) {
+          return instanceId;
+        }
+      }
+      return this.getDependents(logicalId, 'AWS::EC2::Instance', 'Volumes.VolumeId')[0];
+    }
+
+    const parentProperty = PARENT_PROPERTIES[resourceType];
+    return parentProperty ? this.getReferencedResource(logicalId, parentProperty) : undefined;
+  }
+
+  /**
+   * Append a reference to an adjacency list
+   */
+  private add(index: Map<string, ResourceReference[]>, key: string, reference: ResourceReference): void {
+    const list = index.get(key);
+    if (list) {
+      list.push(reference);
+    } else {
+      index.set(key, [reference]);
+    }
+  }
+}
@@ -0,0 +1,539 @@
+/**
+ * SAM Transform
+ * Expands AWS SAM resources (AWS::Serverless::*) in templates declaring the
+ * AWS::Serverless-2016-10-31 transform into the CloudFormation resources SAM
+ * deploys, so local SAM templates are priced like their processed deployed
+ * versions
+ */
+
+import { CloudFormationTemplate, CloudFormationResource } from './types';
+
+/**
+ * Transform declared by SAM templates
+ */
+export const SAM_TRANSFORM = 'AWS::Serverless-2016-10-31';
+
+type Properties = Record<string, unknown>;
+
+/**
+ * Section of Globals applying to each SAM resource type
+ */
+const GLOBALS_SECTIONS: Record<string, string> = {
+  'AWS::Serverless::Function': 'Function',
+  'AWS::Serverless::Api': 'Api',
+  'AWS::Serverless::HttpApi': 'HttpApi',
+  'AWS::Serverless::SimpleTable': 'SimpleTable',
+  'AWS::Serverless::StateMachine': 'StateMachine',
+  'AWS::Serverless::LayerVersion': 'LayerVersion',
+};
+
+/**
+ * Function properties with the same name and meaning on AWS::Lambda::Function
+ */
+const FUNCTION_PROPERTIES = [
+  'Architectures', 'Description', 'Environment', 'EphemeralStorage', 'FileSystemConfigs', 'FunctionName',
+  'Handler', 'ImageConfig', 'KmsKeyArn', 'Layers', 'LoggingConfig', 'MemorySize', 'PackageType',
+  'ReservedConcurrentExecutions', 'Runtime', 'RuntimeManagementConfig', 'SnapStart', 'Timeout', 'VpcConfig',
+];
+
+/**
+ * Event source types that SAM turns into an AWS::Lambda::EventSourceMapping,
+ * with the event property holding the source ARN
+ */
+const EVENT_SOURCE_ARNS: Record<string, string> = {
+  SQS: 'Queue',
+  Kinesis: 'Stream',
+  DynamoDB: 'Stream',
+  MSK: 'Stream',
+  MQ: 'Broker',
+  DocumentDB: 'Cluster',
+};
+
+/**
+ * DynamoDB attribute types for SimpleTable primary key types
+ */
+const ATTRIBUTE_TYPES: Record<string, string> = { String: 'S', Number: 'N', Binary: 'B' };
+
+export class SamTransform {
+  /**
+   * Check whether a template declares the SAM transform
+   */
+  static isSamTemplate(template: CloudFormationTemplate): boolean {
+    const transform = template.Transform;
+    return Array.isArray(transform) ? transform.includes(SAM_TRANSFORM) : transform === SAM_TRANSFORM;
+  }
+
+  /**
+   * Expand the SAM resources of a template, applying Globals. Templates
+   * without the SAM transform are returned unchanged
+   */
+  static expand(template: CloudFormationTemplate): CloudFormationTemplate {
+    if (!this.isSamTemplate(template)) {
+      return template;
+    }
+
+    const globals = (template.Globals || {}) as Record<string, Properties>;
+    const resources: Record<string, unknown> = {};
+
+    for (const [logicalId, value] of Object.entries(template.Resources)) {
+      const resource = value as CloudFormationResource;
+      if (!resource || typeof resource.Type !== 'string' || !resource.Type.startsWith('AWS::Serverless::')) {
+        resources[logicalId] = value;
+        continue;
+      }
+
+      const globalsSection = GLOBALS_SECTIONS[resource.Type];
+      const properties = this.mergeGlobals(globalsSection ? globals[globalsSection] : undefined, resource.Properties || {});
+      const expanded = this.expandResource(logicalId, resource.Type, properties, globals);
+
+      for (const [expandedId, expandedResource] of Object.entries(expanded)) {
+        // Generated resources keep the SAM resource's condition and dependencies
+        resources[expandedId] = {
+          ...expandedResource,
+          ...(resource.Condition ? { Condition: resource.Condition } : {}),
+          ...(resource.DependsOn && expandedId === logicalId ? { DependsOn: resource.DependsOn } : {}),
+          ...(resource.Metadata && expandedId === logicalId ? { Metadata: resource.Metadata } : {}),
+        };
+      }
+    }
+
+    const { Globals: _globals, ...rest } = template;
+    const otherTransforms = Array.isArray(template.Transform)
+      ? template.Transform.filter(transform => transform !== SAM_TRANSFORM)
+      : [];
+
+    const expandedTemplate: CloudFormationTemplate = { ...rest, Resources: resources as CloudFormationTemplate['Resources'] };
+    if (otherTransforms.length > 0) {
+      expandedTemplate.Transform = otherTransforms;
+    } else {
+      delete expandedTemplate.Transform;
+    }
+    return expandedTemplate;
+  }
+
+  /**
+   * Expand one SAM resource into CloudFormation resources by logical ID
+   */
+  private static expandResource(
+    logicalId: string,
+    type: string,
+    properties: Properties,
+    globals: Record<string, Properties>
+  ): Record<string, CloudFormationResource> {
+    switch (type) {
+      case 'AWS::Serverless::Function':
+        return this.expandFunction(logicalId, properties, globals);
+      case 'AWS::Serverless::Api':
+        return { [logicalId]: this.restApi(properties) };
+      case 'AWS::Serverless::HttpApi':
+        return { [logicalId]: this.httpApi(properties) };
+      case 'AWS::Serverless::SimpleTable':
+        return { [logicalId]: this.simpleTable(properties) };
+      case 'AWS::Serverless::StateMachine':
+        return this.expandStateMachine(logicalId, properties, globals);
+      case 'AWS::Serverless::LayerVersion':
+        return { [logicalId]: this.layerVersion(properties) };
+      case 'AWS::Serverless::Application':
+        return { [logicalId]: this.application(properties) };
+      default:
+        // e.g. AWS::Serverless::Connector, which only grants permissions
+        return { [logicalId]: { Type: type, Properties: properties } };
+    }
+  }
+
+  /**
+   * Expand a function into AWS::Lambda::Function with its execution role,
+   * published alias, function URL and event sources
+   */
+  private static expandFunction(
+    logicalId: string,
+    properties: Properties,
+    globals: Record<string, Properties>
+  ): Record<string, CloudFormationResource> {
+    const resources: Record<string, CloudFormationResource> = {};
+    const functionProperties = this.pick(properties, FUNCTION_PROPERTIES);
+
+    functionProperties.Code = properties.InlineCode !== undefined
+      ? { ZipFile: properties.InlineCode }
+      : properties.ImageUri !== undefined
+        ? { ImageUri: properties.ImageUri }
+        : this.s3Location(properties.CodeUri, 'S3Bucket', 'S3Key');
+
+    if (properties.Tracing !== undefined) {
+      functionProperties.TracingConfig = { Mode: properties.Tracing };
+    }
+    if (this.isObject(properties.DeadLetterQueue)) {
+      functionProperties.DeadLetterConfig = { TargetArn: properties.DeadLetterQueue.TargetArn };
+    }
+    if (properties.Tags !== undefined) {
+      functionProperties.Tags = this.tagList(properties.Tags);
+    }
+
+    functionProperties.Role = properties.Role ?? { 'Fn::GetAtt': [`${logicalId}Role`, 'Arn'] };
+    resources[logicalId] = { Type: 'AWS::Lambda::Function', Properties: functionProperties };
+    if (properties.Role === undefined) {
+      resources[`${logicalId}Role`] = this.executionRole('lambda.amazonaws.com');
+    }
+
+    // AutoPublishAlias publishes a version on each deployment behind an alias
+    let functionRef: unknown = { Ref: logicalId };
+    if (properties.AutoPublishAlias !== undefined) {
+      const aliasId = `${logicalId}Alias${properties.AutoPublishAlias}`;
+      resources[`${logicalId}Version`] = {
+        Type: 'AWS::Lambda::Version',
+        Properties: { FunctionName: { Ref: logicalId } },
+      };
+      resources[aliasId] = {
+        Type: 'AWS::Lambda::Alias',
+        Properties: {
+          Name: properties.AutoPublishAlias,
+          FunctionName: { Ref: logicalId },
+          FunctionVersion: { 'Fn::GetAtt': [`${logicalId}Version`, 'Version'] },
+          ...(properties.ProvisionedConcurrencyConfig !== undefined
+            ? { ProvisionedConcurrencyConfig: properties.ProvisionedConcurrencyConfig }
+            : {}),
+        },
+      };
+      functionRef = { Ref: aliasId };
+    }
+
+    if (this.isObject(properties.FunctionUrlConfig)) {
+      resources[`${logicalId}Url`] = {
+        Type: 'AWS::Lambda::Url',
+        Properties: { ...properties.FunctionUrlConfig, TargetFunctionArn: functionRef },
+      };
+    }
+
+    Object.assign(resources, this.expandEvents(logicalId, properties.Events, functionRef, globals));
+    return resources;
+  }
+
+  /**
+   * Expand the event sources of a function or state machine
+   */
+  private static expandEvents(
+    logicalId: string,
+    events: unknown,
+    targetRef: unknown,
+    globals: Record<string, Properties>
+  ): Record<string, CloudFormationResource> {
+    const resources: Record<string, CloudFormationResource> = {};
+    if (!this.isObject(events)) {
+      return resources;
+    }
+
+    for (const [eventName, event] of Object.entries(events)) {
+      if (!this.isObject(event) || typeof event.Type !== 'string') {
+        continue;
+      }
+      const eventProperties: Properties = this.isObject(event.Properties) ? event.Properties : {};
+      const eventId = `${logicalId}${eventName}`;
+      const target = { Id: `${eventId}Target`, Arn: { 'Fn::GetAtt': [logicalId, 'Arn'] } };
+
+      switch (event.Type) {
+        case 'Api':
+          // Events without a RestApiId share the implicit ServerlessRestApi
+          if (eventProperties.RestApiId === undefined) {
+            resources.ServerlessRestApi = this.restApi(this.mergeGlobals(globals.Api, {}));
+          }
+          break;
+        case 'HttpApi':
+          if (eventProperties.ApiId === undefined) {
+            resources.ServerlessHttpApi = this.httpApi(this.mergeGlobals(globals.HttpApi, {}));
+          }
+          break;
+        case 'Schedule':
+          resources[eventId] = {
+            Type: 'AWS::Events::Rule',
+            Properties: {
+              ScheduleExpression: eventProperties.Schedule,
+              State: eventProperties.Enabled === false ? 'DISABLED' : 'ENABLED',
+              Targets: [target],
+            },
+          };
+          break;
+        case 'ScheduleV2':
+          resources[eventId] = {
+            Type: 'AWS::Scheduler::Schedule',
+            Properties: {
+              ScheduleExpression: eventProperties.ScheduleExpression,
+              FlexibleTimeWindow: eventProperties.FlexibleTimeWindow ?? { Mode: 'OFF' },
+              Target: { Arn: target.Arn, RoleArn: eventProperties.RoleArn },
+            },
+          };
+          break;
+        case 'CloudWatchEvent':
+        case 'EventBridgeRule':
+          resources[eventId] = {
+            Type: 'AWS::Events::Rule',
+            Properties: {
+              EventPattern: eventProperties.Pattern,
+              EventBusName: eventProperties.EventBusName,
+              Targets: [target],
+            },
+          };
+          break;
+        case 'SNS':
+          resources[eventId] = {
+            Type: 'AWS::SNS::Subscription',
+            Properties: { Protocol: 'lambda', Endpoint: targetRef, TopicArn: eventProperties.Topic },
+          };
+          break;
+        default:
+          if (EVENT_SOURCE_ARNS[event.Type]) {
+            const { [EVENT_SOURCE_ARNS[event.Type]]: sourceArn, ...mappingProperties } = eventProperties;
+            resources[eventId] = {
+              Type: 'AWS::Lambda::EventSourceMapping',
+              Properties: { ...mappingProperties, EventSourceArn: sourceArn, FunctionName: targetRef },
+            };
+          }
+          // S3, Cognito and other events only add permissions or notification settings
+          break;
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Expand a state machine into AWS::StepFunctions::StateMachine with its
+   * role and event sources
+   */
+  private static expandStateMachine(
+    logicalId: string,
+    properties: Properties,
+    globals: Record<string, Properties>
+  ): Record<string, CloudFormationResource> {
+    const stateMachineProperties: Properties = {
+      StateMachineName: properties.Name,
+      StateMachineType: properties.Type,
+      Definition: properties.Definition,
+      DefinitionSubstitutions: properties.DefinitionSubstitutions,
+      LoggingConfiguration: properties.Logging,
+      TracingConfiguration: properties.Tracing,
+      RoleArn: properties.Role ?? { 'Fn::GetAtt': [`${logicalId}Role`, 'Arn'] },
+    };
+    if (properties.DefinitionUri !== undefined) {
+      stateMachineProperties.DefinitionS3Location = this.s3Location(properties.DefinitionUri, 'Bucket', 'Key');
+    }
+    if (properties.Tags !== undefined) {
+      stateMachineProperties.Tags = this.tagList(properties.Tags);
+    }
+
+    const resources: Record<string, CloudFormationResource> = {
+      [logicalId]: { Type: 'AWS::StepFunctions::StateMachine', Properties: this.withoutUndefined(stateMachineProperties) },
+    };
+    if (properties.Role === undefined) {
+      resources[`${logicalId}Role`] = this.executionRole('states.amazonaws.com');
+    }
+
+    Object.assign(resources, this.expandEvents(logicalId, properties.Events, { Ref: logicalId }, globals));
+    return resources;
+  }
+
+  /**
+   * Build an AWS::ApiGateway::RestApi from AWS::Serverless::Api properties
+   */
+  private static restApi(properties: Properties): CloudFormationResource {
+    const endpointType = properties.EndpointConfiguration;
+    return {
+      Type: 'AWS::ApiGateway::RestApi',
+      Properties: this.withoutUndefined({
+        Name: properties.Name ?? { Ref: 'AWS::StackName' },
+        Description: properties.Description,
+        Body: properties.DefinitionBody,
+        BodyS3Location: properties.DefinitionUri !== undefined ? this.s3Location(properties.DefinitionUri, 'Bucket', 'Key') : undefined,
+        EndpointConfiguration: typeof endpointType === 'string' ? { Types: [endpointType] } : endpointType,
+        BinaryMediaTypes: properties.BinaryMediaTypes,
+        MinimumCompressionSize: properties.MinimumCompressionSize,
+        ApiKeySourceType: properties.ApiKeySourceType,
+        DisableExecuteApiEndpoint: properties.DisableExecuteApiEndpoint,
+        Mode: properties.Mode,
+      }),
+    };
+  }
+
+  /**
+   * Build an AWS::ApiGatewayV2::Api from AWS::Serverless::HttpApi properties
+   */
+  private static httpApi(properties: Properties): CloudFormationResource {
+    return {
+      Type: 'AWS::ApiGatewayV2::Api',
+      Properties: this.withoutUndefined({
+        Name: properties.Name ?? { Ref: 'AWS::StackName' },
+        Description: properties.Description,
+        ProtocolType: 'HTTP',
+        Body: properties.DefinitionBody,
+        BodyS3Location: properties.DefinitionUri !== undefined ? this.s3Location(properties.DefinitionUri, 'Bucket', 'Key') : undefined,
+        CorsConfiguration: this.isObject(properties.CorsConfiguration) ? properties.CorsConfiguration : undefined,
+        DisableExecuteApiEndpoint: properties.DisableExecuteApiEndpoint,
+        Tags: properties.Tags,
+      }),
+    };
+  }
+
+  /**
+   * Build an AWS::DynamoDB::Table from AWS::Serverless::SimpleTable
+   * properties: a string "id" hash key and on-demand capacity unless given
+   */
+  private static simpleTable(properties: Properties): CloudFormationResource {
+    const primaryKey: Properties = this.isObject(properties.PrimaryKey) ? properties.PrimaryKey : {};
+    const keyName = primaryKey.Name ?? 'id';
+    const keyType = typeof primaryKey.Type === 'string' ? primaryKey.Type : 'String';
+
+    return {
+      Type: 'AWS::DynamoDB::Table',
+      Properties: this.withoutUndefined({
+        TableName: properties.TableName,
+        KeySchema: [{ AttributeName: keyName, KeyType: 'HASH' }],
+        AttributeDefinitions: [{ AttributeName: keyName, AttributeType: ATTRIBUTE_TYPES[keyType] || keyType }],
+        ...(properties.ProvisionedThroughput !== undefined
+          ? { ProvisionedThroughput: properties.ProvisionedThroughput }
+          : { BillingMode: 'PAY_PER_REQUEST' }),
+        SSESpecification: properties.SSESpecification,
+        PointInTimeRecoverySpecification: properties.PointInTimeRecoverySpecification,
+        Tags: properties.Tags !== undefined ? this.tagList(properties.Tags) : undefined,
+      }),
+    };
+  }
+
+  /**
+   * Build an AWS::Lambda::LayerVersion from AWS::Serverless::LayerVersion properties
+   */
+  private static layerVersion(properties: Properties): CloudFormationResource {
+    return {
+      Type: 'AWS::Lambda::LayerVersion',
+      Properties: this.withoutUndefined({
+        LayerName: properties.LayerName,
+        Description: properties.Description,
+        Content: this.s3Location(properties.ContentUri, 'S3Bucket', 'S3Key'),
+        CompatibleRuntimes: properties.CompatibleRuntimes,
+        CompatibleArchitectures: properties.CompatibleArchitectures,
+        LicenseInfo: properties.LicenseInfo,
+      }),
+    };
+  }
+
+  /**
+   * Build a nested AWS::CloudFormation::Stack from AWS::Serverless::Application
+   * properties. A local Location stays a path the nested stack lookup can follow
+   */
+  private static application(properties: Properties): CloudFormationResource {
+    const location = properties.Location;
+    const templateUrl = this.isObject(location) && typeof location.ApplicationId === 'string'
+      ? `serverlessrepo://${location.ApplicationId}/${String(location.SemanticVersion)}`
+      : location;
+
+    return {
+      Type: 'AWS::CloudFormation::Stack',
+      Properties: this.withoutUndefined({
+        TemplateURL: templateUrl,
+        Parameters: properties.Parameters,
+        NotificationARNs: properties.NotificationARNs,
+        TimeoutInMinutes: properties.TimeoutInMinutes,
+        Tags: properties.Tags !== undefined ? this.tagList(properties.Tags) : undefined,
+      }),
+    };
+  }
+
+  /**
+   * Build an execution role that a service can assume
+   */
+  private static executionRole(servicePrincipal: string): CloudFormationResource {
+    return {
+      Type: 'AWS::IAM::Role',
+      Properties: {
+        AssumeRolePolicyDocument: {
+          Version: '2012-10-17',
+          Statement: [{ Effect: 'Allow', Principal: { Service: [servicePrincipal] }, Action: ['sts:AssumeRole'] }],
+        },
+      },
+    };
+  }
+
+  /**
+   * Merge Globals into a resource's properties the way SAM does: maps are
+   * merged, lists are appended to, and other values are replaced
+   */
+  private static mergeGlobals(globalValue: unknown, localValue: unknown): Properties {
+    return this.mergeValue(globalValue, localValue) as Properties;
+  }
+
+  /**
+   * Merge one Globals value with the resource's value
+   */
+  private static mergeValue(globalValue: unknown, localValue: unknown): unknown {
+    if (globalValue === undefined) {
+      return localValue;
+    }
+    if (localValue === undefined) {
+      return globalValue;
+    }
+    if (Array.isArray(globalValue) && Array.isArray(localValue)) {
+      return [...globalValue, ...localValue];
+    }
+    // Intrinsic functions are values, not maps to merge into
+    if (this.isObject(globalValue) && this.isObject(localValue) && !this.isIntrinsic(localValue)) {
+      const merged: Properties = { ...globalValue };
+      for (const [key, value] of Object.entries(localValue)) {
+        merged[key] = this.mergeValue(globalValue[key], value);
+      }
+      return merged;
+    }
+    return localValue;
+  }
+
+  /**
+   * Convert a CodeUri, ContentUri or DefinitionUri (an s3:// URI, a local
+   * path or a Bucket/Key object) into an S3 location with the given key names
+   */
+  private static s3Location(uri: unknown, bucketKey: string, objectKey: string): Properties | undefined {
+    if (typeof uri === 'string') {
+      const match = uri.match(/^s3:\/\/([^/]+)\/(.+)$/);
+      return match ? { [bucketKey]: match[1], [objectKey]: match[2] } : { [bucketKey]: 'local', [objectKey]: uri };
+    }
+    if (this.isObject(uri) && !this.isIntrinsic(uri)) {
+      return { [bucketKey]: uri.Bucket, [objectKey]: uri.Key };
+    }
+    return uri === undefined ? undefined : { [bucketKey]: uri, [objectKey]: uri };
+  }
+
+  /**
+   * Convert SAM's tag map into CloudFormation's list of Key/Value pairs
+   */
+  private static tagList(tags: unknown): unknown {
+    if (!this.isObject(tags) || this.isIntrinsic(tags)) {
+      return tags;
+    }
+    return Object.entries(tags).map(([Key, Value]) => ({ Key, Value }));
+  }
+
+  /**
+   * Copy the named properties that are set
+   */
+  private static pick(properties: Properties, names: string[]): Properties {
+    return this.withoutUndefined(Object.fromEntries(names.map(name => [name, properties[name]])));
+  }
+
+  /**
+   * Drop properties that are not set
+   */
+  private static withoutUndefined(properties: Properties): Properties {
+    return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Check whether a value is a plain object
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Check whether an object is an intrinsic function such as Ref or Fn::GetAtt
+   */
+  private static isIntrinsic(value: Record<string, unknown>): boolean {
+    const keys = Object.keys(value);
+    return keys.length === 1 && (keys[0] === 'Ref' || keys[0].startsWith('Fn::'));
+  }
+}
@@ -11,9 +11,10 @@ import {
   GetTemplateCommand,
   ListStacksCommand,
   DescribeStacksCommand,
+  ListStackResourcesCommand,
   StackStatus,
 } from '@aws-sdk/client-cloudformation';
-import { CloudFormationTemplate } from './types';
+import { CloudFormationTemplate, CloudFormationResource } from './types';
 import { TemplateParser } from './template-parser';
 
 export interface StackInfo {
@@ -29,6 +30,33 @@ export interface FetchedTemplate {
   template: CloudFormationTemplate;
   source: 'deployed' | 'synthesized' | 'local';
   templatePath?: string;
+  /** Templates of nested stacks, by the logical ID of their AWS::CloudFormation::Stack resource */
+  nestedStacks?: Record<string, FetchedTemplate>;
+}
+
+/**
+ * The parts of a CDK cloud assembly manifest (manifest.json) read for file
+ * assets. Values come from disk, so each is checked before it is used
+ */
+interface CdkManifest {
+  artifacts?: Record<string, {
+    type?: unknown;
+    properties?: { file?: unknown };
+    metadata?: Record<string, Array<{
+      type?: unknown;
+      data?: { path?: unknown; id?: unknown; sourceHash?: unknown };
+    }>>;
+  }>;
+}
+
+/**
+ * The file assets of a CDK asset manifest (<Stack>.assets.json), by asset hash
+ */
+interface CdkAssetManifest {
+  files?: Record<string, {
+    source?: { path?: unknown };
+    destinations?: Record<string, { objectKey?: unknown }>;
+  }>;
 }
 
 export class TemplateFetcher {
@@ -64,6 +92,7 @@ export class TemplateFetcher {
         stackName,
         template,
         source: 'deployed',
+        nestedStacks: await this.fetchDeployedNestedStacks(stackName, template),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -71,6 +100,45 @@ export class TemplateFetcher {
     }
   }
   
+  /**
+   * Fetch the deployed templates of a stack's nested stacks, found through
+   * the physical IDs of its AWS::CloudFormation::Stack resources
+   */
+  private async fetchDeployedNestedStacks(
+    stackName: string,
+    template: CloudFormationTemplate
+  ): Promise<Record<string, FetchedTemplate>> {
+    const nestedStacks: Record<string, FetchedTemplate> = {};
+    if (TemplateParser.getResourcesByType(template, 'AWS::CloudFormation::Stack').size === 0) {
+      return nestedStacks;
+    }
+    
+    let nextToken: string | undefined;
+    do {
+      const response = await this.cfnClient.send(new ListStackResourcesCommand({
+        StackName: stackName,
+        NextToken: nextToken,
+      }));
+      
+      for (const summary of response.StackResourceSummaries || []) {
+        if (summary.ResourceType !== 'AWS::CloudFormation::Stack' || !summary.LogicalResourceId || !summary.PhysicalResourceId) {
+          continue;
+        }
+        
+        try {
+          const nested = await this.fetchDeployedTemplate(summary.PhysicalResourceId);
+          nestedStacks[summary.LogicalResourceId] = { ...nested, stackName: `${stackName}/${summary.LogicalResourceId}` };
+        } catch (error) {
+          console.warn(`Warning: Could not fetch nested stack ${summary.LogicalResourceId} of ${stackName}: ${error}`);
+        }
+      }
+      
+      nextToken = response.NextToken;
+    } while (nextToken);
+    
+    return nestedStacks;
+  }
+  
   /**
    * List all deployed stacks in the account/region
    */
@@ -165,6 +233,7 @@ export class TemplateFetcher {
       template,
       source: 'synthesized',
       templatePath,
+      nestedStacks: this.resolveNestedStacks(stackName, template, 'synthesized', cdkOutDir, this.loadAssetPaths(cdkOutDir)),
     };
   }
   
@@ -180,15 +249,159 @@ export class TemplateFetcher {
     
     const template = TemplateParser.parseFile(absolutePath);
     const inferredStackName = stackName || path.basename(filePath, path.extname(filePath));
+    const templateDir = path.dirname(absolutePath);
     
     return {
       stackName: inferredStackName,
       template,
       source: 'local',
       templatePath: absolutePath,
+      nestedStacks: this.resolveNestedStacks(inferredStackName, template, 'local', templateDir, this.loadAssetPaths(templateDir)),
     };
   }
   
+  /**
+   * Load the nested templates of a template's AWS::CloudFormation::Stack
+   * resources from local files, recursively. Stacks whose template can't be
+   * found are left out
+   */
+  static resolveNestedStacks(
+    stackName: string,
+    template: CloudFormationTemplate,
+    source: 'synthesized' | 'local',
+    baseDir: string,
+    assetPaths: Map<string, string>,
+    visited: Set<string> = new Set()
+  ): Record<string, FetchedTemplate> {
+    const nestedStacks: Record<string, FetchedTemplate> = {};
+    
+    for (const [logicalId, resource] of TemplateParser.getResourcesByType(template, 'AWS::CloudFormation::Stack')) {
+      const templatePath = this.findNestedTemplateFile(resource, baseDir, assetPaths);
+      if (!templatePath || visited.has(templatePath)) {
+        continue;
+      }
+      
+      const nestedTemplate = TemplateParser.parseFile(templatePath);
+      const nestedStackName = `${stackName}/${logicalId}`;
+      nestedStacks[logicalId] = {
+        stackName: nestedStackName,
+        template: nestedTemplate,
+        source,
+        templatePath,
+        nestedStacks: this.resolveNestedStacks(
+          nestedStackName, nestedTemplate, source, baseDir, assetPaths, new Set([...visited, templatePath])
+        ),
+      };
+    }
+    
+    return nestedStacks;
+  }
+  
+  /**
+   * Find the local file of a nested stack's template: the CDK aws:asset:path
+   * resource metadata, the asset whose hash or object key ends the
+   * TemplateURL, or a TemplateURL that is a path relative to the template
+   */
+  private static findNestedTemplateFile(
+    resource: CloudFormationResource,
+    baseDir: string,
+    assetPaths: Map<string, string>
+  ): string | undefined {
+    const candidates: string[] = [];
+    
+    const assetPath = resource.Metadata?.['aws:asset:path'];
+    if (typeof assetPath === 'string') {
+      candidates.push(path.resolve(baseDir, assetPath));
+    }
+    
+    const templateUrl = this.flattenTemplateUrl(resource.Properties?.TemplateURL);
+    if (templateUrl) {
+      const objectKey = templateUrl.slice(templateUrl.lastIndexOf('/') + 1);
+      const assetFile = assetPaths.get(objectKey) || assetPaths.get(objectKey.replace(/\.json$/, ''));
+      if (assetFile) {
+        candidates.push(assetFile);
+      }
+      if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(templateUrl)) {
+        candidates.push(path.resolve(baseDir, templateUrl));
+      }
+    }
+    
+    return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+  }
+  
+  /**
+   * Reduce a TemplateURL to a string, keeping the literal parts of an
+   * Fn::Join or Fn::Sub (enough to read the object key at the end)
+   */
+  private static flattenTemplateUrl(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+      return value;
+    }
+    
+    const obj = value as Record<string, unknown> | undefined;
+    if (Array.isArray(obj?.['Fn::Join']) && Array.isArray(obj!['Fn::Join'][1])) {
+      const [separator, parts] = obj!['Fn::Join'] as [string, unknown[]];
+      return parts.map(part => (typeof part === 'string' ? part : '')).join(separator);
+    }
+    
+    const sub = obj?.['Fn::Sub'];
+    if (typeof sub === 'string' || (Array.isArray(sub) && typeof sub[0] === 'string')) {
+      return Array.isArray(sub) ? sub[0] : sub;
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Map the file assets of a CDK output directory (by asset hash, ID and S3
+   * object key) to their local paths, from the asset metadata in
+   * manifest.json and the asset manifests it lists
+   */
+  static loadAssetPaths(cdkOutDir: string): Map<string, string> {
+    const assetPaths = new Map<string, string>();
+    const manifestPath = path.join(cdkOutDir, 'manifest.json');
+    if (!fs.existsSync(manifestPath)) {
+      return assetPaths;
+    }
+    
+    try {
+      const manifest: CdkManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      
+      for (const artifact of Object.values(manifest.artifacts || {})) {
+        // Asset metadata entries (aws:cdk:asset) on stack artifacts
+        for (const entries of Object.values(artifact.metadata || {})) {
+          for (const entry of entries || []) {
+            if (entry.type === 'aws:cdk:asset' && entry.data && typeof entry.data.path === 'string') {
+              const filePath = path.resolve(cdkOutDir, entry.data.path);
+              for (const key of [entry.data.id, entry.data.sourceHash]) {
+                if (typeof key === 'string') assetPaths.set(key, filePath);
+              }
+            }
+          }
+        }
+        
+        // Asset manifests (<Stack>.assets.json) listing file assets and their destinations
+        if (artifact.type === 'cdk:asset-manifest' && typeof artifact.properties?.file === 'string') {
+          const assetManifest: CdkAssetManifest = JSON.parse(fs.readFileSync(path.join(cdkOutDir, artifact.properties.file), 'utf-8'));
+          for (const [hash, asset] of Object.entries(assetManifest.files || {})) {
+            if (!asset.source || typeof asset.source.path !== 'string') {
+              continue;
+            }
+            const filePath = path.resolve(cdkOutDir, asset.source.path);
+            assetPaths.set(hash, filePath);
+            for (const destination of Object.values(asset.destinations || {})) {
+              if (typeof destination.objectKey === 'string') assetPaths.set(destination.objectKey, filePath);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not read CDK asset metadata in ${cdkOutDir}: ${error}`);
+    }
+    
+    return assetPaths;
+  }
+  
   /**
    * Discover all stacks from CDK output directory
    */
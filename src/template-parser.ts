@@ -6,7 +6,50 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
-import { CloudFormationTemplate, CloudFormationResource } from './types';
+import { CloudFormationTemplate, CloudFormationResource, ResolutionContext } from './types';
+import { ResourceGraph, ResourceReference } from './resource-graph';
+import { SamTransform } from './sam-transform';
+
+/**
+ * Matches placeholders left by references that cannot be resolved locally
+ */
+const UNRESOLVED_PATTERN = /\{\{(Ref|GetAtt|FindInMap|ImportValue):/;
+
+/**
+ * Account ID used for AWS::AccountId when the real account is not known
+ */
+const PLACEHOLDER_ACCOUNT_ID = '123456789012';
+
+/**
+ * Intrinsic functions that have a YAML short form (e.g. !Equals, !If)
+ */
+const SHORT_FORM_FUNCTIONS = [
+  'And', 'Base64', 'Cidr', 'Equals', 'FindInMap', 'GetAtt', 'GetAZs', 'If',
+  'ImportValue', 'Join', 'Not', 'Or', 'Select', 'Split', 'Sub', 'Transform',
+];
+
+/**
+ * YAML tags mapping CloudFormation short-form functions to their long form
+ */
+const CLOUDFORMATION_YAML_TAGS: yaml.Tags = [
+  { tag: '!Ref', resolve: (value: string) => ({ Ref: value }) },
+  { tag: '!Condition', resolve: (value: string) => ({ Condition: value }) },
+  ...SHORT_FORM_FUNCTIONS.flatMap((name): yaml.Tags => {
+    const key = `Fn::${name}`;
+    const resolveCollection = (collection: yaml.YAMLMap | yaml.YAMLSeq) => ({ [key]: collection.toJSON() });
+    return [
+      {
+        tag: `!${name}`,
+        // !GetAtt Resource.Attribute is shorthand for [Resource, Attribute]
+        resolve: (value: string) => ({
+          [key]: name === 'GetAtt' ? [value.slice(0, value.indexOf('.')), value.slice(value.indexOf('.') + 1)] : value,
+        }),
+      },
+      { tag: `!${name}`, collection: 'seq', resolve: resolveCollection },
+      { tag: `!${name}`, collection: 'map', resolve: resolveCollection },
+    ];
+  }),
+];
 
 export class TemplateParser {
   /**
@@ -24,7 +67,8 @@ export class TemplateParser {
   }
   
   /**
-   * Parse a CloudFormation template from string content
+   * Parse a CloudFormation template from string content, expanding AWS SAM
+   * resources when the template declares the SAM transform
    */
   static parseContent(content: string, sourceName: string = 'template'): CloudFormationTemplate {
     let template: CloudFormationTemplate;
@@ -35,7 +79,7 @@ export class TemplateParser {
     } catch {
       // Try YAML
       try {
-        template = yaml.parse(content);
+        template = yaml.parse(content, { customTags: CLOUDFORMATION_YAML_TAGS });
       } catch (yamlError) {
         throw new Error(`Failed to parse template ${sourceName} as JSON or YAML: ${yamlError}`);
       }
@@ -50,7 +94,8 @@ export class TemplateParser {
       throw new Error(`Template ${sourceName} has no Resources section`);
     }
     
-    return template;
+    // Price SAM resources as the CloudFormation resources they deploy
+    return SamTransform.expand(template);
   }
   
   /**
@@ -98,14 +143,175 @@ export class TemplateParser {
     return types;
   }
   
+  /**
+   * Create a resolution context for a template, evaluating its Conditions
+   * section against the given parameter values (or parameter defaults)
+   * and pseudo parameters
+   */
+  static createContext(
+    template: CloudFormationTemplate,
+    context: ResolutionContext = {}
+  ): ResolutionContext {
+    const unresolvedConditions: string[] = [];
+    const conditions = this.evaluateConditions(template, { ...context, unresolvedConditions });
+    return {
+      ...context,
+      conditions,
+      unresolvedConditions,
+    };
+  }
+  
+  /**
+   * Evaluate every condition in the template's Conditions section. Conditions
+   * that compare values which cannot be resolved locally (e.g. a parameter
+   * without a value) are left out and collected in context.unresolvedConditions
+   */
+  static evaluateConditions(
+    template: CloudFormationTemplate,
+    context: ResolutionContext = {}
+  ): Record<string, boolean> {
+    const results: Record<string, boolean | undefined> = {};
+    
+    for (const name of Object.keys(template.Conditions || {})) {
+      this.evaluateNamedCondition(template, name, context, results, new Set());
+    }
+    
+    const evaluated: Record<string, boolean> = {};
+    for (const [name, result] of Object.entries(results)) {
+      if (result === undefined) {
+        context.unresolvedConditions?.push(name);
+      } else {
+        evaluated[name] = result;
+      }
+    }
+    return evaluated;
+  }
+  
+  /**
+   * Check whether a resource is created, based on its Condition attribute.
+   * Resources whose condition could not be evaluated are assumed created
+   */
+  static isResourceIncluded(resource: CloudFormationResource, context: ResolutionContext = {}): boolean {
+    if (!resource.Condition || !context.conditions) {
+      return true;
+    }
+    
+    return context.conditions[resource.Condition] !== false;
+  }
+  
+  /**
+   * Evaluate a named condition, memoizing results and detecting circular
+   * references. Undefined when the condition depends on an unresolved value
+   */
+  private static evaluateNamedCondition(
+    template: CloudFormationTemplate,
+    name: string,
+    context: ResolutionContext,
+    results: Record<string, boolean | undefined>,
+    visiting: Set<string>
+  ): boolean | undefined {
+    if (name in results) {
+      return results[name];
+    }
+    
+    const conditions = template.Conditions || {};
+    if (!(name in conditions)) {
+      throw new Error(`Condition not found: ${name}`);
+    }
+    
+    if (visiting.has(name)) {
+      throw new Error(`Circular condition reference: ${[...visiting, name].join(' -> ')}`);
+    }
+    
+    visiting.add(name);
+    const result = this.evaluateConditionExpression(template, conditions[name], context, results, visiting);
+    visiting.delete(name);
+    
+    results[name] = result;
+    return result;
+  }
+  
+  /**
+   * Evaluate a condition function (Fn::Equals, Fn::And, Fn::Or, Fn::Not,
+   * Condition). Undefined when the result depends on a value that cannot be
+   * resolved, rather than comparing its placeholder as a string
+   */
+  private static evaluateConditionExpression(
+    template: CloudFormationTemplate,
+    expression: unknown,
+    context: ResolutionContext,
+    results: Record<string, boolean | undefined>,
+    visiting: Set<string>
+  ): boolean | undefined {
+    if (typeof expression === 'boolean') {
+      return expression;
+    }
+    
+    if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+      throw new Error(`Invalid condition expression: ${JSON.stringify(expression)}`);
+    }
+    
+    const obj = expression as Record<string, unknown>;
+    const evaluate = (operand: unknown) =>
+      this.evaluateConditionExpression(template, operand, context, results, visiting);
+    
+    if ('Condition' in obj && typeof obj.Condition === 'string') {
+      return this.evaluateNamedCondition(template, obj.Condition, context, results, visiting);
+    }
+    
+    if ('Fn::Equals' in obj) {
+      const operands = obj['Fn::Equals'];
+      if (!Array.isArray(operands) || operands.length !== 2) {
+        throw new Error('Fn::Equals requires exactly two values');
+      }
+      const [left, right] = operands.map(operand => this.resolveBasicIntrinsics(template, operand, context));
+      if (this.isUnresolved(left) || this.isUnresolved(right)) {
+        return undefined;
+      }
+      return String(left) === String(right);
+    }
+    
+    // Fn::And and Fn::Or are decided by any false or true operand, even
+    // when other operands are unresolved
+    if ('Fn::And' in obj) {
+      const operands = obj['Fn::And'];
+      if (!Array.isArray(operands)) {
+        throw new Error('Fn::And requires a list of conditions');
+      }
+      const values = operands.map(evaluate);
+      return values.includes(false) ? false : values.includes(undefined) ? undefined : true;
+    }
+    
+    if ('Fn::Or' in obj) {
+      const operands = obj['Fn::Or'];
+      if (!Array.isArray(operands)) {
+        throw new Error('Fn::Or requires a list of conditions');
+      }
+      const values = operands.map(evaluate);
+      return values.includes(true) ? true : values.includes(undefined) ? undefined : false;
+    }
+    
+    if ('Fn::Not' in obj) {
+      const operands = obj['Fn::Not'];
+      if (!Array.isArray(operands) || operands.length !== 1) {
+        throw new Error('Fn::Not requires exactly one condition');
+      }
+      const value = evaluate(operands[0]);
+      return value === undefined ? undefined : !value;
+    }
+    
+    throw new Error(`Unsupported condition function: ${Object.keys(obj).join(', ')}`);
+  }
+  
   /**
    * Resolve intrinsic functions where possible (basic resolution)
-   * This handles simple cases like Ref to parameters with defaults
+   * This handles simple cases like Ref to parameters with defaults,
+   * and Fn::If using the evaluated conditions in the context
    */
   static resolveBasicIntrinsics(
     template: CloudFormationTemplate, 
     value: unknown,
-    context: { parameters?: Record<string, unknown> } = {}
+    context: ResolutionContext = {}
   ): unknown {
     if (value === null || value === undefined) {
       return value;
@@ -116,7 +322,10 @@ export class TemplateParser {
     }
     
     if (Array.isArray(value)) {
-      return value.map(item => this.resolveBasicIntrinsics(template, item, context));
+      // AWS::NoValue removes the item from the list
+      return value
+        .map(item => this.resolveBasicIntrinsics(template, item, context))
+        .filter(item => item !== undefined);
     }
     
     const obj = value as Record<string, unknown>;
@@ -125,14 +334,26 @@ export class TemplateParser {
     if ('Ref' in obj && typeof obj.Ref === 'string') {
       const refName = obj.Ref;
       
+      // AWS::NoValue removes the property
+      if (refName === 'AWS::NoValue') {
+        return undefined;
+      }
+      
+      if (refName.startsWith('AWS::')) {
+        const pseudoValue = this.resolvePseudoParameter(refName, context);
+        if (pseudoValue !== undefined) {
+          return pseudoValue;
+        }
+      }
+      
       // Check parameters
       if (template.Parameters && template.Parameters[refName]) {
         const param = template.Parameters[refName] as Record<string, unknown>;
         if (context.parameters && context.parameters[refName] !== undefined) {
-          return context.parameters[refName];
+          return this.coerceParameterValue(param, context.parameters[refName]);
         }
         if (param.Default !== undefined) {
-          return param.Default;
+          return this.coerceParameterValue(param, param.Default);
         }
       }
       
@@ -152,16 +373,96 @@ export class TemplateParser {
     if ('Fn::Sub' in obj) {
       const sub = obj['Fn::Sub'];
       if (typeof sub === 'string') {
-        return sub; // Return the template string as-is for estimation
+        return this.resolveSub(template, sub, {}, context);
+      }
+      if (Array.isArray(sub) && typeof sub[0] === 'string') {
+        const variables = (sub[1] && typeof sub[1] === 'object' ? sub[1] : {}) as Record<string, unknown>;
+        return this.resolveSub(template, sub[0], variables, context);
+      }
+    }
+    
+    // Handle Fn::FindInMap
+    if ('Fn::FindInMap' in obj) {
+      const findInMap = obj['Fn::FindInMap'];
+      if (Array.isArray(findInMap) && findInMap.length >= 3) {
+        const [mapName, topKey, secondKey] = findInMap
+          .slice(0, 3)
+          .map(key => this.resolveBasicIntrinsics(template, key, context));
+        
+        const mapping = template.Mappings?.[String(mapName)] as Record<string, Record<string, unknown>> | undefined;
+        const mapped = mapping?.[String(topKey)]?.[String(secondKey)];
+        if (mapped !== undefined) {
+          return this.resolveBasicIntrinsics(template, mapped, context);
+        }
+        
+        // AWS::LanguageExtensions allows a DefaultValue as the fourth argument
+        const options = findInMap[3] as Record<string, unknown> | undefined;
+        if (options && options.DefaultValue !== undefined) {
+          return this.resolveBasicIntrinsics(template, options.DefaultValue, context);
+        }
+        
+        return `{{FindInMap:${mapName}.${topKey}.${secondKey}}}`;
+      }
+    }
+    
+    // Handle Fn::Join
+    if ('Fn::Join' in obj) {
+      const join = obj['Fn::Join'];
+      if (Array.isArray(join) && join.length === 2) {
+        const list = this.resolveBasicIntrinsics(template, join[1], context);
+        if (Array.isArray(list)) {
+          return list.map(item => String(item)).join(String(join[0]));
+        }
       }
     }
     
+    // Handle Fn::Split
+    if ('Fn::Split' in obj) {
+      const split = obj['Fn::Split'];
+      if (Array.isArray(split) && split.length === 2) {
+        const source = this.resolveBasicIntrinsics(template, split[1], context);
+        if (typeof source === 'string') {
+          return source.split(String(split[0]));
+        }
+      }
+    }
+    
+    // Handle Fn::GetAZs
+    if ('Fn::GetAZs' in obj) {
+      const region = this.resolveBasicIntrinsics(template, obj['Fn::GetAZs'], context);
+      const azRegion = typeof region === 'string' && region !== '' ? region : context.region;
+      if (azRegion) {
+        return ['a', 'b', 'c'].map(zone => `${azRegion}${zone}`);
+      }
+    }
+    
+    // Handle Fn::ImportValue (values exported by other stacks are not known)
+    if ('Fn::ImportValue' in obj) {
+      const exportName = this.resolveBasicIntrinsics(template, obj['Fn::ImportValue'], context);
+      return `{{ImportValue:${exportName}}}`;
+    }
+    
+    // Handle Fn::Base64
+    if ('Fn::Base64' in obj) {
+      return this.resolveBasicIntrinsics(template, obj['Fn::Base64'], context);
+    }
+    
     // Handle Fn::If
     if ('Fn::If' in obj) {
       const ifExpr = obj['Fn::If'];
       if (Array.isArray(ifExpr) && ifExpr.length >= 2) {
-        // Return the "true" branch value for estimation
-        return this.resolveBasicIntrinsics(template, ifExpr[1], context);
+        const conditionName = ifExpr[0];
+        const conditionValue = typeof conditionName === 'string'
+          ? context.conditions?.[conditionName]
+          : undefined;
+        
+        // Fall back to the "true" branch when the condition is unknown,
+        // reporting conditions that depend on unresolved values
+        if (typeof conditionName === 'string' && context.unresolvedConditions?.includes(conditionName)) {
+          context.unresolvedProperties?.push(`Condition ${conditionName}`);
+        }
+        const branch = conditionValue === false ? ifExpr[2] : ifExpr[1];
+        return this.resolveBasicIntrinsics(template, branch, context);
       }
     }
     
@@ -169,23 +470,215 @@ export class TemplateParser {
     if ('Fn::Select' in obj) {
       const selectExpr = obj['Fn::Select'];
       if (Array.isArray(selectExpr) && selectExpr.length === 2) {
-        const index = selectExpr[0];
+        const index = Number(this.resolveBasicIntrinsics(template, selectExpr[0], context));
         const list = this.resolveBasicIntrinsics(template, selectExpr[1], context);
-        if (typeof index === 'number' && Array.isArray(list)) {
+        if (Number.isInteger(index) && Array.isArray(list)) {
           return list[index];
         }
       }
     }
     
-    // Recursively resolve object properties
+    // Recursively resolve object properties, dropping AWS::NoValue
     const resolved: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(obj)) {
-      resolved[key] = this.resolveBasicIntrinsics(template, val, context);
+      const resolvedValue = this.resolveBasicIntrinsics(template, val, context);
+      if (resolvedValue !== undefined) {
+        resolved[key] = resolvedValue;
+      }
     }
     
     return resolved;
   }
   
+  /**
+   * Build a dependency graph over the template's resources from Ref,
+   * Fn::GetAtt, Fn::Sub and DependsOn
+   */
+  static buildDependencyGraph(template: CloudFormationTemplate): ResourceGraph {
+    const resources = this.extractResources(template);
+    const resourceTypes = new Map([...resources].map(([logicalId, resource]) => [logicalId, resource.Type]));
+    const references: ResourceReference[] = [];
+    
+    for (const [logicalId, resource] of resources) {
+      this.collectReferences(template, logicalId, resource.Properties, '', references);
+      
+      const dependsOn = typeof resource.DependsOn === 'string' ? [resource.DependsOn] : resource.DependsOn || [];
+      for (const target of dependsOn) {
+        if (resourceTypes.has(target)) {
+          references.push({ source: logicalId, target, propertyPath: 'DependsOn', kind: 'DependsOn' });
+        }
+      }
+    }
+    
+    return new ResourceGraph(resourceTypes, references);
+  }
+  
+  /**
+   * Walk a property value collecting references to other resources. Paths
+   * skip list indices and intrinsic function names (e.g. Volumes.VolumeId)
+   */
+  private static collectReferences(
+    template: CloudFormationTemplate,
+    source: string,
+    value: unknown,
+    propertyPath: string,
+    references: ResourceReference[]
+  ): void {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        this.collectReferences(template, source, item, propertyPath, references);
+      }
+      return;
+    }
+    
+    const addReference = (target: unknown, kind: ResourceReference['kind']) => {
+      if (typeof target === 'string' && template.Resources[target]) {
+        references.push({ source, target, propertyPath, kind });
+      }
+    };
+    
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (key === 'Ref') {
+        addReference(child, 'Ref');
+      } else if (key === 'Fn::GetAtt') {
+        addReference(Array.isArray(child) ? child[0] : String(child).split('.')[0], 'GetAtt');
+      } else if (key === 'Fn::Sub') {
+        const subString = Array.isArray(child) ? child[0] : child;
+        if (typeof subString === 'string') {
+          for (const match of subString.matchAll(/\$\{([^!}][^}.]*)[^}]*\}/g)) {
+            addReference(match[1], 'Sub');
+          }
+        }
+        if (Array.isArray(child)) {
+          this.collectReferences(template, source, child[1], propertyPath, references);
+        }
+      } else if (key.startsWith('Fn::')) {
+        this.collectReferences(template, source, child, propertyPath, references);
+      } else {
+        this.collectReferences(template, source, child, propertyPath ? `${propertyPath}.${key}` : key, references);
+      }
+    }
+  }
+  
+  /**
+   * Get the logical ID of a resource in the same template that a value refers
+   * to, via Ref or Fn::GetAtt (raw or already resolved to a placeholder)
+   */
+  static getReferencedResourceId(template: CloudFormationTemplate, value: unknown): string | undefined {
+    let logicalId: unknown;
+    
+    if (typeof value === 'string') {
+      logicalId = /^\{\{(?:Ref|GetAtt):([^.}]+)/.exec(value)?.[1];
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const obj = value as Record<string, unknown>;
+      const getAtt = obj['Fn::GetAtt'];
+      if (typeof obj.Ref === 'string') {
+        logicalId = obj.Ref;
+      } else if (Array.isArray(getAtt)) {
+        logicalId = getAtt[0];
+      } else if (typeof getAtt === 'string') {
+        logicalId = getAtt.split('.')[0];
+      }
+    }
+    
+    return typeof logicalId === 'string' && template.Resources[logicalId] ? logicalId : undefined;
+  }
+  
+  /**
+   * Check whether a resolved value still contains references that could not
+   * be resolved (resource attributes, imports, missing mappings)
+   */
+  static isUnresolved(value: unknown): boolean {
+    if (typeof value === 'string') {
+      return UNRESOLVED_PATTERN.test(value);
+    }
+    
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value).some(key => key === 'Ref' || key.startsWith('Fn::'));
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Resolve a pseudo parameter (AWS::Region, AWS::AccountId, ...) from the context
+   */
+  private static resolvePseudoParameter(name: string, context: ResolutionContext): unknown {
+    const region = context.region;
+    
+    switch (name) {
+      case 'AWS::Region':
+        return region;
+      case 'AWS::Partition':
+        if (!region) return undefined;
+        if (region.startsWith('cn-')) return 'aws-cn';
+        if (region.startsWith('us-gov-')) return 'aws-us-gov';
+        return 'aws';
+      case 'AWS::URLSuffix':
+        if (!region) return undefined;
+        return region.startsWith('cn-') ? 'amazonaws.com.cn' : 'amazonaws.com';
+      case 'AWS::AccountId':
+        // The account never affects pricing, so a placeholder is enough
+        return context.accountId || PLACEHOLDER_ACCOUNT_ID;
+      case 'AWS::StackName':
+        return context.stackName;
+      case 'AWS::NotificationARNs':
+        return [];
+      default:
+        return undefined;
+    }
+  }
+  
+  /**
+   * Substitute ${Name} and ${Resource.Attribute} variables in an Fn::Sub string
+   */
+  private static resolveSub(
+    template: CloudFormationTemplate,
+    input: string,
+    variables: Record<string, unknown>,
+    context: ResolutionContext
+  ): string {
+    return input.replace(/\$\{([^}]+)\}/g, (_, name: string) => {
+      // ${!Literal} escapes a literal ${Literal}
+      if (name.startsWith('!')) {
+        return `\${${name.slice(1)}}`;
+      }
+      
+      const expression = name in variables
+        ? variables[name]
+        : name.includes('.') && !name.startsWith('AWS::')
+          ? { 'Fn::GetAtt': [name.slice(0, name.indexOf('.')), name.slice(name.indexOf('.') + 1)] }
+          : { Ref: name };
+      
+      const resolved = this.resolveBasicIntrinsics(template, expression, context);
+      return Array.isArray(resolved) ? resolved.join(',') : String(resolved);
+    });
+  }
+  
+  /**
+   * Convert a parameter value to the parameter's declared Type, since values
+   * from the command line and parameter files are always strings
+   */
+  private static coerceParameterValue(param: Record<string, unknown>, value: unknown): unknown {
+    const type = typeof param.Type === 'string' ? param.Type : 'String';
+    
+    if (type === 'Number') {
+      const num = Number(value);
+      return typeof value === 'string' && value.trim() !== '' && !Number.isNaN(num) ? num : value;
+    }
+    
+    if ((type === 'CommaDelimitedList' || type.startsWith('List<')) && typeof value === 'string') {
+      const items = value.split(',').map(item => item.trim());
+      return type === 'List<Number>' ? items.map(Number) : items;
+    }
+    
+    return value;
+  }
+  
   /**
    * Extract a property value from a resource, handling intrinsic functions
    */
@@ -193,7 +686,8 @@ export class TemplateParser {
     template: CloudFormationTemplate,
     resource: CloudFormationResource,
     propertyPath: string,
-    defaultValue?: unknown
+    defaultValue?: unknown,
+    context: ResolutionContext = {}
   ): unknown {
     const properties = resource.Properties || {};
     const parts = propertyPath.split('.');
@@ -203,14 +697,21 @@ export class TemplateParser {
       if (value === null || value === undefined || typeof value !== 'object') {
         return defaultValue;
       }
-      value = (value as Record<string, unknown>)[part];
+      // Resolve each level so paths can traverse Fn::If branches
+      value = this.resolveBasicIntrinsics(template, (value as Record<string, unknown>)[part], context);
     }
     
     if (value === undefined) {
       return defaultValue;
     }
     
-    return this.resolveBasicIntrinsics(template, value);
+    // Fall back to the default when a scalar property can't be resolved locally
+    if (defaultValue !== undefined && typeof defaultValue !== 'object' && this.isUnresolved(value)) {
+      context.unresolvedProperties?.push(propertyPath);
+      return defaultValue;
+    }
+    
+    return value;
   }
   
   /**
@@ -2,6 +2,8 @@
  * Type definitions for CloudFormation cost estimation
  */
 
+import type { ResourceGraph } from './resource-graph';
+
 export interface CloudFormationTemplate {
   AWSTemplateFormatVersion?: string;
   Description?: string;
@@ -10,6 +12,9 @@ export interface CloudFormationTemplate {
   Conditions?: Record<string, unknown>;
   Resources: Record<string, CloudFormationResource>;
   Outputs?: Record<string, unknown>;
+  Transform?: string | string[];
+  /** SAM properties applied to every resource of a type */
+  Globals?: Record<string, unknown>;
 }
 
 export interface CloudFormationResource {
@@ -20,6 +25,40 @@ export interface CloudFormationResource {
   Condition?: string;
 }
 
+/**
+ * The template of a nested stack, with the templates of its own nested
+ * stacks keyed by the logical ID of their AWS::CloudFormation::Stack resource
+ */
+export interface NestedStackTemplate {
+  template: CloudFormationTemplate;
+  templatePath?: string;
+  nestedStacks?: Record<string, NestedStackTemplate>;
+}
+
+/**
+ * Context used when resolving intrinsic functions in a template
+ */
+export interface ResolutionContext {
+  /** Parameter values, overriding parameter defaults */
+  parameters?: Record<string, unknown>;
+  /** Evaluated values of the template's Conditions section */
+  conditions?: Record<string, boolean>;
+  /** Collects conditions that depend on values that could not be resolved, so they were assumed true */
+  unresolvedConditions?: string[];
+  /** Values for the AWS::Region, AWS::AccountId and AWS::StackName pseudo parameters */
+  region?: string;
+  accountId?: string;
+  stackName?: string;
+  /** Collects property paths that could not be resolved and fell back to a default */
+  unresolvedProperties?: string[];
+  /** Collects prices missing from the pricing data that fell back to a default */
+  missingPrices?: string[];
+  /** Collects prices missing from the pricing data that were estimated from related prices */
+  estimatedPrices?: string[];
+  /** Dependency graph of the template's resources, for pricing related resources */
+  graph?: ResourceGraph;
+}
+
 export interface ResourceCost {
   resourceId: string;
   resourceType: string;
@@ -29,6 +68,20 @@ export interface ResourceCost {
   unit: string;
   details: CostDetail[];
   confidence: 'high' | 'medium' | 'low' | 'unknown';
+  /** Properties whose value could not be resolved, so a default was assumed */
+  unresolvedProperties?: string[];
+  /** Prices missing from the pricing data, so a default price was assumed */
+  warnings?: string[];
+  /** Instance prices missing from the pricing data, so they were estimated from related prices such as other sizes of the family */
+  estimatedPrices?: string[];
+  /** Resource this cost is grouped under in reports (e.g. the cluster of a DB instance) */
+  parentResourceId?: string;
+  /** Monthly cost at On-Demand rates, set when estimating under a commitment pricing model */
+  onDemandMonthlyCost?: number;
+  /** Monthly cost at public list prices, set when estimating with negotiated rates */
+  listMonthlyCost?: number;
+  /** Combined monthly cost of a nested stack's resources, which are listed under this stack resource */
+  nestedStackMonthlyCost?: number;
 }
 
 export interface CostDetail {
@@ -47,6 +100,35 @@ export interface StackCostEstimate {
   resources: ResourceCost[];
   unsupportedResources: UnsupportedResource[];
   timestamp: string;
+  /** Pricing model the costs were calculated under, when not On-Demand */
+  pricingModel?: string;
+  /** Total monthly cost at On-Demand rates, set alongside pricingModel */
+  onDemandMonthlyCost?: number;
+  /** Total monthly cost at public list prices, set when estimating with negotiated rates */
+  listMonthlyCost?: number;
+  /** Monthly Free Tier reduction included in the totals */
+  freeTierSavings?: number;
+  /** Pricing data the costs were calculated from */
+  pricing?: PricingProvenance;
+}
+
+/**
+ * Which pricing data an estimate used, so a past estimate can be traced
+ * back to the prices behind it
+ */
+export interface PricingProvenance {
+  /** Where the pricing data was loaded from, e.g. "bundled pricing data" */
+  source: string;
+  region: string;
+  lastUpdated: string;
+  /** Age of the pricing data in days when the estimate was made */
+  ageDays?: number;
+  /** Whether the pricing data was older than the staleness threshold */
+  stale: boolean;
+  /** SHA-256 of the region's pricing data */
+  hash: string;
+  /** Negotiated rates applied on top of the list prices, e.g. "rates.yml: 5% off" */
+  rates?: string;
 }
 
 export interface UnsupportedResource {
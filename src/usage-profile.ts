@@ -0,0 +1,349 @@
+/**
+ * Usage Profile
+ * Loads usage assumptions (requests, data volumes, storage) from a usage file,
+ * in the style of Infracost's usage file, keyed by resource type and logical ID
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { CloudFormationTemplate, CloudFormationResource } from './types';
+import { TemplateParser } from './template-parser';
+import { USAGE_BASED_RESOURCES } from './pricing-data';
+
+/**
+ * Usage values for a single resource, keyed by usage key (e.g. monthlyInvocations)
+ */
+export type ResourceUsage = Record<string, number>;
+
+export interface UsageKeyDefinition {
+  /** Value the calculator assumes when no usage is supplied (omitted when derived from properties) */
+  default?: number;
+  description: string;
+  /** Offer the key in usage file skeletons only for resources it applies to (default: all of the type) */
+  appliesTo?: (resource: CloudFormationResource) => boolean;
+}
+
+/**
+ * Structure of a usage file
+ *
+ * version: 0.1
+ * resource_type_default_usage:
+ *   AWS::Lambda::Function:
+ *     monthlyInvocations: 1000000
+ * resource_usage:
+ *   MyApiFunction:
+ *     monthlyInvocations: 50000000
+ */
+export interface UsageFile {
+  version?: string | number;
+  resource_type_default_usage?: Record<string, ResourceUsage>;
+  resource_usage?: Record<string, ResourceUsage>;
+}
+
+/**
+ * Usage keys accepted by each resource type, with the defaults used when a
+ * usage file does not provide a value
+ */
+export const USAGE_DEFAULTS: Record<string, Record<string, UsageKeyDefinition>> = {
+  'AWS::Lambda::Function': {
+    monthlyInvocations: { default: 100000, description: 'Function invocations per month' },
+    averageDurationMs: { description: 'Average invocation duration in milliseconds (defaults to half the Timeout)' },
+    monthlySnapStartRestores: { default: 10000, description: 'SnapStart snapshot restores (cold starts) per month, for non-Java runtimes' },
+  },
+  'AWS::DynamoDB::Table': {
+    monthlyWriteRequests: { default: 1000000, description: 'On-demand write request units per month' },
+    monthlyReadRequests: { default: 5000000, description: 'On-demand read request units per month' },
+  },
+  'AWS::S3::Bucket': {
+    storageGB: { default: 100, description: 'Average Standard storage in GB' },
+  },
+  'AWS::SQS::Queue': {
+    monthlyRequests: { default: 1000000, description: 'API requests per month' },
+  },
+  'AWS::ApiGateway::RestApi': {
+    monthlyRequests: { default: 1000000, description: 'API requests per month' },
+  },
+  'AWS::ApiGatewayV2::Api': {
+    monthlyRequests: { default: 1000000, description: 'API requests per month' },
+  },
+  'AWS::StepFunctions::StateMachine': {
+    monthlyExecutions: { default: 10000, description: 'Workflow executions per month' },
+    transitionsPerExecution: { default: 5, description: 'State transitions per execution' },
+  },
+  'AWS::SNS::Topic': {
+    monthlyPublishes: { default: 1000000, description: 'Publish requests per month' },
+  },
+  'AWS::Logs::LogGroup': {
+    monthlyIngestionGB: { default: 10, description: 'Log data ingested per month in GB' },
+    storageGB: { default: 50, description: 'Archived log storage in GB' },
+  },
+  'AWS::SSM::Parameter': {
+    monthlyApiCalls: { default: 10000, description: 'Parameter Store API calls per month' },
+  },
+  'AWS::ECR::Repository': {
+    storageGB: { default: 10, description: 'Image storage in GB' },
+  },
+  'AWS::Route53::RecordSet': {
+    monthlyQueries: { default: 1000000, description: 'DNS queries per month' },
+  },
+  'AWS::EC2::NatGateway': {
+    monthlyDataProcessedGB: { default: 100, description: 'Data processed by the gateway per month in GB' },
+  },
+  'AWS::ElasticLoadBalancingV2::LoadBalancer': {
+    averageLCU: { default: 10, description: 'Average load balancer capacity units consumed per hour' },
+  },
+  'AWS::EC2::Snapshot': {
+    storageGB: { default: 100, description: 'Snapshot storage in GB' },
+  },
+  'AWS::RDS::DBCluster': {
+    storageGB: { default: 100, description: 'Aurora cluster storage in GB' },
+    monthlyIORequests: { default: 50000000, description: 'Aurora I/O requests per month (Standard storage only)' },
+    averageACU: { description: 'Average capacity in ACUs of a Serverless v1 cluster, or of each of its db.serverless instances without their own averageACU (defaults to midway between MinCapacity and MaxCapacity)' },
+    backtrackChangeRecords: { default: 1000000, description: 'Change records kept for backtracking (when BacktrackWindow is set)' },
+    monthlyReplicatedWriteIOs: { default: 10000000, description: 'Write I/Os replicated to this global database cluster per month' },
+  },
+  'AWS::RDS::DBInstance': {
+    averageACU: {
+      description: 'Average capacity in ACUs of a db.serverless Aurora instance (defaults to its cluster\'s averageACU, then midway between MinCapacity and MaxCapacity)',
+      appliesTo: resource => resource.Properties?.DBInstanceClass === 'db.serverless',
+    },
+  },
+  'AWS::Neptune::DBCluster': {
+    storageGB: { default: 100, description: 'Cluster storage in GB' },
+  },
+  'AWS::DocDB::DBCluster': {
+    storageGB: { default: 100, description: 'Cluster storage in GB' },
+  },
+  'AWS::EC2::TransitGatewayAttachment': {
+    monthlyDataProcessedGB: { default: 100, description: 'Data processed by the attachment per month in GB' },
+  },
+  'AWS::KinesisFirehose::DeliveryStream': {
+    monthlyDataIngestedGB: { default: 100, description: 'Data ingested per month in GB' },
+  },
+  'AWS::Athena::WorkGroup': {
+    monthlyDataScannedGB: { default: 100, description: 'Data scanned by queries per month in GB' },
+  },
+  'AWS::EFS::FileSystem': {
+    storageGB: { default: 100, description: 'Standard storage in GB' },
+  },
+  'AWS::Backup::BackupVault': {
+    storageGB: { default: 100, description: 'Backup storage in GB' },
+  },
+  'AWS::CloudFront::Distribution': {
+    monthlyDataTransferGB: { default: 100, description: 'Data transfer out to the internet per month in GB' },
+    monthlyRequests: { default: 1000000, description: 'HTTPS requests per month' },
+  },
+  'AWS::CloudFront::Function': {
+    monthlyInvocations: { default: 2000000, description: 'Function invocations per month' },
+  },
+  'AWS::CloudTrail::Trail': {
+    monthlyDataEvents: { default: 100000, description: 'Data events recorded per month' },
+  },
+  'AWS::CodeBuild::Project': {
+    monthlyBuildMinutes: { default: 100, description: 'Build minutes per month' },
+  },
+  'AWS::Glue::Job': {
+    monthlyDpuHours: { default: 10, description: 'DPU-hours consumed per month' },
+  },
+  'AWS::Glue::Crawler': {
+    monthlyDpuHours: { default: 5, description: 'DPU-hours consumed per month' },
+  },
+  'AWS::NetworkFirewall::Firewall': {
+    monthlyDataProcessedGB: { default: 100, description: 'Data processed by the firewall per month in GB' },
+  },
+  'AWS::Grafana::Workspace': {
+    editors: { default: 2, description: 'Active editor users per month' },
+  },
+  'AWS::KinesisAnalyticsV2::Application': {
+    kpus: { default: 1, description: 'Average Kinesis Processing Units running' },
+  },
+  'AWS::EC2::ClientVpnEndpoint': {
+    activeConnections: { default: 1, description: 'Average concurrent client connections' },
+  },
+  'AWS::EKS::FargateProfile': {
+    runningPods: { default: 1, description: 'Average pods running (0.25 vCPU, 0.5GB each)' },
+  },
+  'AWS::Config::ConfigurationRecorder': {
+    monthlyConfigItems: { default: 1000, description: 'Configuration items recorded per month' },
+  },
+};
+
+export class UsageProfile {
+  private typeDefaults: Record<string, ResourceUsage>;
+  private resourceUsage: Record<string, ResourceUsage>;
+
+  constructor(usageFile: UsageFile = {}) {
+    this.typeDefaults = usageFile.resource_type_default_usage || {};
+    this.resourceUsage = usageFile.resource_usage || {};
+  }
+
+  /**
+   * Load a usage profile from a YAML or JSON file
+   */
+  static fromFile(filePath: string): UsageProfile {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Usage file not found: ${absolutePath}`);
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf-8');
+    return this.fromContent(content, filePath);
+  }
+
+  /**
+   * Parse a usage profile from string content
+   */
+  static fromContent(content: string, sourceName: string = 'usage file'): UsageProfile {
+    let usageFile: UsageFile;
+
+    try {
+      usageFile = (yaml.parse(content) as UsageFile) || {};
+    } catch (error) {
+      throw new Error(`Failed to parse ${sourceName} as JSON or YAML: ${error}`);
+    }
+
+    if (typeof usageFile !== 'object' || Array.isArray(usageFile)) {
+      throw new Error(`Invalid usage file structure in ${sourceName}`);
+    }
+
+    this.validateSection(usageFile.resource_type_default_usage, 'resource_type_default_usage', sourceName);
+    this.validateSection(usageFile.resource_usage, 'resource_usage', sourceName);
+
+    return new UsageProfile(usageFile);
+  }
+
+  /**
+   * Get the usage for a resource: calculator defaults, overridden by the
+   * resource type defaults, overridden by the values for the logical ID
+   */
+  getUsage(logicalId: string, resourceType: string): ResourceUsage {
+    const usage: ResourceUsage = {};
+
+    for (const [key, definition] of Object.entries(USAGE_DEFAULTS[resourceType] || {})) {
+      if (definition.default !== undefined) {
+        usage[key] = definition.default;
+      }
+    }
+
+    return {
+      ...usage,
+      ...this.typeDefaults[resourceType],
+      ...this.resourceUsage[logicalId],
+    };
+  }
+
+  /**
+   * Check whether the usage file provides any values for a resource
+   */
+  hasUsage(logicalId: string, resourceType: string): boolean {
+    return this.typeDefaults[resourceType] !== undefined || this.resourceUsage[logicalId] !== undefined;
+  }
+
+  /**
+   * Generate a commented usage file skeleton for every resource in a template
+   * whose cost depends on usage assumptions. When existing usage file content
+   * is given, missing resources and keys are merged in and existing values kept.
+   */
+  static generateSkeleton(
+    template: CloudFormationTemplate,
+    existingContent?: string
+  ): { content: string; addedResources: string[]; skippedResources: string[] } {
+    const doc = existingContent
+      ? yaml.parseDocument(existingContent)
+      : new yaml.Document({ version: '0.1' });
+    
+    if (doc.errors.length > 0) {
+      throw new Error(`Failed to parse existing usage file: ${doc.errors[0].message}`);
+    }
+    
+    if (!existingContent) {
+      doc.commentBefore = ' cfn-cost usage file\n Values are pre-filled with the default assumptions; tune them to match real traffic.';
+    }
+    
+    let section = doc.get('resource_usage');
+    if (!yaml.isMap(section)) {
+      section = doc.createNode({});
+      doc.set('resource_usage', section);
+    }
+    const resourceSection = section as yaml.YAMLMap;
+    
+    const addedResources: string[] = [];
+    const skippedResources: string[] = [];
+    
+    for (const [logicalId, resource] of TemplateParser.extractResources(template)) {
+      const keys = Object.entries(USAGE_DEFAULTS[resource.Type] || {})
+        .filter(([, definition]) => !definition.appliesTo || definition.appliesTo(resource));
+      
+      if (keys.length === 0) {
+        if (USAGE_BASED_RESOURCES.has(resource.Type)) {
+          skippedResources.push(logicalId);
+        }
+        continue;
+      }
+      
+      const existingEntry = resourceSection.get(logicalId);
+      const isNew = !yaml.isMap(existingEntry);
+      let entryMap: yaml.YAMLMap;
+      
+      if (isNew) {
+        entryMap = doc.createNode({}) as yaml.YAMLMap;
+        entryMap.commentBefore = ` ${resource.Type}`;
+        resourceSection.set(logicalId, entryMap);
+        addedResources.push(logicalId);
+      } else {
+        entryMap = existingEntry as yaml.YAMLMap;
+      }
+      const derivedKeys: string[] = [];
+      
+      for (const [key, definition] of keys) {
+        if (entryMap.has(key)) {
+          continue;
+        }
+        
+        if (definition.default === undefined) {
+          derivedKeys.push(` ${key}: # ${definition.description}`);
+          continue;
+        }
+        
+        const value = doc.createNode(definition.default) as yaml.Scalar;
+        value.comment = ` ${definition.description}`;
+        entryMap.set(key, value);
+      }
+      
+      // Keys derived from resource properties are left commented out so the
+      // calculator keeps deriving them until a value is set
+      if (isNew && derivedKeys.length > 0) {
+        entryMap.comment = derivedKeys.join('\n');
+      }
+    }
+    
+    return { content: doc.toString(), addedResources, skippedResources };
+  }
+  
+  /**
+   * Ensure a usage file section maps names to objects of numeric values
+   */
+  private static validateSection(section: unknown, sectionName: string, sourceName: string): void {
+    if (section === undefined || section === null) {
+      return;
+    }
+
+    if (typeof section !== 'object' || Array.isArray(section)) {
+      throw new Error(`Invalid ${sectionName} in ${sourceName}: expected a map`);
+    }
+
+    for (const [name, values] of Object.entries(section as Record<string, unknown>)) {
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        throw new Error(`Invalid ${sectionName}.${name} in ${sourceName}: expected a map of usage values`);
+      }
+
+      for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new Error(`Invalid usage value ${sectionName}.${name}.${key} in ${sourceName}: expected a number`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { AWSpricingData, CommitmentPricing, findBundledPricingFile, setPricingData } from '../src/pricing-data';
+import { Commitments } from '../src/pricing-model';
+import { CloudFormationTemplate } from '../src/types';
+
+const COMMITMENTS_PRICING_PATH = path.join(__dirname, 'fixtures', 'pricing-commitments-us-east-1.json');
+
+/**
+ * The bundled us-east-1 On-Demand prices with the fixture's term prices
+ */
+function pricingWithTerms(): AWSpricingData {
+  const bundled: Record<string, AWSpricingData> = JSON.parse(fs.readFileSync(findBundledPricingFile()!, 'utf-8'));
+  const commitments: Record<string, CommitmentPricing> = JSON.parse(fs.readFileSync(COMMITMENTS_PRICING_PATH, 'utf-8'));
+  return { ...bundled['us-east-1'], commitments };
+}
+
+const template: CloudFormationTemplate = {
+  Resources: {
+    Server: {
+      Type: 'AWS::EC2::Instance',
+      Properties: { InstanceType: 'm5.large' },
+    },
+  },
+};
+
+describe('Commitments.applyTo', () => {
+  const pricing = pricingWithTerms();
+  const onDemand = pricing.ec2.instances['m5.large'];
+
+  it('replaces On-Demand prices with the term prices of a fully covered service', () => {
+    const effective = Commitments.forModel('reserved-1yr-no-upfront').applyTo(pricing);
+
+    expect(effective.ec2.instances['m5.large']).toBe(0.060);
+    expect(effective.rds.instances['postgresql']['db.r5.large']).toBe(0.175);
+    expect(pricing.ec2.instances['m5.large']).toBe(onDemand);
+  });
+
+  it('blends term and On-Demand prices by the coverage of each service', () => {
+    const commitments = Commitments.fromContent([
+      'default: on-demand',
+      'services:',
+      '  ec2:',
+      '    model: compute-savings-plan',
+      '    coverage: 0.75',
+      '  rds:',
+      '    model: reserved-1yr-no-upfront',
+      '    coverage: 0.5',
+    ].join('\n'));
+
+    const effective = commitments.applyTo(pricing);
+
+    expect(effective.ec2.instances['m5.large']).toBeCloseTo(0.75 * 0.068 + 0.25 * onDemand);
+    expect(effective.rds.instances['postgresql']['db.r5.large']).toBeCloseTo(0.5 * 0.175 + 0.5 * pricing.rds.instances['postgresql']['db.r5.large']);
+    expect(effective.lambda.duration).toBe(pricing.lambda.duration);
+  });
+
+  it('keeps On-Demand prices for models without term prices, and reports them missing', () => {
+    const commitments = Commitments.forModel('reserved-3yr-all-upfront');
+
+    expect(commitments.getMissingModels(pricing)).toEqual(['reserved-3yr-all-upfront']);
+    expect(commitments.applyTo(pricing).ec2.instances['m5.large']).toBe(onDemand);
+  });
+});
+
+describe('CostCalculator with commitments', () => {
+  beforeAll(() => {
+    setPricingData({ 'us-east-1': pricingWithTerms() });
+  });
+
+  it('prices covered instances at the blended rate and reports the On-Demand equivalent', () => {
+    const commitments = Commitments.fromContent('services:\n  ec2:\n    model: reserved-1yr-no-upfront\n    coverage: 0.8\n');
+    const estimate = new CostCalculator('us-east-1', { commitments }).calculateStackCost('Test', template, 'local');
+
+    const onDemand = pricingWithTerms().ec2.instances['m5.large'];
+    expect(estimate.totalMonthlyCost).toBeCloseTo((0.8 * 0.060 + 0.2 * onDemand) * 730);
+    expect(estimate.onDemandMonthlyCost).toBeCloseTo(onDemand * 730);
+    expect(estimate.pricingModel).toBe('on-demand (ec2: reserved-1yr-no-upfront 80%)');
+  });
+});
@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { Currency } from '../src/currency';
+import { OutputFormatter } from '../src/output-formatter';
+import { CloudFormationTemplate, StackCostEstimate } from '../src/types';
+
+const RATES_PATH = path.join(__dirname, 'fixtures', 'exchange-rates.yml');
+
+const template: CloudFormationTemplate = {
+  Resources: {
+    Server: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: 'm5.large' } },
+  },
+};
+
+function estimate(): StackCostEstimate {
+  return new CostCalculator('us-east-1').calculateStackCost('Test', template, 'local');
+}
+
+describe('Currency.resolve', () => {
+  it('uses an inline exchange rate', () => {
+    const currency = Currency.resolve('cad', '1.35');
+
+    expect(currency.code).toBe('CAD');
+    expect(currency.convert(10)).toBeCloseTo(13.5);
+  });
+
+  it('looks the currency up in an exchange-rates file, whatever the case of its codes', () => {
+    expect(Currency.resolve('CAD', undefined, RATES_PATH).exchangeRate).toBe(1.37);
+    expect(Currency.resolve('EUR', undefined, RATES_PATH).exchangeRate).toBe(0.92);
+  });
+
+  it('fails on currencies missing from the exchange-rates file', () => {
+    expect(() => Currency.resolve('GBP', undefined, RATES_PATH)).toThrow('No exchange rate for GBP in');
+  });
+
+  it('requires exactly one source of exchange rates for other currencies', () => {
+    expect(() => Currency.resolve('EUR')).toThrow('needs an exchange rate');
+    expect(() => Currency.resolve('EUR', '0.9', RATES_PATH)).toThrow('not both');
+    expect(() => Currency.resolve('USD', '1.1')).toThrow('already in USD');
+  });
+
+  it('rejects invalid codes and rates', () => {
+    expect(() => Currency.resolve('CA', '1.37')).toThrow('Invalid currency "CA"');
+    expect(() => Currency.resolve('CAD', '-1')).toThrow('Invalid exchange rate for --exchange-rate');
+    expect(() => Currency.resolve('CAD', 'abc')).toThrow('Invalid exchange rate for --exchange-rate');
+  });
+});
+
+describe('Currency formatting', () => {
+  it('formats amounts with the currency symbol, keeping the plain dollar format for USD', () => {
+    expect(new Currency().format(12.345)).toBe('$12.35');
+    expect(new Currency('CAD', 1.37).format(12.34)).toBe('CA$12.34');
+    expect(new Currency('EUR', 0.92).format(1234.5)).toBe('€1,234.50');
+  });
+
+  it('adds converted amounts next to the US dollar amounts for JSON output', () => {
+    const currency = new Currency('CAD', 1.37);
+    const usd = estimate();
+
+    const converted = currency.withConvertedValues(usd) as StackCostEstimate & { converted: Record<string, unknown> };
+
+    expect(converted.totalMonthlyCost).toBe(usd.totalMonthlyCost);
+    expect(converted.converted).toMatchObject({ currency: 'CAD', exchangeRate: 1.37 });
+    expect(converted.converted.totalMonthlyCost).toBeCloseTo(usd.totalMonthlyCost * 1.37);
+    expect((converted.resources[0] as unknown as { converted: Record<string, number> }).converted.monthlyCost)
+      .toBeCloseTo(usd.resources[0].monthlyCost * 1.37);
+  });
+
+  it('reports converted amounts in formatted estimates', () => {
+    const usd = estimate();
+    const markdown = new OutputFormatter('us-east-1', new Currency('EUR', 0.92)).formatEstimate(usd, 'markdown');
+
+    expect(markdown).toContain(new Currency('EUR', 0.92).format(usd.totalMonthlyCost * 0.92));
+    expect(markdown).toContain('EUR (1 USD = 0.92 EUR)');
+  });
+});
@@ -0,0 +1,78 @@
+import { CostCalculator } from '../src/cost-calculator';
+import { DiffCalculator } from '../src/diff-calculator';
+import { FreeTierTracker } from '../src/free-tier';
+import { UsageProfile } from '../src/usage-profile';
+import { CloudFormationTemplate, ResourceCost, StackCostEstimate } from '../src/types';
+
+/**
+ * A stack with one 1GB function, invoked 3M times a month for 100ms each:
+ * 3M requests and 300,000 GB-seconds
+ */
+const lambdaStack: CloudFormationTemplate = {
+  Resources: {
+    Fn: {
+      Type: 'AWS::Lambda::Function',
+      Properties: { MemorySize: 1024, Runtime: 'nodejs20.x' },
+    },
+  },
+};
+
+const usageProfile = new UsageProfile({
+  resource_usage: { Fn: { monthlyInvocations: 3_000_000, averageDurationMs: 100 } },
+});
+
+function freeQuantity(cost: ResourceCost, unit: string): number {
+  return cost.details
+    .filter(d => d.unit === unit && d.component.startsWith('Free Tier'))
+    .reduce((sum, d) => sum - d.quantity, 0);
+}
+
+function functionCost(estimate: StackCostEstimate): ResourceCost {
+  return estimate.resources.find(r => r.resourceId === 'Fn')!;
+}
+
+describe('FreeTierTracker', () => {
+  it('shares allowances across the stacks priced with one tracker', () => {
+    const calculator = new CostCalculator('us-east-1', { usageProfile, freeTier: FreeTierTracker.forMode('always-free') });
+
+    const first = functionCost(calculator.calculateStackCost('First', lambdaStack, 'local'));
+    const second = functionCost(calculator.calculateStackCost('Second', lambdaStack, 'local'));
+
+    expect(freeQuantity(first, 'GB-seconds')).toBeCloseTo(300_000);
+    expect(freeQuantity(second, 'GB-seconds')).toBeCloseTo(100_000);
+    expect(freeQuantity(first, 'requests')).toBe(1_000_000);
+    expect(freeQuantity(second, 'requests')).toBe(0);
+    expect(second.monthlyCost).toBeGreaterThan(first.monthlyCost);
+  });
+
+  it('reports the reduction of each stack separately', () => {
+    const freeTier = FreeTierTracker.forMode('always-free')!;
+    const calculator = new CostCalculator('us-east-1', { usageProfile, freeTier });
+
+    const first = calculator.calculateStackCost('First', lambdaStack, 'local');
+    const second = calculator.calculateStackCost('Second', lambdaStack, 'local');
+
+    expect(first.freeTierSavings).toBeGreaterThan(second.freeTierSavings!);
+    expect(first.freeTierSavings! + second.freeTierSavings!).toBeCloseTo(freeTier.getTotalSavings());
+    expect(freeTier.getRemaining('lambda-compute')).toBe(0);
+  });
+
+  it('gives both sides of a diff their own allowances', () => {
+    const diff = new DiffCalculator('us-east-1', { usageProfile, freeTier: FreeTierTracker.forMode('always-free') });
+
+    const comparison = diff.compareTemplates('Test', lambdaStack, lambdaStack, 'local', 'local');
+
+    expect(comparison.costDifference).toBeCloseTo(0);
+    expect(freeQuantity(functionCost(comparison.after), 'GB-seconds')).toBeCloseTo(300_000);
+  });
+
+  it('applies the 12-month allowances only in 12-month mode', () => {
+    const alwaysFree = FreeTierTracker.forMode('always-free')!;
+    const twelveMonth = FreeTierTracker.forMode('12-month')!;
+
+    expect(alwaysFree.getRemaining('apigateway-rest-requests')).toBeUndefined();
+    expect(twelveMonth.getRemaining('apigateway-rest-requests')).toBe(1_000_000);
+    expect(alwaysFree.getRemaining('lambda-compute')).toBe(400_000);
+    expect(FreeTierTracker.forMode('off')).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { CostCalculator } from '../src/cost-calculator';
+import { InstanceSizes } from '../src/instance-sizes';
+import { CloudFormationTemplate } from '../src/types';
+
+describe('InstanceSizes.getSizeFactor', () => {
+  it.each([
+    ['t3.nano', 0.25],
+    ['m5.large', 4],
+    ['m7i.2xlarge', 16],
+    ['db.r6g.2xlarge', 16],
+    ['r6g.2xlarge.search', 16],
+    ['cache.m5.24xlarge', 192],
+  ])('%s is %d', (instanceType, factor) => {
+    expect(InstanceSizes.getSizeFactor(instanceType)).toBe(factor);
+  });
+
+  it('has no factor for metal and unknown sizes', () => {
+    expect(InstanceSizes.getSizeFactor('m5.metal')).toBeUndefined();
+    expect(InstanceSizes.getSizeFactor('serverless')).toBeUndefined();
+  });
+});
+
+describe('InstanceSizes.estimate', () => {
+  it('scales the price of the nearest priced size by the size factors', () => {
+    const estimate = InstanceSizes.estimate({ 'm5.large': 0.096, 'm5.8xlarge': 1.536 }, 'm5.xlarge');
+
+    expect(estimate).toEqual({ price: 0.192, basedOn: 'm5.large', basedOnPrice: 0.096 });
+  });
+
+  it('prefers the larger of two equally near sizes', () => {
+    const estimate = InstanceSizes.estimate({ 'm5.large': 0.1, 'm5.2xlarge': 0.38 }, 'm5.xlarge');
+
+    expect(estimate?.basedOn).toBe('m5.2xlarge');
+    expect(estimate?.price).toBeCloseTo(0.19);
+  });
+
+  it('only scales from the same family, generation, prefix and suffix', () => {
+    const prices = {
+      'm5d.xlarge': 0.226,
+      'm6i.xlarge': 0.192,
+      'db.m5.xlarge': 0.342,
+      'm5.xlarge.search': 0.283,
+    };
+
+    expect(InstanceSizes.estimate(prices, 'm5.2xlarge')).toBeUndefined();
+    expect(InstanceSizes.estimate(prices, 'db.m5.2xlarge')?.basedOn).toBe('db.m5.xlarge');
+    expect(InstanceSizes.estimate(prices, 'm5.2xlarge.search')?.basedOn).toBe('m5.xlarge.search');
+  });
+
+  it('ignores missing and zero prices', () => {
+    expect(InstanceSizes.estimate({ 'm5.large': 0 }, 'm5.xlarge')).toBeUndefined();
+    expect(InstanceSizes.estimate(undefined, 'm5.xlarge')).toBeUndefined();
+    expect(InstanceSizes.estimate({ 'm5.large': 0.096 }, 'm5.metal')).toBeUndefined();
+  });
+});
+
+describe('instance prices missing from the pricing data', () => {
+  it('are estimated from the nearest size with medium confidence', () => {
+    const template: CloudFormationTemplate = {
+      Resources: {
+        Server: { Type: 'AWS::EC2::Instance', Properties: { InstanceType: 'r6i.16xlarge' } },
+      },
+    };
+
+    const [server] = new CostCalculator('us-east-1', { strictPricing: true })
+      .calculateStackCost('Test', template, 'local').resources;
+
+    expect(server.confidence).toBe('medium');
+    expect(server.estimatedPrices).toEqual([
+      expect.stringMatching(/^No price for ec2\.instances\.r6i\.16xlarge in the pricing data; estimated \$[\d.]+\/hour from r6i\.12xlarge/),
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { TemplateParser } from '../src/template-parser';
+import { CloudFormationTemplate, ResolutionContext } from '../src/types';
+
+const TEMPLATE_PATH = path.join(__dirname, 'fixtures', 'templates', 'intrinsics.yaml');
+
+function loadTemplate(): CloudFormationTemplate {
+  return TemplateParser.parseFile(TEMPLATE_PATH);
+}
+
+/**
+ * Resolve a property of the template's cache cluster
+ */
+function cacheProperty(propertyPath: string, context: ResolutionContext = {}): unknown {
+  const template = loadTemplate();
+  return TemplateParser.getPropertyValue(template, template.Resources.Cache, propertyPath, undefined, {
+    region: 'us-east-1',
+    stackName: 'web',
+    ...context,
+  });
+}
+
+function tag(key: string, context: ResolutionContext = {}): unknown {
+  const tags = cacheProperty('Tags', context) as Array<{ Key: string; Value: unknown }>;
+  return tags.find(t => t.Key === key)?.Value;
+}
+
+describe('YAML short-form tags', () => {
+  it('parses short-form functions to their long form', () => {
+    const properties = loadTemplate().Resources.Cache.Properties!;
+
+    expect(properties.CacheNodeType).toEqual({ 'Fn::FindInMap': ['RegionSizes', { Ref: 'AWS::Region' }, { Ref: 'Env' }] });
+    expect(properties.PreferredAvailabilityZone).toEqual({ 'Fn::Select': [1, { 'Fn::GetAZs': '' }] });
+    expect(properties.ClusterName).toEqual({ 'Fn::Sub': '${AWS::StackName}-${Env}-cache' });
+  });
+
+  it('splits the !GetAtt shorthand at the first dot only', () => {
+    const tags = loadTemplate().Resources.Cache.Properties!.Tags as Array<{ Key: string; Value: unknown }>;
+
+    expect(tags.find(t => t.Key === 'Endpoint')!.Value).toEqual({ 'Fn::GetAtt': ['Cache', 'RedisEndpoint.Address'] });
+  });
+});
+
+describe('intrinsic function resolution', () => {
+  it('resolves Fn::FindInMap keyed on the region and a parameter', () => {
+    expect(cacheProperty('CacheNodeType')).toBe('cache.t3.micro');
+    expect(cacheProperty('CacheNodeType', { region: 'eu-west-1', parameters: { Env: 'prod' } })).toBe('cache.r6g.xlarge');
+    expect(cacheProperty('NumCacheNodes', { parameters: { Env: 'prod' } })).toBe(4);
+  });
+
+  it('uses the Fn::FindInMap DefaultValue for missing keys, and leaves them unresolved without one', () => {
+    expect(tag('Tier')).toBe('cache.t3.micro');
+    expect(tag('Unknown')).toBe('{{FindInMap:RegionSizes.ap-south-1.dev}}');
+  });
+
+  it('resolves Fn::Sub with parameters, pseudo parameters and variables', () => {
+    expect(cacheProperty('ClusterName')).toBe('web-dev-cache');
+    expect(tag('Arn', { region: 'cn-north-1' })).toBe('arn:aws-cn:elasticache:cn-north-1:123456789012:cluster/dev');
+  });
+
+  it('keeps escaped Fn::Sub variables literal and leaves resource attributes unresolved', () => {
+    expect(tag('Escaped')).toBe('${Literal}-{{GetAtt:Missing.Attr}}');
+    expect(TemplateParser.isUnresolved(tag('Escaped'))).toBe(true);
+  });
+
+  it('resolves Fn::Join and Fn::Split', () => {
+    expect(cacheProperty('SnapshotName', { parameters: { Env: 'prod' } })).toBe('prod-us-east-1-snapshot');
+    expect(cacheProperty('VpcSecurityGroupIds')).toEqual(['subnet-a', 'subnet-b', 'subnet-c']);
+  });
+
+  it('resolves Fn::GetAZs for the current region or the one given', () => {
+    expect(cacheProperty('PreferredAvailabilityZone', { region: 'eu-west-1' })).toBe('eu-west-1b');
+    expect(TemplateParser.resolveBasicIntrinsics(loadTemplate(), { 'Fn::GetAZs': 'ap-south-1' })).toEqual([
+      'ap-south-1a', 'ap-south-1b', 'ap-south-1c',
+    ]);
+  });
+
+  it('prices the node type picked from the mapping for the calculator region', () => {
+    const nodeType = (region: string) => new CostCalculator(region, { parameters: { Env: 'prod' } })
+      .calculateStackCost('web', loadTemplate(), 'local')
+      .resources.find(r => r.resourceId === 'Cache')!.details[0].component;
+
+    expect(nodeType('us-east-1')).toContain('cache.r6g.large');
+  });
+});
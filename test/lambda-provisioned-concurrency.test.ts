@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { AWSpricingData, findBundledPricingFile, setPricingData } from '../src/pricing-data';
+import { UsageProfile } from '../src/usage-profile';
+import { CloudFormationTemplate, CostDetail, ResourceCost } from '../src/types';
+
+const SECONDS_PER_MONTH = 730 * 3600;
+const LAMBDA_PRICING_PATH = path.join(__dirname, 'fixtures', 'pricing-lambda-us-east-1.json');
+
+/**
+ * A 1GB function with an alias keeping the given number of environments provisioned
+ */
+function functionWithAlias(provisionedExecutions: number): CloudFormationTemplate {
+  return {
+    Resources: {
+      Fn: {
+        Type: 'AWS::Lambda::Function',
+        Properties: { MemorySize: 1024, Runtime: 'nodejs20.x' },
+      },
+      Live: {
+        Type: 'AWS::Lambda::Alias',
+        Properties: {
+          FunctionName: { Ref: 'Fn' },
+          FunctionVersion: '1',
+          Name: 'live',
+          ProvisionedConcurrencyConfig: { ProvisionedConcurrentExecutions: provisionedExecutions },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Price a template's function with the given monthly invocations of 100ms each
+ */
+function priceFunction(template: CloudFormationTemplate, monthlyInvocations: number, strictPricing: boolean = false): ResourceCost {
+  const usageProfile = new UsageProfile({
+    resource_usage: { Fn: { monthlyInvocations, averageDurationMs: 100 } },
+  });
+  const estimate = new CostCalculator('us-east-1', { usageProfile, strictPricing }).calculateStackCost('Test', template, 'local');
+  return estimate.resources.find(r => r.resourceId === 'Fn')!;
+}
+
+function detail(cost: ResourceCost, unit: string): CostDetail | undefined {
+  return cost.details.find(d => d.unit === unit);
+}
+
+describe('Lambda invocations on provisioned concurrency', () => {
+  it('prices invocation duration within the provisioned capacity at the provisioned duration rate', () => {
+    // 50M x 100ms = 5,000,000 seconds, of which one environment covers a month's worth
+    const cost = priceFunction(functionWithAlias(1), 50_000_000);
+
+    const onDemand = detail(cost, 'GB-seconds')!;
+    const provisioned = detail(cost, 'provisioned GB-seconds')!;
+    expect(provisioned.quantity).toBeCloseTo(SECONDS_PER_MONTH);
+    expect(onDemand.quantity).toBeCloseTo(5_000_000 - SECONDS_PER_MONTH);
+    expect(provisioned.unitPrice).toBeLessThan(onDemand.unitPrice);
+    expect(provisioned.monthlyCost).toBeCloseTo(provisioned.quantity * provisioned.unitPrice);
+  });
+
+  it('prices all invocation duration at the provisioned rate when it fits in the provisioned capacity', () => {
+    // 10M x 100ms = 1,000,000 seconds, under one environment's month
+    const cost = priceFunction(functionWithAlias(1), 10_000_000);
+
+    expect(detail(cost, 'GB-seconds')!.quantity).toBe(0);
+    expect(detail(cost, 'provisioned GB-seconds')!.quantity).toBeCloseTo(1_000_000);
+  });
+
+  it('prices all invocation duration On-Demand without provisioned concurrency', () => {
+    const cost = priceFunction(functionWithAlias(0), 50_000_000);
+
+    expect(detail(cost, 'GB-seconds')!.quantity).toBeCloseTo(5_000_000);
+    expect(detail(cost, 'provisioned GB-seconds')).toBeUndefined();
+  });
+});
+
+describe('Lambda provisioned concurrency with fetched prices', () => {
+  const fetched: Pick<AWSpricingData, 'lambda'> = JSON.parse(fs.readFileSync(LAMBDA_PRICING_PATH, 'utf-8'));
+
+  beforeAll(() => {
+    const bundled: Record<string, AWSpricingData> = JSON.parse(fs.readFileSync(findBundledPricingFile()!, 'utf-8'));
+    setPricingData({ 'us-east-1': { ...bundled['us-east-1'], ...fetched } });
+  });
+
+  it('prices provisioned concurrency and the invocations on it from the pricing data under --strict-pricing', () => {
+    const cost = priceFunction(functionWithAlias(1), 50_000_000, true);
+
+    expect(detail(cost, 'provisioned GB-seconds')!.unitPrice).toBe(fetched.lambda.provisionedDuration);
+    expect(detail(cost, 'GB-seconds')!.unitPrice).toBe(fetched.lambda.duration);
+    expect(cost.warnings || []).toEqual([]);
+    expect(cost.confidence).not.toBe('low');
+  });
+});
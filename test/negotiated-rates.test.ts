@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import { AWSpricingData, findBundledPricingFile } from '../src/pricing-data';
+import { NegotiatedRates } from '../src/negotiated-rates';
+
+function bundledPricing(): AWSpricingData {
+  const bundled: Record<string, AWSpricingData> = JSON.parse(fs.readFileSync(findBundledPricingFile()!, 'utf-8'));
+  return bundled['us-east-1'];
+}
+
+describe('NegotiatedRates', () => {
+  const pricing = bundledPricing();
+
+  it('sets negotiated prices at dotted paths whose keys contain dots', () => {
+    const net = NegotiatedRates.fromContent('prices:\n  ec2.instances.r6i.2xlarge: 0.40\n').applyTo(pricing);
+
+    expect(net.ec2.instances['r6i.2xlarge']).toBe(0.40);
+    expect(net.ec2.instances['r6i']).toBeUndefined();
+    expect(net.ec2.instances['r6i.xlarge']).toBe(pricing.ec2.instances['r6i.xlarge']);
+  });
+
+  it('adds negotiated prices for keys missing from a table of prices', () => {
+    const net = NegotiatedRates.fromContent('prices:\n  ec2.instances.r6i.32xlarge: 6.50\n').applyTo(pricing);
+
+    expect(net.ec2.instances['r6i.32xlarge']).toBe(6.50);
+  });
+
+  it('sets negotiated prices of single values in nested sections', () => {
+    const net = NegotiatedRates.fromContent('prices:\n  loadBalancer.alb.hourly: 0.02\n').applyTo(pricing);
+
+    expect(net.loadBalancer.alb.hourly).toBe(0.02);
+    expect(net.loadBalancer.alb.lcuHourly).toBe(pricing.loadBalancer.alb.lcuHourly);
+  });
+
+  it('fails on paths that match no price', () => {
+    const rates = NegotiatedRates.fromContent('prices:\n  ec2.reservations.m5.large: 0.05\n', 'rates.yml');
+
+    expect(() => rates.applyTo(pricing)).toThrow('Unknown price "ec2.reservations.m5.large" in rates.yml for region us-east-1');
+  });
+
+  it('discounts by the most specific service discount, then sets negotiated prices', () => {
+    const rates = NegotiatedRates.fromContent([
+      'discount: 5',
+      'services:',
+      '  loadBalancer: 10',
+      '  loadBalancer.alb: 20',
+      'prices:',
+      '  ec2.instances.r6i.2xlarge: 0.40',
+    ].join('\n'));
+
+    const net = rates.applyTo(pricing);
+
+    expect(net.loadBalancer.alb.hourly).toBeCloseTo(pricing.loadBalancer.alb.hourly * 0.80);
+    expect(net.loadBalancer.nlb.hourly).toBeCloseTo(pricing.loadBalancer.nlb.hourly * 0.90);
+    expect(net.ec2.instances['m5.large']).toBeCloseTo(pricing.ec2.instances['m5.large'] * 0.95);
+    expect(net.ec2.instances['r6i.2xlarge']).toBe(0.40);
+    expect(pricing.ec2.instances['r6i.2xlarge']).toBe(bundledPricing().ec2.instances['r6i.2xlarge']);
+  });
+
+  it('rejects paths outside the pricing sections', () => {
+    expect(() => NegotiatedRates.fromContent('prices:\n  ec3.instances.m5.large: 0.05\n'))
+      .toThrow('Unknown pricing section "ec3"');
+  });
+});
@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { ParameterOverrides, ParameterValues } from '../src/parameter-overrides';
+import { TemplateParser } from '../src/template-parser';
+import { CloudFormationTemplate } from '../src/types';
+
+const TEMPLATE_PATH = path.join(__dirname, 'fixtures', 'templates', 'parameters.json');
+const PARAMETERS_DIR = path.join(__dirname, 'fixtures', 'parameters');
+
+function loadTemplate(): CloudFormationTemplate {
+  return TemplateParser.parseFile(TEMPLATE_PATH);
+}
+
+/**
+ * Resolve a Ref to one of the template's parameters
+ */
+function resolveParameter(name: string, parameters: ParameterValues = {}): unknown {
+  return TemplateParser.resolveBasicIntrinsics(loadTemplate(), { Ref: name }, { parameters });
+}
+
+describe('parameter value coercion', () => {
+  it('converts Number parameters given as strings to numbers', () => {
+    expect(resolveParameter('VolumeSize', { VolumeSize: '500' })).toBe(500);
+    expect(resolveParameter('VolumeSize')).toBe(20);
+  });
+
+  it('keeps Number parameter values that are not numbers as they are', () => {
+    expect(resolveParameter('VolumeSize', { VolumeSize: 'large' })).toBe('large');
+    expect(resolveParameter('VolumeSize', { VolumeSize: ' ' })).toBe(' ');
+  });
+
+  it('splits CommaDelimitedList and List<Number> parameters, trimming the items', () => {
+    expect(resolveParameter('AvailabilityZones')).toEqual(['us-east-1a', 'us-east-1b']);
+    expect(resolveParameter('Ports', { Ports: '8080, 8443' })).toEqual([8080, 8443]);
+  });
+
+  it('keeps String parameters as strings', () => {
+    expect(resolveParameter('InstanceType', { InstanceType: '1234' })).toBe('1234');
+  });
+});
+
+describe('ParameterOverrides', () => {
+  it('reads CloudFormation CLI parameter files, skipping UsePreviousValue entries', () => {
+    expect(ParameterOverrides.fromFile(path.join(PARAMETERS_DIR, 'prod-cli.json'))).toEqual({
+      InstanceType: 'm5.large',
+      VolumeSize: '500',
+    });
+  });
+
+  it('reads CodePipeline template configuration files', () => {
+    expect(ParameterOverrides.fromFile(path.join(PARAMETERS_DIR, 'prod-codepipeline.json'))).toEqual({
+      InstanceType: 'm5.large',
+      VolumeSize: '500',
+    });
+  });
+
+  it('lets --parameter assignments override values from a file', () => {
+    const parameters = {
+      ...ParameterOverrides.fromFile(path.join(PARAMETERS_DIR, 'prod-cli.json')),
+      ...ParameterOverrides.fromAssignments(['InstanceType=m5.xlarge', 'Note=a=b']),
+    };
+
+    expect(parameters).toEqual({ InstanceType: 'm5.xlarge', VolumeSize: '500', Note: 'a=b' });
+  });
+
+  it('rejects assignments without a key', () => {
+    expect(() => ParameterOverrides.fromAssignments(['=m5.large'])).toThrow('expected Key=Value');
+  });
+
+  it('prices the template with the parameter values instead of the defaults', () => {
+    const template = loadTemplate();
+    const estimate = (parameters: ParameterValues) =>
+      new CostCalculator('us-east-1', { parameters }).calculateStackCost('Test', template, 'local');
+
+    const dev = estimate({});
+    const prod = estimate(ParameterOverrides.fromFile(path.join(PARAMETERS_DIR, 'prod-cli.json')));
+
+    const component = (e: typeof dev, resourceId: string) =>
+      e.resources.find(r => r.resourceId === resourceId)!.details[0];
+    expect(component(dev, 'WebServer').component).toContain('t3.micro');
+    expect(component(prod, 'WebServer').component).toContain('m5.large');
+    expect(component(prod, 'DataVolume').quantity).toBe(500);
+    expect(prod.totalMonthlyCost).toBeGreaterThan(dev.totalMonthlyCost);
+  });
+});
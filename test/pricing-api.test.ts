@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  GraphQLResponse,
+  PricingApiClient,
+  PricingTransport,
+  RawResponseCache,
+  RawResponseFile,
+  createRecordedTransport,
+} from '../scripts/pricing-api';
+
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'pricing-responses.json');
+
+const ec2Query = (instanceType: string) =>
+  `{ products(filter: {vendorName: "aws", service: "AmazonEC2", region: "us-east-1", attributeFilters: [{key: "instanceType", value: "${instanceType}"}]}) { prices(filter: {purchaseOption: "on_demand"}) { USD } } }`;
+
+const athenaQuery =
+  '{ products(filter: {vendorName: "aws", service: "AmazonAthena", region: "us-east-1"}) { prices(filter: {purchaseOption: "on_demand"}) { USD unit } } }';
+
+/**
+ * Load the recorded responses, unattached to the fixture file so tests never write it
+ */
+function loadRecordings(): RawResponseCache {
+  const data: RawResponseFile = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf-8'));
+  return new RawResponseCache(data);
+}
+
+/**
+ * Wrap a transport, counting the queries that reach it
+ */
+function countingTransport(transport: PricingTransport): { transport: PricingTransport; calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    transport: (query: string) => {
+      calls.push(query);
+      return transport(query);
+    },
+  };
+}
+
+const noSleep = async () => {};
+
+describe('PricingApiClient with recorded responses', () => {
+  it('replays recorded responses without network access', async () => {
+    const client = new PricingApiClient(createRecordedTransport(loadRecordings()), { retries: 0 });
+    client.startService('us-east-1', 'ec2');
+
+    const response = await client.query(ec2Query('t3.micro'));
+
+    expect(response.data?.products[0].prices[0].USD).toBe('0.0104000000');
+    expect(client.getStats()).toEqual({ queries: 1, cached: 0, retried: 0, failed: 0 });
+  });
+
+  it('ignores whitespace differences when matching recorded queries', async () => {
+    const client = new PricingApiClient(createRecordedTransport(loadRecordings()), { retries: 0 });
+    client.startService('us-east-1', 'other');
+
+    const response = await client.query(athenaQuery.replace(/ /g, '\n    '));
+
+    expect(response.data?.products[0].prices[0]).toEqual({ USD: '5.0000000000', unit: 'Terabytes' });
+  });
+
+  it('counts each query of a service that spans several queries, and restarts the counts per service', async () => {
+    const client = new PricingApiClient(createRecordedTransport(loadRecordings()), { retries: 0 });
+    client.startService('us-east-1', 'ec2');
+
+    const prices: string[] = [];
+    for (const instanceType of ['t3.micro', 't3.small']) {
+      const response = await client.query(ec2Query(instanceType));
+      prices.push(response.data!.products[0].prices[0].USD);
+    }
+
+    expect(prices).toEqual(['0.0104000000', '0.0208000000']);
+    expect(client.getStats().queries).toBe(2);
+
+    client.startService('us-east-1', 'other');
+    await client.query(athenaQuery);
+    expect(client.getStats()).toEqual({ queries: 1, cached: 0, retried: 0, failed: 0 });
+  });
+});
+
+describe('PricingApiClient caching', () => {
+  it('records responses in the cache and answers repeated queries from it', async () => {
+    const { transport, calls } = countingTransport(createRecordedTransport(loadRecordings()));
+    const cache = new RawResponseCache();
+    const client = new PricingApiClient(transport, { cache });
+    client.startService('us-east-1', 'ec2');
+
+    await client.query(ec2Query('t3.micro'));
+    const repeated = await client.query(ec2Query('t3.micro'));
+
+    expect(calls).toHaveLength(1);
+    expect(repeated.data?.products[0].prices[0].USD).toBe('0.0104000000');
+    expect(client.getStats()).toEqual({ queries: 2, cached: 1, retried: 0, failed: 0 });
+    expect(cache.get('us-east-1', 'ec2', '7b3831406784e3f1')?.response).toEqual(repeated);
+  });
+
+  it('queries again when the cached response is older than the maximum age', async () => {
+    const { transport, calls } = countingTransport(createRecordedTransport(loadRecordings()));
+    const client = new PricingApiClient(transport, { cache: loadRecordings(), cacheMaxAgeHours: 24 });
+    client.startService('us-east-1', 'ec2');
+
+    await client.query(ec2Query('t3.small'));
+
+    expect(calls).toHaveLength(1);
+    expect(client.getStats().cached).toBe(0);
+  });
+
+  it('keeps cached responses per region and service', async () => {
+    const { transport, calls } = countingTransport(createRecordedTransport(loadRecordings()));
+    const client = new PricingApiClient(transport, { cache: loadRecordings() });
+    client.startService('eu-west-1', 'ec2');
+
+    await client.query(ec2Query('t3.micro'));
+
+    expect(calls).toHaveLength(1);
+    expect(client.getStats().cached).toBe(0);
+  });
+});
+
+describe('PricingApiClient errors', () => {
+  it('retries failed queries with exponential backoff', async () => {
+    const recorded = createRecordedTransport(loadRecordings());
+    let attempts = 0;
+    const flaky: PricingTransport = async (query: string): Promise<GraphQLResponse> => {
+      if (++attempts < 3) {
+        throw new Error('socket hang up');
+      }
+      return recorded(query);
+    };
+    const delays: number[] = [];
+    const client = new PricingApiClient(flaky, {
+      retries: 3,
+      baseDelayMs: 100,
+      sleep: async (ms: number) => { delays.push(ms); },
+    });
+    client.startService('us-east-1', 'ec2');
+
+    const response = await client.query(ec2Query('t3.small'));
+
+    expect(response.data?.products[0].prices[0].USD).toBe('0.0208000000');
+    expect(delays).toEqual([100, 200]);
+    expect(client.getStats()).toEqual({ queries: 1, cached: 0, retried: 2, failed: 0 });
+  });
+
+  it('fails on GraphQL errors after the retries and counts the failure', async () => {
+    const { transport, calls } = countingTransport(createRecordedTransport(loadRecordings()));
+    const cache = new RawResponseCache();
+    const client = new PricingApiClient(transport, { cache, retries: 2, sleep: noSleep });
+    client.startService('us-east-1', 'ec2');
+
+    await expect(client.query(ec2Query('t3.medium'))).rejects.toThrow('Pricing API error: rate limit exceeded');
+
+    expect(calls).toHaveLength(3);
+    expect(client.getStats()).toEqual({ queries: 1, cached: 0, retried: 2, failed: 1 });
+    expect(cache.get('us-east-1', 'ec2', 'd574aaf5f0f43550')).toBeUndefined();
+  });
+
+  it('fails on queries that have no recorded response', async () => {
+    const client = new PricingApiClient(createRecordedTransport(loadRecordings()), { retries: 0 });
+    client.startService('us-east-1', 'ec2');
+
+    await expect(client.query(ec2Query('t3.large'))).rejects.toThrow('No recorded response for query');
+    expect(client.getStats().failed).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PricingSnapshots } from '../src/pricing-snapshots';
+
+function snapshotDirectory(dates: string[]): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pricing-snapshots-'));
+  for (const date of dates) {
+    fs.writeFileSync(path.join(directory, `${date}.json`), '{}');
+  }
+  fs.writeFileSync(path.join(directory, 'notes.json'), '{}');
+  return directory;
+}
+
+describe('PricingSnapshots', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = snapshotDirectory(['2025-06-01', '2025-09-30', '2025-12-05']);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads dates as written, without shifting them by the time zone', () => {
+    expect(PricingSnapshots.normalizeDate('2025-12-05')).toBe('2025-12-05');
+    expect(PricingSnapshots.normalizeDate(' 2025-01-01 ')).toBe('2025-01-01');
+  });
+
+  it('rejects dates that are not calendar dates in YYYY-MM-DD form', () => {
+    for (const date of ['2025-02-30', '2025-13-01', '12/05/2025', '2025-12-05T10:00:00Z', 'yesterday']) {
+      expect(() => PricingSnapshots.normalizeDate(date)).toThrow(`Invalid pricing date "${date}"`);
+    }
+  });
+
+  it('finds the snapshot in effect on a date, or the earliest one for earlier dates', () => {
+    expect(PricingSnapshots.findNearest('2025-09-30', directory).date).toBe('2025-09-30');
+    expect(PricingSnapshots.findNearest('2025-11-01', directory).date).toBe('2025-09-30');
+    expect(PricingSnapshots.findNearest('2024-01-01', directory).date).toBe('2025-06-01');
+  });
+
+  it('prunes all but the most recent snapshots, leaving other files alone', () => {
+    const removed = PricingSnapshots.prune(directory, 2);
+
+    expect(removed.map(snapshot => snapshot.date)).toEqual(['2025-06-01']);
+    expect(PricingSnapshots.list(directory).map(snapshot => snapshot.date)).toEqual(['2025-09-30', '2025-12-05']);
+    expect(fs.existsSync(path.join(directory, 'notes.json'))).toBe(true);
+    expect(PricingSnapshots.prune(directory, 12)).toEqual([]);
+  });
+
+  it('refuses to prune every snapshot', () => {
+    expect(() => PricingSnapshots.prune(directory, 0)).toThrow('Invalid number of snapshots to keep "0"');
+    expect(PricingSnapshots.list(directory)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,94 @@
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { SamTransform } from '../src/sam-transform';
+import { TemplateParser } from '../src/template-parser';
+import { CloudFormationTemplate } from '../src/types';
+
+const TEMPLATE_PATH = path.join(__dirname, 'fixtures', 'templates', 'sam.yaml');
+
+function loadTemplate(): CloudFormationTemplate {
+  return TemplateParser.parseFile(TEMPLATE_PATH);
+}
+
+describe('SamTransform', () => {
+  it('expands SAM resources when parsing and drops the transform and Globals', () => {
+    const template = loadTemplate();
+
+    expect(template.Transform).toBeUndefined();
+    expect(template.Globals).toBeUndefined();
+    expect(SamTransform.isSamTemplate(template)).toBe(false);
+    expect(template.Resources.ApiFunction.Type).toBe('AWS::Lambda::Function');
+    expect(template.Resources.SharedLayer.Type).toBe('AWS::Lambda::LayerVersion');
+  });
+
+  it('merges Globals into functions: maps merged, lists appended, other values replaced', () => {
+    const properties = loadTemplate().Resources.ApiFunction.Properties!;
+
+    expect(properties.Runtime).toBe('nodejs20.x');
+    expect(properties.Timeout).toBe(10);
+    expect(properties.MemorySize).toBe(1024);
+    expect(properties.Environment).toEqual({ Variables: { STAGE: 'prod', LOG_LEVEL: 'debug' } });
+    expect(properties.Layers).toEqual([
+      { Ref: 'SharedLayer' },
+      'arn:aws:lambda:us-east-1:123456789012:layer:insights:1',
+    ]);
+    expect(properties.Code).toEqual({ S3Bucket: 'artifacts', S3Key: 'api.zip' });
+  });
+
+  it('adds an execution role only to functions without a Role', () => {
+    const { Resources } = loadTemplate();
+
+    expect(Resources.ApiFunctionRole.Type).toBe('AWS::IAM::Role');
+    expect(Resources.ApiFunction.Properties!.Role).toEqual({ 'Fn::GetAtt': ['ApiFunctionRole', 'Arn'] });
+    expect(Resources.WorkerFunctionRole).toBeUndefined();
+    expect(Resources.WorkerFunction.Properties!.Role).toBe('arn:aws:iam::123456789012:role/worker');
+  });
+
+  it('publishes a version and alias for AutoPublishAlias, carrying the provisioned concurrency', () => {
+    const { Resources } = loadTemplate();
+
+    expect(Resources.ApiFunctionVersion).toEqual({
+      Type: 'AWS::Lambda::Version',
+      Properties: { FunctionName: { Ref: 'ApiFunction' } },
+    });
+    expect(Resources.ApiFunctionAliaslive).toEqual({
+      Type: 'AWS::Lambda::Alias',
+      Properties: {
+        Name: 'live',
+        FunctionName: { Ref: 'ApiFunction' },
+        FunctionVersion: { 'Fn::GetAtt': ['ApiFunctionVersion', 'Version'] },
+        ProvisionedConcurrencyConfig: { ProvisionedConcurrentExecutions: 2 },
+      },
+    });
+    expect(Resources.ApiFunction.Properties!.ProvisionedConcurrencyConfig).toBeUndefined();
+    expect(Resources.WorkerFunctionVersion).toBeUndefined();
+  });
+
+  it('creates one implicit ServerlessRestApi for Api events, with the Api Globals', () => {
+    const { Resources } = loadTemplate();
+
+    expect(Object.keys(Resources).filter(id => Resources[id].Type === 'AWS::ApiGateway::RestApi')).toEqual(['ServerlessRestApi']);
+    expect(Resources.ServerlessRestApi.Properties).toEqual({
+      Name: { Ref: 'AWS::StackName' },
+      EndpointConfiguration: { Types: ['REGIONAL'] },
+    });
+  });
+
+  it('leaves templates without the SAM transform unchanged', () => {
+    const template: CloudFormationTemplate = {
+      Resources: { Fn: { Type: 'AWS::Serverless::Function', Properties: { Runtime: 'nodejs20.x' } } },
+    };
+
+    expect(SamTransform.expand(template)).toBe(template);
+  });
+
+  it('prices the expanded function, alias and implicit API', () => {
+    const estimate = new CostCalculator('us-east-1').calculateStackCost('Sam', loadTemplate(), 'local');
+    const resourceType = (id: string) => estimate.resources.find(r => r.resourceId === id)?.resourceType;
+
+    expect(resourceType('ApiFunction')).toBe('AWS::Lambda::Function');
+    expect(resourceType('ApiFunctionAliaslive')).toBe('AWS::Lambda::Alias');
+    expect(resourceType('ServerlessRestApi')).toBe('AWS::ApiGateway::RestApi');
+    expect(estimate.unsupportedResources.map(r => r.resourceType)).not.toContain('AWS::Serverless::Function');
+  });
+});
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { AWSpricingData, findBundledPricingFile, setPricingData } from '../src/pricing-data';
+import { CloudFormationTemplate } from '../src/types';
+
+const SAMPLE_STACK_PATH = path.join(__dirname, '..', 'examples', 'sample-stack.json');
+const PRICING_GAPS_PATH = path.join(__dirname, 'fixtures', 'pricing-gaps-us-east-1.json');
+
+/**
+ * The bundled us-east-1 prices, with the sections its last fetch left at 0
+ * filled in from the fixture
+ */
+function completePricing(): AWSpricingData {
+  const bundled: Record<string, AWSpricingData> = JSON.parse(fs.readFileSync(findBundledPricingFile()!, 'utf-8'));
+  const gaps: Partial<AWSpricingData> = JSON.parse(fs.readFileSync(PRICING_GAPS_PATH, 'utf-8'));
+  return { ...bundled['us-east-1'], ...gaps };
+}
+
+function sampleStack(): CloudFormationTemplate {
+  return JSON.parse(fs.readFileSync(SAMPLE_STACK_PATH, 'utf-8'));
+}
+
+describe('--strict-pricing', () => {
+  it('prices the sample stack when the pricing data has every price it uses', () => {
+    setPricingData({ 'us-east-1': completePricing() });
+    const calculator = new CostCalculator('us-east-1', { strictPricing: true });
+
+    const estimate = calculator.calculateStackCost('sample-stack', sampleStack(), 'local');
+
+    expect(estimate.totalMonthlyCost).toBeGreaterThan(0);
+    expect(estimate.resources.flatMap(r => r.warnings || [])).toEqual([]);
+  });
+
+  it('looks up PostgreSQL instances under the postgresql engine prices', () => {
+    const pricing = completePricing();
+    setPricingData({ 'us-east-1': pricing });
+
+    const estimate = new CostCalculator('us-east-1', { strictPricing: true }).calculateStackCost('sample-stack', sampleStack(), 'local');
+
+    const database = estimate.resources.find(r => r.resourceId === 'Database')!;
+    expect(database.details[0].unitPrice).toBeCloseTo(pricing.rds.instances['postgresql']['db.t3.medium'] * 730);
+  });
+
+  it('fails on prices missing from the pricing data, naming them', () => {
+    const pricing = completePricing();
+    setPricingData({ 'us-east-1': { ...pricing, kms: { ...pricing.kms, key: 0 } } });
+    const calculator = new CostCalculator('us-east-1', { strictPricing: true });
+
+    expect(() => calculator.calculateStackCost('sample-stack', sampleStack(), 'local'))
+      .toThrow('EncryptionKey: No price for kms.key in the pricing data');
+  });
+});
@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { TemplateParser } from '../src/template-parser';
+import { CloudFormationTemplate, ResolutionContext } from '../src/types';
+
+const TEMPLATE_PATH = path.join(__dirname, 'fixtures', 'templates', 'conditions.yaml');
+
+function loadTemplate(): CloudFormationTemplate {
+  return TemplateParser.parseFile(TEMPLATE_PATH);
+}
+
+function contextFor(parameters: Record<string, unknown>, region: string = 'us-east-1'): ResolutionContext {
+  return TemplateParser.createContext(loadTemplate(), { parameters, region });
+}
+
+describe('TemplateParser conditions', () => {
+  it('evaluates Fn::Equals, Fn::And, Fn::Or, Fn::Not and Condition references from parameter values', () => {
+    const { conditions } = contextFor({ Env: 'prod', ReplicaRegion: '' });
+
+    expect(conditions).toEqual({
+      IsProd: true,
+      IsStaging: false,
+      IsProdOrStaging: true,
+      IsDev: false,
+      CreateProdReplica: true,
+      CrossRegionReplica: false,
+    });
+  });
+
+  it('uses parameter defaults and pseudo parameters when no value is given', () => {
+    expect(contextFor({ ReplicaRegion: '' }).conditions?.IsDev).toBe(true);
+    expect(contextFor({ Env: 'prod', ReplicaRegion: '' }, 'us-west-2').conditions?.CreateProdReplica).toBe(false);
+  });
+
+  it('selects the Fn::If branch of the evaluated condition, including nested Fn::If', () => {
+    const template = loadTemplate();
+    const database = template.Resources.Database;
+
+    const instanceClass = (Env: string) => TemplateParser.getPropertyValue(
+      template, database, 'DBInstanceClass', undefined, contextFor({ Env, ReplicaRegion: '' })
+    );
+
+    expect(instanceClass('prod')).toBe('db.r5.large');
+    expect(instanceClass('staging')).toBe('db.t3.large');
+    expect(instanceClass('dev')).toBe('db.t3.medium');
+  });
+
+  it('skips resources whose condition is false', () => {
+    const template = loadTemplate();
+    const resourceIds = (Env: string) => new CostCalculator('us-east-1', { parameters: { Env, ReplicaRegion: '' } })
+      .calculateStackCost('Test', template, 'local')
+      .resources.map(r => r.resourceId);
+
+    expect(resourceIds('dev')).toEqual(['Database', 'DevBastion']);
+    expect(resourceIds('prod')).toEqual(['Database', 'ProdReplica']);
+  });
+
+  it('reports a condition comparing an unresolved parameter instead of treating it as false', () => {
+    const context = contextFor({ Env: 'prod' });
+
+    expect(context.conditions).not.toHaveProperty('CrossRegionReplica');
+    expect(context.unresolvedConditions).toEqual(['CrossRegionReplica']);
+    expect(TemplateParser.isResourceIncluded(loadTemplate().Resources.RegionalReplica, context)).toBe(true);
+  });
+
+  it('prices resources under an unresolved condition with low confidence', () => {
+    const estimate = new CostCalculator('us-east-1', { parameters: { Env: 'prod' } })
+      .calculateStackCost('Test', loadTemplate(), 'local');
+
+    const replica = estimate.resources.find(r => r.resourceId === 'RegionalReplica')!;
+    expect(replica.confidence).toBe('low');
+    expect(replica.unresolvedProperties).toContain('Condition CrossRegionReplica');
+  });
+
+  it('fails on circular condition references', () => {
+    const template: CloudFormationTemplate = {
+      Conditions: {
+        A: { Condition: 'B' },
+        B: { 'Fn::Not': [{ Condition: 'A' }] },
+      },
+      Resources: {},
+    };
+
+    expect(() => TemplateParser.evaluateConditions(template)).toThrow('Circular condition reference: A -> B -> A');
+  });
+});
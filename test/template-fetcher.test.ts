@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { CostCalculator } from '../src/cost-calculator';
+import { TemplateFetcher } from '../src/template-fetcher';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'nested-stacks');
+const APP_TEMPLATE_PATH = path.join(FIXTURES_DIR, 'app-stack.json');
+
+describe('TemplateFetcher nested stacks', () => {
+  it('loads nested templates from the aws:asset:path metadata, recursively', () => {
+    const { nestedStacks } = TemplateFetcher.fetchLocalTemplate(APP_TEMPLATE_PATH, 'AppStack');
+
+    const database = nestedStacks!.DatabaseNestedStack;
+    expect(database.stackName).toBe('AppStack/DatabaseNestedStack');
+    expect(database.templatePath).toBe(path.join(FIXTURES_DIR, 'AppStackDatabase.nested.json'));
+    expect(database.source).toBe('local');
+    expect(Object.keys(database.template.Resources)).toEqual(['Database', 'CacheNestedStack']);
+
+    const cache = database.nestedStacks!.CacheNestedStack;
+    expect(cache.stackName).toBe('AppStack/DatabaseNestedStack/CacheNestedStack');
+    expect(cache.templatePath).toBe(path.join(FIXTURES_DIR, 'AppStackCache.nested.json'));
+  });
+
+  it('skips nested stacks that reference a template already being loaded', () => {
+    const { nestedStacks } = TemplateFetcher.fetchLocalTemplate(APP_TEMPLATE_PATH, 'AppStack');
+
+    expect(nestedStacks!.DatabaseNestedStack.nestedStacks!.CacheNestedStack.nestedStacks).toEqual({});
+  });
+
+  it('finds templates by the object key at the end of the TemplateURL from the asset manifests', () => {
+    const assetPaths = TemplateFetcher.loadAssetPaths(FIXTURES_DIR);
+
+    expect(assetPaths.get('9f8e7d6c5b.json')).toBe(path.join(FIXTURES_DIR, 'AppStackWorkers.nested.json'));
+
+    const { nestedStacks } = TemplateFetcher.fetchLocalTemplate(APP_TEMPLATE_PATH, 'AppStack');
+    expect(nestedStacks!.WorkersNestedStack.templatePath).toBe(path.join(FIXTURES_DIR, 'AppStackWorkers.nested.json'));
+  });
+
+  it('leaves out nested stacks whose template is not on disk', () => {
+    const { nestedStacks } = TemplateFetcher.fetchLocalTemplate(APP_TEMPLATE_PATH, 'AppStack');
+
+    expect(Object.keys(nestedStacks!).sort()).toEqual(['DatabaseNestedStack', 'WorkersNestedStack']);
+  });
+
+  it('prices the resources of the nested stacks under their parent stack resource', () => {
+    const fetched = TemplateFetcher.fetchLocalTemplate(APP_TEMPLATE_PATH, 'AppStack');
+    const estimate = new CostCalculator('us-east-1')
+      .calculateStackCost(fetched.stackName, fetched.template, fetched.source, fetched.nestedStacks);
+
+    const resourceIds = estimate.resources.map(r => r.resourceId);
+    expect(resourceIds).toEqual(expect.arrayContaining([
+      'Web',
+      'DatabaseNestedStack/Database',
+      'DatabaseNestedStack/CacheNestedStack/Cache',
+      'WorkersNestedStack/Queue',
+    ]));
+    expect(estimate.resources.find(r => r.resourceId === 'DatabaseNestedStack/Database')!.parentResourceId)
+      .toBe('DatabaseNestedStack');
+    expect(estimate.unsupportedResources.map(r => r.resourceId)).toContain('MissingNestedStack');
+  });
+});
@@ -0,0 +1,28 @@
+import { CostCalculator } from '../src/cost-calculator';
+import { USAGE_BASED_RESOURCES } from '../src/pricing-data';
+import { USAGE_DEFAULTS } from '../src/usage-profile';
+import { CloudFormationTemplate } from '../src/types';
+
+/**
+ * Price a one-resource template of the given type and return the reason it
+ * went unpriced, if it did
+ */
+function unpricedReason(resourceType: string): string | undefined {
+  const template: CloudFormationTemplate = {
+    Resources: {
+      Resource: { Type: resourceType, Properties: {} },
+    },
+  };
+  const estimate = new CostCalculator('us-east-1').calculateStackCost('Test', template, 'local');
+  return estimate.unsupportedResources.find(r => r.resourceId === 'Resource')?.reason;
+}
+
+describe('usage-based resource types', () => {
+  it.each([...USAGE_BASED_RESOURCES])('%s in USAGE_BASED_RESOURCES has a calculator', resourceType => {
+    expect(unpricedReason(resourceType)).toBeUndefined();
+  });
+
+  it.each(Object.keys(USAGE_DEFAULTS))('%s in USAGE_DEFAULTS has a calculator', resourceType => {
+    expect(unpricedReason(resourceType)).toBeUndefined();
+  });
+});